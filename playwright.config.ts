@@ -51,7 +51,7 @@ export default defineConfig({
 
   /* Run your local dev server before starting the tests */
   webServer: {
-    command: 'cross-env VITE_E2E_TESTING=true npm run dev',
+    command: 'cross-env VITE_E2E_TESTING=true npm run dev -- --config vite.e2e.config.ts',
     url: 'http://localhost:5173/bachata-moves/',
     reuseExistingServer: !process.env.CI,
     stdout: 'pipe',
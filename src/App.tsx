@@ -11,6 +11,9 @@ import AddLessonModal from './components/AddLessonModal';
 import AddFigureModal from './components/AddFigureModal';
 import EditorScreen from './components/EditorScreen';
 import CustomizeGroupingScreen from './components/CustomizeCategoriesScreen';
+import SyncConflictsScreen from './components/SyncConflictsScreen';
+import SyncPreviewScreen from './components/SyncPreviewScreen';
+import SyncHistoryScreen from './components/SyncHistoryScreen';
 import { GoogleDriveProvider, useGoogleDrive } from './contexts/GoogleDriveContext';
 import { SettingsProvider } from './contexts/SettingsContext';
 import { I18nProvider, useTranslation } from './contexts/I18nContext';
@@ -52,7 +55,11 @@ const AppContent: React.FC<{ isDesktop: boolean }> = ({ isDesktop }) => {
             <Route path=":figureId/edit" element={<EditorScreen />} />
             <Route path="categories" element={<CustomizeGroupingScreen />} />
           </Route>
-          <Route path="settings" element={<SettingsView />} />
+          <Route path="settings" element={<SettingsView />}>
+            <Route path="sync-conflicts" element={<SyncConflictsScreen />} />
+            <Route path="sync-preview" element={<SyncPreviewScreen />} />
+            <Route path="sync-history" element={<SyncHistoryScreen />} />
+          </Route>
         </Routes>
       </main>
 
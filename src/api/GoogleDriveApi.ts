@@ -1,4 +1,6 @@
 import { createLogger } from '../utils/logger';
+import { readBlobWithProgress } from '../utils/transfer';
+import { isAbortError, type TransferOptions } from './RemoteStorageProvider';
 
 // --- Types and Interface ---
 
@@ -8,6 +10,33 @@ export interface DriveFile {
     modifiedTime: string;
     parents: string[];
     trashed?: boolean;
+    size?: number;
+}
+
+export interface DriveFileResource {
+    id: string;
+    name: string;
+    modifiedTime: string;
+    parents: string[];
+    trashed?: boolean;
+    size?: string;
+}
+
+export interface DriveFileListResource {
+    files?: DriveFileResource[];
+    nextPageToken?: string;
+}
+
+export interface DriveChangeResource {
+    fileId: string;
+    removed: boolean;
+    file?: DriveFileResource;
+}
+
+export interface DriveChangeListResource {
+    changes?: DriveChangeResource[];
+    nextPageToken?: string;
+    newStartPageToken?: string;
 }
 
 export interface DriveFileMetadata {
@@ -16,36 +45,290 @@ export interface DriveFileMetadata {
     parents?: string[];
 }
 
+export interface DriveChange {
+    fileId: string;
+    removed: boolean;
+    file?: DriveFile;
+}
+
+export interface DriveChangeList {
+    changes: DriveChange[];
+    newStartPageToken: string;
+}
+
+export type DriveUploadSessionStatus = { uploadedBytes: number } | { file: DriveFile };
+
+export interface DriveBatchRequest {
+    method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
+    path: string;
+    body?: unknown;
+}
+
+export interface DriveBatchResponse {
+    status: number;
+    body: string;
+}
+
+export type DriveBatchResult<T> = { ok: true; value: T } | { ok: false; error: DriveApiError };
+
+export interface DriveAccessTokenProvider {
+    getAccessToken(): string;
+    onAuthenticationFailed(): void;
+}
+
+export type DriveApiErrorKind = 'timeout' | 'network' | 'http' | 'auth' | 'rate-limit' | 'storage-quota';
+
+export interface DriveApiErrorDetails {
+    reason?: string;
+    retryAfterMs?: number;
+}
+
+export class DriveApiError extends Error {
+    readonly kind: DriveApiErrorKind;
+    readonly status?: number;
+    readonly reason?: string;
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, kind: DriveApiErrorKind, status?: number, details: DriveApiErrorDetails = {}) {
+        super(message);
+        this.name = 'DriveApiError';
+        this.kind = kind;
+        this.status = status;
+        this.reason = details.reason;
+        this.retryAfterMs = details.retryAfterMs;
+    }
+
+    get isTransient(): boolean {
+        if (this.kind === 'auth' || this.kind === 'storage-quota') return false;
+        if (this.kind !== 'http') return true;
+        return this.status === 408 || this.status === 429 || (this.status !== undefined && this.status >= 500);
+    }
+
+    get requiresReauthentication(): boolean {
+        return this.kind === 'auth';
+    }
+
+    get isStorageQuotaExceeded(): boolean {
+        return this.kind === 'storage-quota';
+    }
+}
+
 export interface GoogleDriveApi {
     listFiles(query: string, pageSize?: number): Promise<DriveFile[]>;
     findOrCreateFolder(name: string, parentId?: string): Promise<string>;
-    upload(content: Blob | string, metadata: DriveFileMetadata, fileId?: string): Promise<DriveFile>;
+    upload(content: Blob | string, metadata: DriveFileMetadata, fileId?: string, signal?: AbortSignal): Promise<DriveFile>;
+    createUploadSession(metadata: DriveFileMetadata, totalBytes: number, fileId?: string, signal?: AbortSignal): Promise<string>;
+    getUploadSessionStatus(sessionUri: string, totalBytes: number, signal?: AbortSignal): Promise<DriveUploadSessionStatus | null>;
+    uploadChunk(sessionUri: string, chunk: Blob, offset: number, totalBytes: number, signal?: AbortSignal): Promise<DriveUploadSessionStatus | null>;
     downloadJson<T>(fileId: string): Promise<T | null>;
-    downloadBlob(fileId: string): Promise<Blob | null>;
+    downloadBlob(fileId: string, options?: TransferOptions): Promise<Blob | null>;
     deleteFile(fileId: string): Promise<void>;
     getFile(fileId: string): Promise<DriveFile | null>;
+    getStartPageToken(): Promise<string>;
+    listChanges(pageToken: string, pageSize?: number): Promise<DriveChangeList>;
+    batch(requests: DriveBatchRequest[], signal?: AbortSignal): Promise<DriveBatchResponse[]>;
+    findFiles(queries: string[], signal?: AbortSignal): Promise<DriveBatchResult<DriveFile[]>[]>;
+    deleteFiles(fileIds: string[], signal?: AbortSignal): Promise<DriveBatchResult<void>[]>;
 }
 
 // --- Implementation ---
 
 const logger = createLogger('DriveAPI');
 
+const RATE_LIMIT_REASONS = ['userRateLimitExceeded', 'rateLimitExceeded'];
+const STORAGE_QUOTA_REASONS = ['storageQuotaExceeded'];
+const RETRYABLE_SERVER_STATUSES = [500, 502, 503, 504];
+
+const abortReason = (signal: AbortSignal): unknown =>
+    signal.reason ?? new DOMException('The transfer was cancelled.', 'AbortError');
+
+const wait = (delayMs: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortReason(signal));
+    const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(abortReason(signal!));
+    };
+    const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, delayMs);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) return undefined;
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const parseErrorReason = (body: string): string | undefined => {
+    try {
+        return JSON.parse(body)?.error?.errors?.[0]?.reason;
+    } catch {
+        return undefined;
+    }
+};
+
+const isRateLimitedStatus = (status: number, body: string): boolean => {
+    if (status === 429) return true;
+    if (status !== 403) return false;
+    const reason = parseErrorReason(body);
+    return reason !== undefined && RATE_LIMIT_REASONS.includes(reason);
+};
+
+const createDriveApiError = (status: number, body: string, retryAfterHeader: string | null, message: string): DriveApiError => {
+    const reason = parseErrorReason(body);
+    const details = { reason, retryAfterMs: parseRetryAfter(retryAfterHeader) };
+    if (reason && STORAGE_QUOTA_REASONS.includes(reason)) {
+        return new DriveApiError('Your Google Drive storage is full.', 'storage-quota', status, details);
+    }
+    const kind: DriveApiErrorKind = isRateLimitedStatus(status, body) ? 'rate-limit' : 'http';
+    return new DriveApiError(body ? `${message}: ${body}` : message, kind, status, details);
+};
+
+const toDriveApiError = async (response: Response, message: string): Promise<DriveApiError> => {
+    const body = await response.text().catch(() => '');
+    return createDriveApiError(response.status, body, response.headers.get('Retry-After'), message);
+};
+
+const parseBatchResponse = (text: string, boundary: string, requestCount: number): DriveBatchResponse[] => {
+    const responses: DriveBatchResponse[] = Array.from({ length: requestCount }, () => ({ status: 500, body: 'Drive returned no response for this request.' }));
+    for (const part of text.split(`--${boundary}`)) {
+        const index = part.match(/Content-ID:\s*<?response-item(\d+)>?/i)?.[1];
+        const statusMatch = part.match(/HTTP\/[\d.]+ (\d{3})/);
+        if (index === undefined || !statusMatch || Number(index) >= requestCount) continue;
+        const httpResponse = part.slice(statusMatch.index!);
+        const headerEnd = httpResponse.search(/\r?\n\r?\n/);
+        const body = headerEnd === -1 ? '' : httpResponse.slice(headerEnd).trim();
+        responses[Number(index)] = { status: Number(statusMatch[1]), body };
+    }
+    return responses;
+};
+
+const shouldRethrow = (error: unknown): boolean =>
+    error instanceof DriveApiError && (error.isTransient || error.requiresReauthentication || error.isStorageQuotaExceeded);
+
+class DriveRequestLimiter {
+    private readonly maxConcurrentRequests: number;
+    private activeRequests = 0;
+    private waiting: (() => void)[] = [];
+    private pausedUntil = 0;
+
+    constructor(maxConcurrentRequests: number) {
+        this.maxConcurrentRequests = maxConcurrentRequests;
+    }
+
+    async acquire(signal?: AbortSignal): Promise<void> {
+        while (true) {
+            const pause = this.pausedUntil - Date.now();
+            if (pause > 0) {
+                await wait(pause, signal);
+            } else if (this.activeRequests < this.maxConcurrentRequests) {
+                this.activeRequests++;
+                return;
+            } else {
+                await this.waitForSlot(signal);
+            }
+        }
+    }
+
+    release(): void {
+        this.activeRequests--;
+        this.waiting.shift()?.();
+    }
+
+    pauseFor(delayMs: number): void {
+        this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delayMs);
+    }
+
+    private waitForSlot(signal?: AbortSignal): Promise<void> {
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) return reject(abortReason(signal));
+            const onAbort = () => {
+                this.waiting = this.waiting.filter(waiter => waiter !== wake);
+                reject(abortReason(signal!));
+            };
+            const wake = () => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            };
+            this.waiting.push(wake);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+}
+
+const sharedRequestLimiter = new DriveRequestLimiter(4);
+
 export class GoogleDriveApiImpl implements GoogleDriveApi {
-    private readonly accessToken: string;
-    private readonly baseUrl = 'https://www.googleapis.com/drive/v3';
-    private readonly uploadBaseUrl = 'https://www.googleapis.com/upload/drive/v3';
+    private readonly tokens: DriveAccessTokenProvider;
+    private readonly baseUrl: string;
+    private readonly uploadBaseUrl: string;
+    private readonly batchUrl: string;
     private readonly apiTimeout = 15000;
+    private readonly uploadChunkTimeout = 120000;
+    private readonly maxRequestRetries = 4;
+    private readonly retryBaseDelay = 1000;
+    private readonly maxInlineRetryDelay = 60000;
+    private readonly limiter = sharedRequestLimiter;
 
-    constructor(token: string) {
-        this.accessToken = token;
+    constructor(tokens: DriveAccessTokenProvider, apiOrigin: string = 'https://www.googleapis.com') {
+        this.tokens = tokens;
+        this.baseUrl = `${apiOrigin}/drive/v3`;
+        this.uploadBaseUrl = `${apiOrigin}/upload/drive/v3`;
+        this.batchUrl = `${apiOrigin}/batch/drive/v3`;
     }
 
     private get headers() {
-        return { 'Authorization': `Bearer ${this.accessToken}` };
+        return { 'Authorization': `Bearer ${this.tokens.getAccessToken()}` };
     }
 
+    private parseFile = (file: DriveFileResource): DriveFile => ({
+        ...file,
+        size: file.size !== undefined ? Number(file.size) : undefined,
+    });
+
     private async fetchWithTimeout(url: RequestInfo, options: RequestInit, timeout?: number): Promise<Response> {
+        const response = await this.fetchWithRetries(url, options, timeout);
+        if (response.status !== 401) return response;
+        logger.warn('Google Drive rejected the access token.');
+        this.tokens.onAuthenticationFailed();
+        throw new DriveApiError('Google Drive needs you to sign in again.', 'auth', 401);
+    }
+
+    private async fetchWithRetries(url: RequestInfo, options: RequestInit, timeout?: number): Promise<Response> {
+        const signal = options.signal ?? undefined;
+        for (let attempt = 0; ; attempt++) {
+            await this.limiter.acquire(signal);
+            let response: Response;
+            try {
+                response = await this.fetchOnce(url, options, timeout);
+            } finally {
+                this.limiter.release();
+            }
+
+            const isRateLimited = isRateLimitedStatus(response.status, response.status === 403 ? await response.clone().text() : '');
+            if (!isRateLimited && !RETRYABLE_SERVER_STATUSES.includes(response.status)) return response;
+            const delay = parseRetryAfter(response.headers.get('Retry-After')) ?? this.getBackoffDelay(attempt);
+            if (isRateLimited) this.limiter.pauseFor(delay);
+            if (attempt >= this.maxRequestRetries || delay > this.maxInlineRetryDelay) return response;
+            logger.warn(`Google Drive responded with ${response.status}. Retrying in ${delay}ms.`);
+            await wait(delay, signal);
+        }
+    }
+
+    private getBackoffDelay(attempt: number): number {
+        return this.retryBaseDelay * 2 ** attempt + Math.round(Math.random() * this.retryBaseDelay);
+    }
+
+    private async fetchOnce(url: RequestInfo, options: RequestInit, timeout?: number): Promise<Response> {
         const controller = new AbortController();
+        const callerSignal = options.signal;
+        const forwardAbort = () => controller.abort(callerSignal?.reason);
+        callerSignal?.addEventListener('abort', forwardAbort, { once: true });
+        if (callerSignal?.aborted) controller.abort(callerSignal.reason);
         const finalTimeout = timeout || this.apiTimeout;
         const timeoutId = setTimeout(() => {
             const urlString = typeof url === 'string' ? url : (url as Request).url;
@@ -61,12 +344,19 @@ export class GoogleDriveApiImpl implements GoogleDriveApi {
             });
             return response;
         } catch (e: any) {
+            if (callerSignal?.aborted) {
+                throw abortReason(callerSignal);
+            }
             if (e.name === 'AbortError') {
-                throw new Error('The request to Google Drive timed out. This may be due to a network issue or a misconfigured service worker.');
+                throw new DriveApiError('The request to Google Drive timed out. This may be due to a network issue or a misconfigured service worker.', 'timeout');
+            }
+            if (e instanceof TypeError) {
+                throw new DriveApiError(`Network error while contacting Google Drive: ${e.message}`, 'network');
             }
             throw e;
         } finally {
             clearTimeout(timeoutId);
+            callerSignal?.removeEventListener('abort', forwardAbort);
         }
     }
 
@@ -78,7 +368,7 @@ export class GoogleDriveApiImpl implements GoogleDriveApi {
         do {
             const queryParams = new URLSearchParams({
                 spaces: 'appDataFolder',
-                fields: 'nextPageToken, files(id, name, modifiedTime, parents)',
+                fields: 'nextPageToken, files(id, name, modifiedTime, parents, size)',
                 q: query,
                 pageSize: String(pageSize),
             });
@@ -91,11 +381,11 @@ export class GoogleDriveApiImpl implements GoogleDriveApi {
                 headers: this.headers,
             });
 
-            if (!response.ok) throw new Error(`Failed to list files: ${await response.text()}`);
-            const data = await response.json();
+            if (!response.ok) throw await toDriveApiError(response, 'Failed to list files');
+            const data: DriveFileListResource = await response.json();
 
             if (data.files) {
-                allFiles = allFiles.concat(data.files);
+                allFiles = allFiles.concat(data.files.map(this.parseFile));
             }
             pageToken = data.nextPageToken;
 
@@ -124,13 +414,13 @@ export class GoogleDriveApiImpl implements GoogleDriveApi {
             headers: { ...this.headers, 'Content-Type': 'application/json' },
             body: JSON.stringify(metadata)
         });
-        if (!response.ok) throw new Error('Failed to create folder');
+        if (!response.ok) throw await toDriveApiError(response, 'Failed to create folder');
         const file = await response.json();
         logger.info(` > Created folder "${name}" with id ${file.id}.`);
         return file.id;
     }
     
-    async upload(content: Blob | string, metadata: DriveFileMetadata, fileId?: string): Promise<DriveFile> {
+    async upload(content: Blob | string, metadata: DriveFileMetadata, fileId?: string, signal?: AbortSignal): Promise<DriveFile> {
         const action = fileId ? 'Updating' : 'Uploading';
         logger.info(`${action} file: "${metadata.name}"`);
         const boundary = '-------314159265358979323846';
@@ -146,7 +436,7 @@ export class GoogleDriveApiImpl implements GoogleDriveApi {
         
         const queryParams = new URLSearchParams({
             uploadType: 'multipart',
-            fields: 'id,name,modifiedTime,parents'
+            fields: 'id,name,modifiedTime,parents,size'
         });
         
         const uploadUrl = fileId 
@@ -174,19 +464,91 @@ export class GoogleDriveApiImpl implements GoogleDriveApi {
         const response = await this.fetchWithTimeout(uploadUrl, {
             method: fileId ? 'PATCH' : 'POST',
             headers: { 'Content-Type': `multipart/related; boundary="${boundary}"`, ...this.headers },
-            body: body
+            body: body,
+            signal,
         });
         
         if (!response.ok) {
-            const errorText = await response.text();
-            logger.error(`Upload failed for "${metadata.name}" with status ${response.status}:`, errorText);
-            throw new Error(`Failed to upload file '${metadata.name}': ${errorText}`);
+            const error = await toDriveApiError(response, `Failed to upload file '${metadata.name}'`);
+            logger.error(`Upload failed for "${metadata.name}" with status ${response.status}:`, error.message);
+            throw error;
         }
-        const fileData = await response.json();
+        const fileData = this.parseFile(await response.json());
         logger.info(` > Successfully ${action.toLowerCase()}d file "${metadata.name}". New Drive ID: ${fileData.id}`);
         return fileData;
     }
     
+    async createUploadSession(metadata: DriveFileMetadata, totalBytes: number, fileId?: string, signal?: AbortSignal): Promise<string> {
+        logger.info(`Creating resumable upload session for "${metadata.name}" (${totalBytes} bytes).`);
+        const requestMetadata: DriveFileMetadata = { ...metadata };
+        if (fileId) {
+            delete requestMetadata.parents;
+        } else if (!requestMetadata.parents) {
+            requestMetadata.parents = ['appDataFolder'];
+        }
+        const queryParams = new URLSearchParams({
+            uploadType: 'resumable',
+            fields: 'id,name,modifiedTime,parents,size'
+        });
+        const sessionUrl = fileId
+            ? `${this.uploadBaseUrl}/files/${fileId}?${queryParams.toString()}`
+            : `${this.uploadBaseUrl}/files?${queryParams.toString()}`;
+
+        const response = await this.fetchWithTimeout(sessionUrl, {
+            method: fileId ? 'PATCH' : 'POST',
+            headers: {
+                ...this.headers,
+                'Content-Type': 'application/json; charset=UTF-8',
+                'X-Upload-Content-Type': metadata.mimeType,
+                'X-Upload-Content-Length': String(totalBytes),
+            },
+            body: JSON.stringify(requestMetadata),
+            signal,
+        });
+        if (!response.ok) {
+            throw await toDriveApiError(response, `Failed to start upload of '${metadata.name}'`);
+        }
+        const sessionUri = response.headers.get('Location');
+        if (!sessionUri) throw new DriveApiError(`Drive did not return an upload session for '${metadata.name}'.`, 'http', response.status);
+        return sessionUri;
+    }
+
+    async getUploadSessionStatus(sessionUri: string, totalBytes: number, signal?: AbortSignal): Promise<DriveUploadSessionStatus | null> {
+        const response = await this.fetchWithTimeout(sessionUri, {
+            method: 'PUT',
+            headers: { ...this.headers, 'Content-Range': `bytes */${totalBytes}` },
+            signal,
+        });
+        return this.parseUploadSessionResponse(response);
+    }
+
+    async uploadChunk(sessionUri: string, chunk: Blob, offset: number, totalBytes: number, signal?: AbortSignal): Promise<DriveUploadSessionStatus | null> {
+        logger.info(` > Uploading bytes ${offset}-${offset + chunk.size - 1} of ${totalBytes}.`);
+        const response = await this.fetchWithTimeout(sessionUri, {
+            method: 'PUT',
+            headers: { ...this.headers, 'Content-Range': `bytes ${offset}-${offset + chunk.size - 1}/${totalBytes}` },
+            body: chunk,
+            signal,
+        }, this.uploadChunkTimeout);
+        return this.parseUploadSessionResponse(response);
+    }
+
+    private async parseUploadSessionResponse(response: Response): Promise<DriveUploadSessionStatus | null> {
+        if (response.status === 308) {
+            const range = response.headers.get('Range')?.match(/bytes=0-(\d+)/);
+            return { uploadedBytes: range ? Number(range[1]) + 1 : 0 };
+        }
+        if (response.ok) {
+            return { file: this.parseFile(await response.json()) };
+        }
+        if (response.status === 404 || response.status === 410) {
+            return null;
+        }
+        const error = await toDriveApiError(response, 'Failed to upload file chunk');
+        logger.error(`Chunk upload failed with status ${response.status}:`, error.message);
+        throw error;
+    }
+    
     async downloadJson<T>(fileId: string): Promise<T | null> {
         logger.info(`Downloading JSON content for file: ${fileId}`);
         try {
@@ -196,33 +558,33 @@ export class GoogleDriveApiImpl implements GoogleDriveApi {
                     logger.warn(` > JSON file ${fileId} not found (404).`);
                     return null;
                  }
-                 throw new Error(`Failed to download JSON file ${fileId}`);
+                 throw await toDriveApiError(response, `Failed to download JSON file ${fileId}`);
             }
             return response.json();
         } catch (e) {
             logger.error(`Error downloading JSON file ${fileId}:`, e);
-            if (e instanceof Error && e.message.includes('timed out')) {
+            if (shouldRethrow(e)) {
                 throw e;
             }
             return null;
         }
     }
 
-    async downloadBlob(fileId: string): Promise<Blob | null> {
+    async downloadBlob(fileId: string, options: TransferOptions = {}): Promise<Blob | null> {
         logger.info(`Downloading blob content for file: ${fileId}`);
         try {
-            const response = await this.fetchWithTimeout(`${this.baseUrl}/files/${fileId}?alt=media`, { headers: this.headers });
+            const response = await this.fetchWithTimeout(`${this.baseUrl}/files/${fileId}?alt=media`, { headers: this.headers, signal: options.signal });
             if (!response.ok) {
                  if (response.status === 404) {
                     logger.warn(` > Blob file ${fileId} not found (404).`);
                     return null;
                  }
-                 throw new Error(`Failed to download blob file ${fileId}`);
+                 throw await toDriveApiError(response, `Failed to download blob file ${fileId}`);
             }
-            return response.blob();
+            return await readBlobWithProgress(response, options.onProgress, options.signal);
         } catch (e) {
             logger.error(`Error downloading blob file ${fileId}:`, e);
-            if (e instanceof Error && e.message.includes('timed out')) {
+            if (shouldRethrow(e) || isAbortError(e)) {
                 throw e;
             }
             return null;
@@ -236,7 +598,7 @@ export class GoogleDriveApiImpl implements GoogleDriveApi {
             headers: this.headers
         });
         if (!response.ok && response.status !== 404) {
-             throw new Error(`Failed to delete file ${fileId}`);
+             throw await toDriveApiError(response, `Failed to delete file ${fileId}`);
         }
         logger.info(` > Successfully deleted file ${fileId} (or it was already gone).`);
     }
@@ -244,7 +606,7 @@ export class GoogleDriveApiImpl implements GoogleDriveApi {
     async getFile(fileId: string): Promise<DriveFile | null> {
         logger.info(`Getting metadata for file: ${fileId}`);
         try {
-            const response = await this.fetchWithTimeout(`${this.baseUrl}/files/${fileId}?fields=id,name,modifiedTime,parents,trashed`, {
+            const response = await this.fetchWithTimeout(`${this.baseUrl}/files/${fileId}?fields=id,name,modifiedTime,parents,trashed,size`, {
                 headers: this.headers,
             });
             if (!response.ok) {
@@ -252,15 +614,125 @@ export class GoogleDriveApiImpl implements GoogleDriveApi {
                     logger.warn(` > Metadata for file ${fileId} not found (404).`);
                     return null;
                 }
-                throw new Error(`Failed to get file metadata: ${await response.text()}`);
+                throw await toDriveApiError(response, 'Failed to get file metadata');
             }
-            return await response.json();
+            return this.parseFile(await response.json());
         } catch (e) {
             logger.error(`Error getting file metadata for ${fileId}:`, e);
-            if (e instanceof Error && e.message.includes('timed out')) {
+            if (shouldRethrow(e)) {
                 throw e;
             }
             return null;
         }
     }
-}
\ No newline at end of file
+
+    async getStartPageToken(): Promise<string> {
+        logger.info('Getting start page token for the changes feed.');
+        const response = await this.fetchWithTimeout(`${this.baseUrl}/changes/startPageToken`, {
+            headers: this.headers,
+        });
+        if (!response.ok) throw await toDriveApiError(response, 'Failed to get start page token');
+        const data = await response.json();
+        return data.startPageToken;
+    }
+
+    async listChanges(pageToken: string, pageSize: number = 1000): Promise<DriveChangeList> {
+        logger.info(`Listing changes since page token: ${pageToken}`);
+        let allChanges: DriveChange[] = [];
+        let currentToken: string | undefined = pageToken;
+        let newStartPageToken: string | undefined = undefined;
+
+        while (currentToken) {
+            const queryParams = new URLSearchParams({
+                pageToken: currentToken,
+                spaces: 'appDataFolder',
+                fields: 'nextPageToken, newStartPageToken, changes(fileId, removed, file(id, name, modifiedTime, parents, trashed, size))',
+                pageSize: String(pageSize),
+            });
+
+            const response = await this.fetchWithTimeout(`${this.baseUrl}/changes?${queryParams.toString()}`, {
+                headers: this.headers,
+            });
+
+            if (!response.ok) throw await toDriveApiError(response, 'Failed to list changes');
+            const data: DriveChangeListResource = await response.json();
+
+            if (data.changes) {
+                allChanges = allChanges.concat(data.changes.map(change => ({
+                    ...change,
+                    file: change.file ? this.parseFile(change.file) : undefined,
+                })));
+            }
+            currentToken = data.nextPageToken;
+            newStartPageToken = data.newStartPageToken || newStartPageToken;
+        }
+        logger.info(` > Found ${allChanges.length} changes.`);
+        return { changes: allChanges, newStartPageToken: newStartPageToken || pageToken };
+    }
+
+    async findFiles(queries: string[], signal?: AbortSignal): Promise<DriveBatchResult<DriveFile[]>[]> {
+        logger.info(`Running ${queries.length} file queries in a batch.`);
+        const results: DriveBatchResult<DriveFile[]>[] = queries.map(() => ({ ok: true, value: [] }));
+        let pages: { queryIndex: number; pageToken?: string }[] = queries.map((_, queryIndex) => ({ queryIndex }));
+
+        while (pages.length > 0) {
+            const responses = await this.batch(pages.map(({ queryIndex, pageToken }) => {
+                const queryParams = new URLSearchParams({ spaces: 'appDataFolder', fields: 'nextPageToken, files(id, name, modifiedTime, parents, size)', q: queries[queryIndex], pageSize: '100' });
+                if (pageToken) queryParams.set('pageToken', pageToken);
+                return { method: 'GET', path: `/files?${queryParams.toString()}` };
+            }), signal);
+
+            const nextPages: { queryIndex: number; pageToken?: string }[] = [];
+            responses.forEach((response, index) => {
+                const { queryIndex } = pages[index];
+                if (response.status < 200 || response.status >= 300) {
+                    results[queryIndex] = { ok: false, error: createDriveApiError(response.status, response.body, null, `Failed to run query "${queries[queryIndex]}"`) };
+                    return;
+                }
+                const data: DriveFileListResource = JSON.parse(response.body);
+                const result = results[queryIndex];
+                if (result.ok) result.value.push(...(data.files || []).map(this.parseFile));
+                if (data.nextPageToken) nextPages.push({ queryIndex, pageToken: data.nextPageToken });
+            });
+            pages = nextPages;
+        }
+        return results;
+    }
+
+    async deleteFiles(fileIds: string[], signal?: AbortSignal): Promise<DriveBatchResult<void>[]> {
+        logger.info(`Deleting ${fileIds.length} files from Drive in a batch.`);
+        const responses = await this.batch(fileIds.map(fileId => ({ method: 'DELETE', path: `/files/${fileId}` })), signal);
+        return responses.map((response, index): DriveBatchResult<void> => {
+            if ((response.status >= 200 && response.status < 300) || response.status === 404) return { ok: true, value: undefined };
+            return { ok: false, error: createDriveApiError(response.status, response.body, null, `Failed to delete file ${fileIds[index]}`) };
+        });
+    }
+
+    async batch(requests: DriveBatchRequest[], signal?: AbortSignal): Promise<DriveBatchResponse[]> {
+        const boundary = `batch_${Date.now()}_${Math.random().toString(36).slice(2)}`;
+        const apiPath = new URL(this.baseUrl).pathname;
+        const parts = requests.map((request, index) => {
+            const lines = [
+                `--${boundary}`,
+                'Content-Type: application/http',
+                `Content-ID: <item${index}>`,
+                '',
+                `${request.method} ${apiPath}${request.path}`,
+            ];
+            if (request.body !== undefined) {
+                lines.push('Content-Type: application/json; charset=UTF-8', '', JSON.stringify(request.body));
+            }
+            return lines.join('\r\n') + '\r\n';
+        });
+        const response = await this.fetchWithTimeout(this.batchUrl, {
+            method: 'POST',
+            headers: { ...this.headers, 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+            body: `${parts.join('\r\n')}\r\n--${boundary}--`,
+            signal,
+        });
+        if (!response.ok) throw await toDriveApiError(response, 'Failed to send batch request');
+        const responseBoundary = response.headers.get('Content-Type')?.match(/boundary="?([^";]+)"?/)?.[1];
+        if (!responseBoundary) throw new DriveApiError('Drive returned a batch response without a boundary.', 'http', response.status);
+        return parseBatchResponse(await response.text(), responseBoundary, requests.length);
+    }
+}
@@ -1,5 +1,5 @@
 import { createLogger } from '../utils/logger';
-import type { DriveFile, GoogleDriveApi } from './GoogleDriveApi';
+import type { RemoteFile, RemoteStorageProvider } from './RemoteStorageProvider';
 
 const logger = createLogger('GoogleDriveSyncApi');
 
@@ -23,26 +23,28 @@ export interface SyncFileResult {
 export interface SyncDirectoryPlan {
     filesToUpload: { name: string; modifiedTime: string }[];
     filesToDownload: { name: string; id: string; modifiedTime: string }[];
-    filesToDelete: { id: string }[];
+    filesToDelete: { name: string; id: string }[];
+    filesDeletedRemotely: { name: string }[];
     filesInSync: { name: string }[];
+    filesInConflict: { name: string; id: string; localModifiedTime: string; remoteModifiedTime: string }[];
 }
 
 
 export interface GoogleDriveSyncApi {
-    syncFile(local: LocalFile, remoteFile: DriveFile | null, driveApi: GoogleDriveApi, parentFolderId: string): Promise<SyncFileResult>;
-    planDirectorySync(localFiles: { name: string; modifiedTime: string }[], remoteFiles: DriveFile[], tombstoneIds: string[]): SyncDirectoryPlan;
+    syncFile(local: LocalFile, remoteFile: RemoteFile | null, provider: RemoteStorageProvider, filePath: string): Promise<SyncFileResult>;
+    planDirectorySync(localFiles: { name: string; modifiedTime: string }[], remoteFiles: RemoteFile[], tombstoneIds: string[], baseVersions?: Map<string, string>): SyncDirectoryPlan;
 }
 
 // --- Implementation ---
 
 export class GoogleDriveSyncApiImpl implements GoogleDriveSyncApi {
     
-    public async syncFile(local: LocalFile, remoteFile: DriveFile | null, driveApi: GoogleDriveApi, parentFolderId: string): Promise<SyncFileResult> {
+    public async syncFile(local: LocalFile, remoteFile: RemoteFile | null, provider: RemoteStorageProvider, filePath: string): Promise<SyncFileResult> {
         const localTimestamp = new Date(local.modifiedTime).getTime();
 
         if (!remoteFile) {
             logger.info(`[syncFile:${local.name}] Remote does not exist. Uploading.`);
-            const uploadedFile = await driveApi.upload(local.content, { name: local.name, mimeType: local.content.type, parents: [parentFolderId] });
+            const uploadedFile = await provider.writeFile(filePath, local.content, local.content.type);
             return { outcome: 'uploaded', newTimestamp: uploadedFile.modifiedTime };
         }
 
@@ -55,14 +57,14 @@ export class GoogleDriveSyncApiImpl implements GoogleDriveSyncApi {
 
         if (timeDiff < -1000) { // Remote is significantly newer
             logger.info(`[syncFile:${local.name}] Remote is newer. Downloading.`);
-            const downloadedContent = await driveApi.downloadBlob(remoteFile.id);
+            const downloadedContent = await provider.readBinaryFileById(remoteFile.id);
             if (!downloadedContent) {
                 return { outcome: 'error', errorMessage: 'Failed to download remote file content.' };
             }
             return { outcome: 'downloaded', downloadedContent, newTimestamp: remoteFile.modifiedTime };
         } else if (timeDiff > 1000) { // Local is significantly newer
             logger.info(`[syncFile:${local.name}] Local is newer. Uploading.`);
-            const updatedFile = await driveApi.upload(local.content, { name: local.name, mimeType: local.content.type }, remoteFile.id);
+            const updatedFile = await provider.writeFile(filePath, local.content, local.content.type);
             return { outcome: 'uploaded', newTimestamp: updatedFile.modifiedTime };
         } else {
             logger.info(`[syncFile:${local.name}] Timestamps match. In sync.`);
@@ -72,15 +74,18 @@ export class GoogleDriveSyncApiImpl implements GoogleDriveSyncApi {
     
     public planDirectorySync(
         localFiles: { name: string; modifiedTime: string }[],
-        remoteFiles: DriveFile[],
-        tombstoneIds: string[]
+        remoteFiles: RemoteFile[],
+        tombstoneIds: string[],
+        baseVersions: Map<string, string> = new Map()
     ): SyncDirectoryPlan {
         logger.info(`[planDirectorySync] Planning sync for ${localFiles.length} local files, ${remoteFiles.length} remote files, and ${tombstoneIds.length} tombstones.`);
         const plan: SyncDirectoryPlan = {
             filesToUpload: [],
             filesToDownload: [],
             filesToDelete: [],
+            filesDeletedRemotely: [],
             filesInSync: [],
+            filesInConflict: [],
         };
         
         const localFileMap = new Map(localFiles.map(f => [f.name, f]));
@@ -92,7 +97,7 @@ export class GoogleDriveSyncApiImpl implements GoogleDriveSyncApi {
              if (tombstoneSet.has(remoteFile.id)) {
                 // FIX: Replaced non-existent 'logger.debug' with 'logger.info'.
                 logger.info(`[planDirectorySync] Remote file ${remoteFile.name} (id: ${remoteFile.id}) is in tombstone list. Planning deletion.`);
-                plan.filesToDelete.push({ id: remoteFile.id });
+                plan.filesToDelete.push({ name: remoteFile.name, id: remoteFile.id });
                 continue;
             }
             
@@ -107,7 +112,18 @@ export class GoogleDriveSyncApiImpl implements GoogleDriveSyncApi {
         // Process local files
         for (const localFile of localFiles) {
             const remoteFile = remoteFileMap.get(localFile.name);
-            if (!remoteFile) {
+            const baseModifiedTime = baseVersions.get(localFile.name);
+            if (!remoteFile && baseModifiedTime) {
+                // A file that was synced before and is gone now was deleted by another device.
+                // A local edit made since then wins over the deletion and is uploaded again.
+                const localChanged = Math.abs(new Date(localFile.modifiedTime).getTime() - new Date(baseModifiedTime).getTime()) > 1000;
+                logger.info(`[planDirectorySync] Synced file ${localFile.name} was deleted remotely. Local changed: ${localChanged}`);
+                if (localChanged) {
+                    plan.filesToUpload.push({ name: localFile.name, modifiedTime: localFile.modifiedTime });
+                } else {
+                    plan.filesDeletedRemotely.push({ name: localFile.name });
+                }
+            } else if (!remoteFile) {
                 // FIX: Replaced non-existent 'logger.debug' with 'logger.info'.
                 logger.info(`[planDirectorySync] Local file ${localFile.name} not found remotely. Planning upload.`);
                 plan.filesToUpload.push({ name: localFile.name, modifiedTime: localFile.modifiedTime });
@@ -117,6 +133,29 @@ export class GoogleDriveSyncApiImpl implements GoogleDriveSyncApi {
                 const remoteTimestamp = new Date(remoteFile.modifiedTime).getTime();
                 const timeDiff = localTimestamp - remoteTimestamp;
 
+                if (baseModifiedTime) {
+                    // With a known base version, each side is compared against it instead of against each other.
+                    const baseTimestamp = new Date(baseModifiedTime).getTime();
+                    const localChanged = Math.abs(localTimestamp - baseTimestamp) > 1000;
+                    const remoteChanged = Math.abs(remoteTimestamp - baseTimestamp) > 1000;
+                    logger.info(`[planDirectorySync] Comparing ${localFile.name} against base ${baseTimestamp} -> Local changed: ${localChanged}, Remote changed: ${remoteChanged}`);
+
+                    if (localChanged && remoteChanged) {
+                        logger.info(`[planDirectorySync] -> Both sides changed. Planning conflict.`);
+                        plan.filesInConflict.push({ name: localFile.name, id: remoteFile.id, localModifiedTime: localFile.modifiedTime, remoteModifiedTime: remoteFile.modifiedTime });
+                    } else if (localChanged) {
+                        logger.info(`[planDirectorySync] -> Local changed. Planning upload.`);
+                        plan.filesToUpload.push({ name: localFile.name, modifiedTime: localFile.modifiedTime });
+                    } else if (remoteChanged) {
+                        logger.info(`[planDirectorySync] -> Remote changed. Planning download.`);
+                        plan.filesToDownload.push({ name: remoteFile.name, id: remoteFile.id, modifiedTime: remoteFile.modifiedTime });
+                    } else {
+                        logger.info(`[planDirectorySync] -> In sync.`);
+                        plan.filesInSync.push({ name: localFile.name });
+                    }
+                    continue;
+                }
+
                 // FIX: Replaced non-existent 'logger.debug' with 'logger.info'.
                 logger.info(`[planDirectorySync] Comparing ${localFile.name} -> Local: ${localTimestamp}, Remote: ${remoteTimestamp}`);
 
@@ -135,7 +174,7 @@ export class GoogleDriveSyncApiImpl implements GoogleDriveSyncApi {
                 }
             }
         }
-        logger.info(`[planDirectorySync] Plan complete: ${plan.filesToUpload.length} uploads, ${plan.filesToDownload.length} downloads, ${plan.filesToDelete.length} deletions.`);
+        logger.info(`[planDirectorySync] Plan complete: ${plan.filesToUpload.length} uploads, ${plan.filesToDownload.length} downloads, ${plan.filesToDelete.length} deletions, ${plan.filesDeletedRemotely.length} remote deletions, ${plan.filesInConflict.length} conflicts.`);
         return plan;
     }
 }
@@ -12,6 +12,7 @@ export interface UserProfile {
 
 export interface TokenResponse {
   access_token: string;
+  expires_in?: number | string; // Lifetime of the token in seconds
   error?: string;
   error_description?: string;
 }
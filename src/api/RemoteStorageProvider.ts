@@ -0,0 +1,60 @@
+// --- Types and Interface ---
+
+export interface RemoteFile {
+    id: string;
+    name: string;
+    modifiedTime: string;
+    version?: string;
+    size?: number;
+}
+
+export interface RemoteFolderChanges {
+    changedFiles: RemoteFile[];
+    removedFileIds: string[];
+    newStartPageToken: string;
+}
+
+export interface TransferOptions {
+    onProgress?: (transferredBytes: number, totalBytes: number) => void;
+    signal?: AbortSignal;
+}
+
+export interface RemoteFileWrite {
+    filePath: string;
+    content: string | Blob;
+    mimeType: string;
+}
+
+export type RemoteBatchResult<T> = { ok: true; value: T } | { ok: false; error: unknown };
+
+export type RemoteAvailabilityListener = (isAvailable: boolean) => void;
+
+export interface RemoteStorageProvider {
+    readonly name: string;
+    isAvailable(): boolean;
+    onAvailabilityChanged(listener: RemoteAvailabilityListener): () => void;
+
+    listFiles(folderPath: string): Promise<RemoteFile[]>;
+    getFile(filePath: string): Promise<RemoteFile | null>;
+    readJsonFile<T>(filePath: string): Promise<T | null>;
+    readJsonFileWithMetadata<T>(filePath: string): Promise<{ content: T, metadata: RemoteFile } | null>;
+    readJsonFileWithMetadataById<T>(fileId: string): Promise<{ content: T, metadata: RemoteFile } | null>;
+    readJsonFileById<T>(fileId: string): Promise<T | null>;
+    readBinaryFile(filePath: string): Promise<Blob | null>;
+    readBinaryFileById(fileId: string, options?: TransferOptions): Promise<Blob | null>;
+    writeFile(filePath: string, content: string | Blob, mimeType: string, options?: TransferOptions): Promise<RemoteFile>;
+    deleteFile(filePath: string): Promise<void>;
+    deleteFileById(fileId: string): Promise<void>;
+
+    getChangesStartPageToken?(): Promise<string>;
+    listFolderChanges?(folderPath: string, pageToken: string): Promise<RemoteFolderChanges>;
+
+    writeFiles?(files: RemoteFileWrite[], signal?: AbortSignal): Promise<RemoteBatchResult<RemoteFile>[]>;
+    deleteFiles?(filePaths: string[], signal?: AbortSignal): Promise<RemoteBatchResult<void>[]>;
+    deleteFilesById?(fileIds: string[], signal?: AbortSignal): Promise<RemoteBatchResult<void>[]>;
+}
+
+// --- Implementation ---
+
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
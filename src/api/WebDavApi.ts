@@ -0,0 +1,223 @@
+import { createLogger } from '../utils/logger';
+import { readBlobWithProgress } from '../utils/transfer';
+import type { TransferOptions } from './RemoteStorageProvider';
+
+// --- Types and Interface ---
+
+export interface WebDavResource {
+    path: string;
+    name: string;
+    lastModified: string;
+    etag: string | null;
+    size: number | null;
+    isCollection: boolean;
+}
+
+export type WebDavApiErrorKind = 'timeout' | 'network' | 'http';
+
+export class WebDavApiError extends Error {
+    readonly kind: WebDavApiErrorKind;
+    readonly status?: number;
+
+    constructor(message: string, kind: WebDavApiErrorKind, status?: number) {
+        super(message);
+        this.name = 'WebDavApiError';
+        this.kind = kind;
+        this.status = status;
+    }
+
+    get isTransient(): boolean {
+        if (this.kind !== 'http') return true;
+        return this.status === 408 || this.status === 429 || (this.status !== undefined && this.status >= 500);
+    }
+}
+
+export interface WebDavApi {
+    list(folderPath: string): Promise<WebDavResource[]>;
+    stat(path: string): Promise<WebDavResource | null>;
+    createFolder(folderPath: string): Promise<void>;
+    upload(path: string, content: Blob | string, mimeType: string, signal?: AbortSignal): Promise<WebDavResource>;
+    downloadJson<T>(path: string): Promise<T | null>;
+    downloadBlob(path: string, options?: TransferOptions): Promise<Blob | null>;
+    deleteResource(path: string): Promise<void>;
+}
+
+// --- Implementation ---
+
+const logger = createLogger('WebDavAPI');
+
+const PROPFIND_BODY = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind xmlns:d="DAV:">
+  <d:prop>
+    <d:getlastmodified/>
+    <d:getetag/>
+    <d:getcontentlength/>
+    <d:resourcetype/>
+  </d:prop>
+</d:propfind>`;
+
+export const toBasicAuthorization = (username: string, password: string): string => {
+    const credentials = new TextEncoder().encode(`${username}:${password}`);
+    return `Basic ${btoa(String.fromCharCode(...credentials))}`;
+};
+
+export class WebDavApiImpl implements WebDavApi {
+    private readonly baseUrl: string;
+    private readonly basePath: string;
+    private readonly authorization: string;
+    private readonly apiTimeout = 15000;
+
+    constructor(serverUrl: string, authorization: string) {
+        this.baseUrl = serverUrl.replace(/\/+$/, '');
+        this.basePath = decodeURIComponent(new URL(this.baseUrl).pathname).replace(/\/+$/, '');
+        this.authorization = authorization;
+    }
+
+    private get headers() {
+        return { 'Authorization': this.authorization };
+    }
+
+    private toUrl(path: string): string {
+        const segments = path.split('/').filter(s => s).map(encodeURIComponent);
+        return `${this.baseUrl}/${segments.join('/')}`;
+    }
+
+    private async fetchWithTimeout(url: string, options: RequestInit, timeout?: number): Promise<Response> {
+        const controller = new AbortController();
+        const callerSignal = options.signal;
+        const forwardAbort = () => controller.abort(callerSignal?.reason);
+        callerSignal?.addEventListener('abort', forwardAbort, { once: true });
+        if (callerSignal?.aborted) controller.abort(callerSignal.reason);
+        const finalTimeout = timeout || this.apiTimeout;
+        const timeoutId = setTimeout(() => {
+            logger.warn(`Request to ${url} timed out after ${finalTimeout}ms.`);
+            controller.abort();
+        }, finalTimeout);
+
+        try {
+            return await fetch(url, {
+                cache: 'no-cache',
+                ...options,
+                headers: { ...this.headers, ...options.headers },
+                signal: controller.signal,
+            });
+        } catch (e: any) {
+            if (callerSignal?.aborted) {
+                throw callerSignal.reason ?? new DOMException('The transfer was cancelled.', 'AbortError');
+            }
+            if (e.name === 'AbortError') {
+                throw new WebDavApiError('The request to the WebDAV server timed out.', 'timeout');
+            }
+            if (e instanceof TypeError) {
+                throw new WebDavApiError(`Network error while contacting the WebDAV server: ${e.message}`, 'network');
+            }
+            throw e;
+        } finally {
+            clearTimeout(timeoutId);
+            callerSignal?.removeEventListener('abort', forwardAbort);
+        }
+    }
+
+    private async propfind(path: string, depth: '0' | '1'): Promise<WebDavResource[] | null> {
+        const response = await this.fetchWithTimeout(this.toUrl(path), {
+            method: 'PROPFIND',
+            headers: { 'Depth': depth, 'Content-Type': 'application/xml; charset=utf-8' },
+            body: PROPFIND_BODY,
+        });
+        if (response.status === 404) return null;
+        if (!response.ok) throw new WebDavApiError(`PROPFIND ${path} failed: ${response.statusText}`, 'http', response.status);
+        return this.parseMultistatus(await response.text());
+    }
+
+    private parseMultistatus(xml: string): WebDavResource[] {
+        const doc = new DOMParser().parseFromString(xml, 'application/xml');
+        const responses = Array.from(doc.getElementsByTagNameNS('DAV:', 'response'));
+        return responses.map(response => {
+            const href = response.getElementsByTagNameNS('DAV:', 'href')[0]?.textContent || '';
+            const hrefPath = decodeURIComponent(href.startsWith('http') ? new URL(href).pathname : href);
+            const path = (hrefPath.startsWith(this.basePath) ? hrefPath.slice(this.basePath.length) : hrefPath).replace(/\/+$/, '') || '/';
+            const lastModified = response.getElementsByTagNameNS('DAV:', 'getlastmodified')[0]?.textContent;
+            const etag = response.getElementsByTagNameNS('DAV:', 'getetag')[0]?.textContent || null;
+            const contentLength = response.getElementsByTagNameNS('DAV:', 'getcontentlength')[0]?.textContent;
+            const isCollection = response.getElementsByTagNameNS('DAV:', 'collection').length > 0;
+            return {
+                path,
+                name: path.split('/').pop() || '',
+                lastModified: new Date(lastModified || 0).toISOString(),
+                etag,
+                size: contentLength ? Number(contentLength) : null,
+                isCollection,
+            };
+        });
+    }
+
+    async list(folderPath: string): Promise<WebDavResource[]> {
+        logger.info(`Listing folder: "${folderPath}"`);
+        const resources = await this.propfind(folderPath, '1');
+        if (!resources) return [];
+        const normalizedFolder = folderPath.replace(/\/+$/, '') || '/';
+        const children = resources.filter(r => r.path !== normalizedFolder && !r.isCollection);
+        logger.info(` > Found ${children.length} files in "${folderPath}".`);
+        return children;
+    }
+
+    async stat(path: string): Promise<WebDavResource | null> {
+        const resources = await this.propfind(path, '0');
+        return resources?.[0] ?? null;
+    }
+
+    async createFolder(folderPath: string): Promise<void> {
+        logger.info(`Creating folder: "${folderPath}"`);
+        const response = await this.fetchWithTimeout(this.toUrl(folderPath), { method: 'MKCOL' });
+        if (!response.ok && response.status !== 405) {
+            throw new WebDavApiError(`Failed to create folder ${folderPath}`, 'http', response.status);
+        }
+    }
+
+    async upload(path: string, content: Blob | string, mimeType: string, signal?: AbortSignal): Promise<WebDavResource> {
+        logger.info(`Uploading file: "${path}"`);
+        const response = await this.fetchWithTimeout(this.toUrl(path), {
+            method: 'PUT',
+            headers: { 'Content-Type': mimeType },
+            body: content,
+            signal,
+        }, content instanceof Blob && content.size > 10 * 1024 * 1024 ? 5 * 60 * 1000 : undefined);
+        if (!response.ok) {
+            throw new WebDavApiError(`Failed to upload file '${path}': ${response.statusText}`, 'http', response.status);
+        }
+        const resource = await this.stat(path);
+        if (!resource) throw new WebDavApiError(`Uploaded file '${path}' could not be found.`, 'http', 404);
+        logger.info(` > Successfully uploaded "${path}".`);
+        return resource;
+    }
+
+    async downloadJson<T>(path: string): Promise<T | null> {
+        logger.info(`Downloading JSON content for file: ${path}`);
+        const response = await this.fetchWithTimeout(this.toUrl(path), { method: 'GET' });
+        if (response.status === 404) {
+            logger.warn(` > JSON file ${path} not found (404).`);
+            return null;
+        }
+        if (!response.ok) throw new WebDavApiError(`Failed to download JSON file ${path}`, 'http', response.status);
+        return response.json();
+    }
+
+    async downloadBlob(path: string, options: TransferOptions = {}): Promise<Blob | null> {
+        logger.info(`Downloading blob content for file: ${path}`);
+        const response = await this.fetchWithTimeout(this.toUrl(path), { method: 'GET', signal: options.signal }, 5 * 60 * 1000);
+        if (response.status === 404) {
+            logger.warn(` > Blob file ${path} not found (404).`);
+            return null;
+        }
+        if (!response.ok) throw new WebDavApiError(`Failed to download blob file ${path}`, 'http', response.status);
+        return readBlobWithProgress(response, options.onProgress, options.signal);
+    }
+
+    async deleteResource(path: string): Promise<void> {
+        logger.info(`Deleting file: ${path}`);
+        const response = await this.fetchWithTimeout(this.toUrl(path), { method: 'DELETE' });
+        if (!response.ok && response.status !== 404) {
+            throw new WebDavApiError(`Failed to delete file ${path}`, 'http', response.status);
+        }
+    }
+}
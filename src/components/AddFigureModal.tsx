@@ -59,7 +59,7 @@ const AddFigureModal: React.FC = () => {
     const navigate = useNavigate();
     const { isMobile } = useOutletContext<GalleryContext>();
     const { t } = useTranslation();
-    const { isSignedIn } = useGoogleDrive();
+    const { isSyncAvailable } = useGoogleDrive();
     const [error, setError] = useState<string | null>(null);
     const [lessons, setLessons] = useState<Lesson[]>([]);
     const [thumbnailUrls, setThumbnailUrls] = useState<Map<string, string>>(new Map());
@@ -81,8 +81,8 @@ const AddFigureModal: React.FC = () => {
     
     const handleNext = () => {
         if (selectedLessonId) {
-            // If signed in, we want to treat this as a blocking operation on the next screen.
-            const forceCreateParam = isSignedIn ? '&forceCreate=true' : '';
+            // If syncing, we want to treat this as a blocking operation on the next screen.
+            const forceCreateParam = isSyncAvailable ? '&forceCreate=true' : '';
             navigate(`/figures/create?lessonId=${selectedLessonId}${forceCreateParam}`);
         }
     };
@@ -0,0 +1,55 @@
+import React from 'react';
+import { useTranslation } from '../contexts/I18nContext';
+import type { VideoDownloadState } from '../services/VideoDownloadService';
+
+interface CloudVideoStatusProps {
+  isCloudOnly: boolean;
+  isPinned: boolean;
+  downloadState: VideoDownloadState | null;
+}
+
+// Overlays a card's preview with the offline state of its video.
+const CloudVideoStatus: React.FC<CloudVideoStatusProps> = ({ isCloudOnly, isPinned, downloadState }) => {
+  const { t } = useTranslation();
+
+  if (downloadState?.status === 'downloading') {
+    const percent = downloadState.totalBytes ? Math.floor((downloadState.transferredBytes ?? 0) / downloadState.totalBytes * 100) : null;
+    return (
+      <div
+        data-component="video-download-progress"
+        className="absolute inset-0 flex flex-col items-center justify-center bg-gray-900/70 text-white pointer-events-none"
+      >
+        <i className="material-icons text-4xl animate-spin-reverse">sync</i>
+        <p className="mt-2 text-xs font-medium">
+          {percent !== null ? t('card.downloadingVideoPercent', { percent }) : t('card.downloadingVideo')}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {isCloudOnly && (
+        <span
+          data-component="cloud-only-badge"
+          title={downloadState?.error ? t('card.videoDownloadFailed', { error: downloadState.error }) : t('card.cloudOnlyHint')}
+          className={`absolute top-2 left-2 flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium text-white pointer-events-none ${downloadState?.error ? 'bg-red-600/80' : 'bg-black/60'}`}
+        >
+          <i className="material-icons text-sm">{downloadState?.error ? 'cloud_off' : 'cloud'}</i>
+          {t('card.cloudOnly')}
+        </span>
+      )}
+      {isPinned && (
+        <span
+          data-component="pinned-offline-badge"
+          title={t('card.pinnedOffline')}
+          className="absolute top-2 right-2 flex items-center justify-center w-6 h-6 rounded-full bg-black/60 text-white pointer-events-none"
+        >
+          <i className="material-icons text-sm">offline_pin</i>
+        </span>
+      )}
+    </>
+  );
+};
+
+export default CloudVideoStatus;
@@ -0,0 +1,69 @@
+import React from 'react';
+import { useTranslation } from '../contexts/I18nContext';
+
+interface ConfirmStorageSwitchModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: () => void;
+  previousName: string;
+  nextName: string;
+}
+
+const ConfirmStorageSwitchModal: React.FC<ConfirmStorageSwitchModalProps> = ({
+  isOpen,
+  onClose,
+  onConfirm,
+  previousName,
+  nextName,
+}) => {
+  const { t } = useTranslation();
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-70 z-[60] flex justify-center items-center p-4"
+      onClick={onClose}
+      role="dialog"
+      data-modal-name="ConfirmStorageSwitchModal"
+      aria-modal="true"
+      aria-labelledby="confirm-storage-switch-title"
+    >
+      <div
+        className="bg-white rounded-lg shadow-xl w-full max-w-md flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-6 text-center">
+          <div className="mx-auto flex items-center justify-center h-12 w-12 rounded-full bg-amber-100">
+             <i className="material-icons text-amber-600 text-3xl" aria-hidden="true">sync_alt</i>
+          </div>
+          <h3 id="confirm-storage-switch-title" className="mt-5 text-lg font-medium leading-6 text-gray-900">
+            {t('settings.remoteStorageSwitchTitle', { name: nextName })}
+          </h3>
+          <p className="mt-2 text-sm text-gray-600">
+            {t('settings.remoteStorageSwitchBody', { previous: previousName, name: nextName })}
+          </p>
+        </div>
+        <div className="px-6 py-4 bg-gray-50 rounded-b-lg flex flex-col-reverse sm:flex-row sm:justify-end sm:space-x-3 space-y-2 space-y-reverse sm:space-y-0">
+           <button
+            type="button"
+            onClick={onClose}
+            data-action="cancel-storage-switch"
+            className="w-full sm:w-auto inline-flex justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-base font-medium text-gray-700 shadow-sm hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            {t('common.cancel')}
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            data-action="confirm-storage-switch"
+            className="w-full sm:w-auto inline-flex justify-center rounded-md border border-transparent bg-blue-600 px-4 py-2 text-base font-medium text-white shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            {t('settings.remoteStorageSwitch')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConfirmStorageSwitchModal;
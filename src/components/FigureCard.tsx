@@ -12,6 +12,9 @@ import { useMediaQuery } from '../hooks/useMediaQuery';
 import { useSettings } from '../contexts/SettingsContext';
 import { itemManagementService } from '../services/ItemManagementService';
 import { useVideoPlayback } from '../hooks/useVideoPlayback';
+import { useVideoDownload } from '../hooks/useVideoDownload';
+import CloudVideoStatus from './CloudVideoStatus';
+import { videoEvictionService } from '../services/VideoEvictionService';
 
 interface FigureCardProps {
   figure: Figure;
@@ -45,6 +48,9 @@ const FigureCard: React.FC<FigureCardProps> = ({ figure, parentLesson, thumbnail
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  // Figures share their parent lesson's video, which may not be on this device yet.
+  const isCloudOnly = !videoUrl && !!parentLesson?.videoDriveId;
+  const { downloadState, isDownloading, downloadVideo, isPinned, togglePinned } = useVideoDownload(parentLesson);
   const shouldPlay = ((settings.autoplayGalleryVideos && isVisible) || isHovering) && !!videoUrl && !!parentLesson;
   useVideoPlayback({ videoRef, item: figure, shouldPlay, onVideoVisibilityChange: setIsVideoVisible });
 
@@ -57,10 +63,15 @@ const FigureCard: React.FC<FigureCardProps> = ({ figure, parentLesson, thumbnail
   const handleMouseLeave = () => setIsHovering(false);
   
   const handleOpen = () => {
+    if (isCloudOnly) {
+      if (!isDownloading) downloadVideo();
+      return;
+    }
     if (!videoUrl) {
       console.warn("Attempted to open figure with no video URL.");
       return;
     }
+    videoEvictionService.recordWatched(figure.lessonId);
     playInFullscreen({
         item: figure,
         videoUrl,
@@ -131,6 +142,7 @@ const FigureCard: React.FC<FigureCardProps> = ({ figure, parentLesson, thumbnail
     { label: t('common.school'), icon: 'school', submenu: schoolSubMenu },
     { label: t('common.instructor'), icon: 'person', submenu: instructorSubMenu },
     { label: t('common.edit'), onClick: handleEdit, icon: 'edit' },
+    ...(parentLesson?.videoDriveId ? [{ label: t('card.keepOffline'), onClick: togglePinned, icon: 'offline_pin', isChecked: isPinned }] : []),
     { label: t('common.remove'), onClick: handleRequestRemove, isDestructive: true, icon: 'delete' },
   ];
   
@@ -185,6 +197,7 @@ const FigureCard: React.FC<FigureCardProps> = ({ figure, parentLesson, thumbnail
                   </div>
                 )}
             </div>
+            <CloudVideoStatus isCloudOnly={isCloudOnly} isPinned={isPinned} downloadState={downloadState} />
           </div>
           <div className="p-4 flex items-center justify-center">
             <h3 className="text-lg font-medium text-gray-800 text-center" title={figure.name}>{figure.name}</h3>
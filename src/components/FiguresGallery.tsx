@@ -1,4 +1,4 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Outlet, useLocation, useNavigate } from 'react-router-dom';
 import type { Figure, Lesson, FigureSortOrder, FigureCategory, School, Instructor } from '../types';
 import FigureCard from './FigureCard';
@@ -11,6 +11,8 @@ import GalleryActionBar from './GalleryActionBar';
 import { GroupingOption } from './GroupingControl';
 import { useSettings } from '../contexts/SettingsContext';
 import { useGalleryProcessor } from '../hooks/useGalleryProcessor';
+import ConfirmDeleteModal from './ConfirmDeleteModal';
+import { itemManagementService } from '../services/ItemManagementService';
 
 const UNCATEGORIZED_ID = '__uncategorized__';
 const UNASSIGNED_ID = '__unassigned__';
@@ -50,6 +52,62 @@ const CategoryHeader: React.FC<{ name: string; isExpanded: boolean; onToggle: ()
     );
 };
 
+// A figure that synced before its lesson cannot be played yet, so it gets no card actions until the lesson arrives.
+// It can still be removed, as its lesson may have been deleted on the device that created it.
+const AwaitingLessonCard: React.FC<{ figure: Figure; thumbnailUrl: string | null; }> = ({ figure, thumbnailUrl }) => {
+    const { t } = useTranslation();
+    const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+    const [isDeleting, setIsDeleting] = useState(false);
+
+    const handleConfirmDelete = async () => {
+        setIsDeleting(true);
+        try {
+            await itemManagementService.deleteItem('figure', figure.id);
+            setShowDeleteConfirm(false);
+        } catch (err) {
+            console.error("Failed to delete figure:", err);
+        } finally {
+            setIsDeleting(false);
+        }
+    };
+
+    return (
+        <>
+            <div data-component="figure-awaiting-lesson" data-item-id={figure.id} className="bg-white rounded-lg shadow-md overflow-hidden opacity-75">
+                <div className="aspect-[9/16] bg-gray-900 relative text-white">
+                    <div className="absolute inset-0 bg-cover bg-center" style={{ backgroundImage: thumbnailUrl ? `url(${thumbnailUrl})` : 'none' }}></div>
+                    <div className="absolute inset-0 flex flex-col items-center justify-center text-center p-2 bg-gray-900/60">
+                        <i className="material-icons text-5xl text-gray-300">hourglass_empty</i>
+                        <p className="mt-2 text-xs text-gray-200">{t('gallery.awaitingLesson')}</p>
+                    </div>
+                </div>
+                <div className="p-4 flex items-center justify-between gap-2">
+                    <h3 className="text-lg font-medium text-gray-800 truncate" title={figure.name}>{figure.name}</h3>
+                    <button
+                        data-action="remove-figure"
+                        onClick={() => setShowDeleteConfirm(true)}
+                        className="flex-shrink-0 p-1 text-gray-500 hover:text-red-600 rounded-full"
+                        aria-label={t('common.remove')}
+                        title={t('common.remove')}
+                    >
+                        <i className="material-icons">delete</i>
+                    </button>
+                </div>
+            </div>
+            <ConfirmDeleteModal
+                isOpen={showDeleteConfirm}
+                onClose={() => setShowDeleteConfirm(false)}
+                onConfirm={handleConfirmDelete}
+                isDeleting={isDeleting}
+                title={t('deleteModal.titleFigure')}
+            >
+                <p>{t('deleteModal.bodyFigure')}</p>
+                <p className="mt-2 font-semibold">{t('deleteModal.warning')}</p>
+            </ConfirmDeleteModal>
+        </>
+    );
+};
+
 const FigureGrid: React.FC<{
     figures: Figure[];
     lessonsMap: Map<string, Lesson>;
@@ -187,9 +245,22 @@ const FiguresGallery: React.FC = () => {
       );
     }
     
+    const figuresAwaitingLesson = galleryData.figuresAwaitingLesson ?? [];
+    const awaitingLessonSection = figuresAwaitingLesson.length > 0 && (
+      <div data-component="figures-awaiting-lesson" className="pt-2 pb-6">
+        <h2 className="text-sm font-semibold text-gray-500 mb-2">{t('gallery.awaitingLessonTitle')}</h2>
+        <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-[repeat(auto-fill,minmax(12rem,1fr))] gap-6">
+          {figuresAwaitingLesson.map(figure => (
+            <AwaitingLessonCard key={figure.id} figure={figure} thumbnailUrl={galleryData.thumbnailUrls.get(figure.id) || null} />
+          ))}
+        </div>
+      </div>
+    );
+
     if (settings.figureGrouping === 'none') {
       return (
         <div className="pt-2 pb-6">
+          {awaitingLessonSection}
           <FigureGrid
             figures={galleryData.allItems}
             lessonsMap={galleryData.lessonsMap!}
@@ -208,6 +279,7 @@ const FiguresGallery: React.FC = () => {
 
     return (
       <div>
+        {awaitingLessonSection}
         {galleryData.groups.map(group => (
           <div key={group.key}>
             <CategoryHeader 
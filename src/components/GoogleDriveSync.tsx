@@ -12,7 +12,7 @@ const GoogleIcon: React.FC = () => (
 );
 
 const GoogleDriveSync: React.FC = () => {
-    const { isSignedIn, isSyncActive, userProfile, syncError, signIn, signOut } = useGoogleDrive();
+    const { isSignedIn, isSyncActive, userProfile, syncError, needsReauthentication, signIn, signOut } = useGoogleDrive();
     const { t } = useTranslation();
 
     return (
@@ -43,7 +43,22 @@ const GoogleDriveSync: React.FC = () => {
                             <p className="text-gray-500 truncate">{userProfile?.email}</p>
                         </div>
                     </div>
+                    {needsReauthentication && (
+                        <p className="text-sm p-2 rounded-md bg-amber-50 text-amber-800" data-component="reauthentication-needed">
+                            {t('settings.reauthenticationNeeded')}
+                        </p>
+                    )}
                     <div className="space-y-3 sm:space-y-0 sm:flex sm:space-x-3">
+                        {needsReauthentication && (
+                            <button
+                                onClick={signIn}
+                                data-action="google-reauthenticate"
+                                className="w-full sm:w-auto inline-flex items-center justify-center bg-white border border-gray-300 text-gray-700 font-bold px-4 py-2 rounded shadow-sm hover:bg-gray-100 transition-colors gap-2"
+                            >
+                                <GoogleIcon />
+                                {t('settings.signInAgain')}
+                            </button>
+                        )}
                         <button
                             onClick={() => signOut()}
                             data-action="google-signout"
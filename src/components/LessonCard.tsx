@@ -12,6 +12,9 @@ import { useMediaQuery } from '../hooks/useMediaQuery';
 import { useSettings } from '../contexts/SettingsContext';
 import { itemManagementService } from '../services/ItemManagementService';
 import { useVideoPlayback } from '../hooks/useVideoPlayback';
+import { useVideoDownload } from '../hooks/useVideoDownload';
+import CloudVideoStatus from './CloudVideoStatus';
+import { videoEvictionService } from '../services/VideoEvictionService';
 
 interface LessonCardProps {
   lesson: Lesson;
@@ -45,6 +48,9 @@ const LessonCard: React.FC<LessonCardProps> = ({ lesson, thumbnailUrl, videoUrl,
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   
+  // Lessons excluded by the selective sync rules have their metadata here but the video only in the cloud.
+  const isCloudOnly = !videoUrl && !!lesson.videoDriveId;
+  const { downloadState, isDownloading, downloadVideo, isPinned, togglePinned } = useVideoDownload(lesson);
   const shouldPlay = ((settings.autoplayGalleryVideos && isVisible) || isHovering) && !!videoUrl;
   useVideoPlayback({ videoRef, item: lesson, shouldPlay, onVideoVisibilityChange: setIsVideoVisible });
 
@@ -56,10 +62,16 @@ const LessonCard: React.FC<LessonCardProps> = ({ lesson, thumbnailUrl, videoUrl,
   const handleMouseLeave = () => setIsHovering(false);
   
   const handleOpen = () => {
+    if (isCloudOnly) {
+      // The first play fetches the video; the card shows the progress and plays on the next tap.
+      if (!isDownloading) downloadVideo();
+      return;
+    }
     if (!videoUrl) {
       console.warn("Attempted to open lesson with no video URL.");
       return;
     }
+    videoEvictionService.recordWatched(lesson.id);
     playInFullscreen({
         item: lesson,
         videoUrl,
@@ -130,6 +142,7 @@ const LessonCard: React.FC<LessonCardProps> = ({ lesson, thumbnailUrl, videoUrl,
     { label: t('common.school'), icon: 'school', submenu: schoolSubMenu },
     { label: t('common.instructor'), icon: 'person', submenu: instructorSubMenu },
     { label: t('common.edit'), onClick: handleEdit, icon: 'edit' },
+    ...(lesson.videoDriveId ? [{ label: t('card.keepOffline'), onClick: togglePinned, icon: 'offline_pin', isChecked: isPinned }] : []),
     { label: t('common.remove'), onClick: handleRequestRemove, isDestructive: true, icon: 'delete' },
   ];
 
@@ -176,7 +189,7 @@ const LessonCard: React.FC<LessonCardProps> = ({ lesson, thumbnailUrl, videoUrl,
                 {(error || !thumbnailUrl) && (
                   <div className="absolute inset-0 flex flex-col items-center justify-center text-center p-2 bg-gray-900/50 pointer-events-none">
                     <i className="material-icons text-6xl text-gray-400">
-                      {error ? 'videocam_off' : 'ondemand_video'}
+                      {error ? 'videocam_off' : isCloudOnly ? 'cloud_queue' : 'ondemand_video'}
                     </i>
                     {error && (
                       <p className="mt-2 text-xs text-red-400">{error}</p>
@@ -184,6 +197,7 @@ const LessonCard: React.FC<LessonCardProps> = ({ lesson, thumbnailUrl, videoUrl,
                   </div>
                 )}
             </div>
+            <CloudVideoStatus isCloudOnly={isCloudOnly} isPinned={isPinned} downloadState={downloadState} />
           </div>
           <div className="p-4 flex items-center justify-center">
             <h3 className="text-lg font-medium text-gray-800" title={t('card.lessonFrom', { date: formattedDate })}>
@@ -0,0 +1,67 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from '../contexts/I18nContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { networkStatusService } from '../services/NetworkStatusService';
+
+const Toggle: React.FC<{
+    label: string;
+    description: string;
+    checked: boolean;
+    onChange: () => void;
+    dataAction: string;
+}> = ({ label, description, checked, onChange, dataAction }) => (
+    <div
+        onClick={onChange}
+        role="switch"
+        data-action={dataAction}
+        aria-checked={checked}
+        className="flex items-center justify-between cursor-pointer"
+    >
+        <div>
+            <span className="text-gray-700">{label}</span>
+            <p className="text-sm text-gray-500">{description}</p>
+        </div>
+        <div className={`relative w-11 h-6 flex-shrink-0 rounded-full transition-colors duration-300 ease-in-out ${checked ? 'bg-blue-500' : 'bg-gray-300'}`}>
+            <div
+                className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full shadow-md transform transition-transform duration-300 ease-in-out ${
+                    checked ? 'translate-x-5' : 'translate-x-0'
+                }`}
+            ></div>
+        </div>
+    </div>
+);
+
+const MobileDataSync: React.FC = () => {
+    const { t } = useTranslation();
+    const { settings, updateSettings } = useSettings();
+    const [isMetered, setIsMetered] = useState<boolean | null>(networkStatusService.isMeteredConnection());
+
+    useEffect(() => networkStatusService.subscribe(() => setIsMetered(networkStatusService.isMeteredConnection())), []);
+
+    return (
+        <div className="space-y-4" data-component="mobile-data-sync">
+            <Toggle
+                label={t('settings.wifiOnly')}
+                description={t('settings.wifiOnlyDesc')}
+                checked={settings.videoSync_wifiOnly}
+                onChange={() => updateSettings({ videoSync_wifiOnly: !settings.videoSync_wifiOnly })}
+                dataAction="toggle-wifi-only"
+            />
+            {settings.videoSync_wifiOnly && (isMetered === null ? (
+                <Toggle
+                    label={t('settings.onMobileData')}
+                    description={t('settings.onMobileDataDesc')}
+                    checked={settings.videoSync_onMobileData}
+                    onChange={() => updateSettings({ videoSync_onMobileData: !settings.videoSync_onMobileData })}
+                    dataAction="toggle-on-mobile-data"
+                />
+            ) : (
+                <p className="text-sm text-gray-600" data-component="detected-connection">
+                    {isMetered ? t('settings.connectionMetered') : t('settings.connectionUnmetered')}
+                </p>
+            ))}
+        </div>
+    );
+};
+
+export default MobileDataSync;
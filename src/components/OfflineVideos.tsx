@@ -0,0 +1,89 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from '../contexts/I18nContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { videoEvictionService } from '../services/VideoEvictionService';
+import { localDatabaseService } from '../services/LocalDatabaseService';
+import { formatBytes } from '../utils/formatters';
+
+const OfflineVideos: React.FC = () => {
+    const { t } = useTranslation();
+    const { settings, updateSettings } = useSettings();
+    const [evictable, setEvictable] = useState<{ count: number; bytes: number } | null>(null);
+    const [isFreeing, setIsFreeing] = useState(false);
+    const [freedBytes, setFreedBytes] = useState<number | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const loadEvictable = useCallback(() => {
+        videoEvictionService.getEvictableVideos()
+            .then(videos => setEvictable({ count: videos.length, bytes: videos.reduce((sum, video) => sum + video.bytes, 0) }))
+            .catch(console.error);
+    }, []);
+
+    useEffect(() => {
+        loadEvictable();
+        return localDatabaseService.subscribe(payload => {
+            if (payload.type === 'lesson' || payload.type === 'all') loadEvictable();
+        });
+    }, [loadEvictable]);
+
+    const handleFreeUpSpace = async () => {
+        setIsFreeing(true);
+        setError(null);
+        try {
+            setFreedBytes(await videoEvictionService.freeUpSpace());
+        } catch (err: any) {
+            console.error(err);
+            setError(err.message);
+        } finally {
+            setIsFreeing(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4" data-component="offline-videos">
+            <div
+                onClick={() => updateSettings({ videoEviction_auto: !settings.videoEviction_auto })}
+                role="switch"
+                data-action="toggle-auto-eviction"
+                aria-checked={settings.videoEviction_auto}
+                className="flex items-center justify-between cursor-pointer"
+            >
+                <div>
+                    <span className="text-gray-700">{t('settings.autoEviction')}</span>
+                    <p className="text-sm text-gray-500">{t('settings.autoEvictionDesc')}</p>
+                </div>
+                <div className={`relative w-11 h-6 flex-shrink-0 rounded-full transition-colors duration-300 ease-in-out ${settings.videoEviction_auto ? 'bg-blue-500' : 'bg-gray-300'}`}>
+                    <div
+                        className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full shadow-md transform transition-transform duration-300 ease-in-out ${
+                            settings.videoEviction_auto ? 'translate-x-5' : 'translate-x-0'
+                        }`}
+                    ></div>
+                </div>
+            </div>
+
+            {evictable && (
+                <p className="text-sm text-gray-600" data-component="evictable-summary">
+                    {evictable.count > 0
+                        ? t('settings.freeUpSpaceSummary', { count: evictable.count, size: formatBytes(evictable.bytes) })
+                        : t('settings.freeUpSpaceNothing')}
+                </p>
+            )}
+            {freedBytes !== null && (
+                <p className="text-sm text-green-700">{t('settings.freeUpSpaceDone', { size: formatBytes(freedBytes) })}</p>
+            )}
+            {error && (
+                <p className="text-sm text-center p-2 rounded-md bg-red-100 text-red-700">{t('settings.freeUpSpaceError', { error })}</p>
+            )}
+            <button
+                onClick={handleFreeUpSpace}
+                data-action="free-up-space"
+                disabled={isFreeing || !evictable || evictable.count === 0}
+                className="w-full sm:w-auto bg-white text-gray-700 border border-gray-300 font-bold py-2 px-4 rounded hover:bg-gray-100 transition-colors disabled:opacity-50"
+            >
+                {isFreeing ? t('settings.freeingUpSpace') : t('settings.freeUpSpace')}
+            </button>
+        </div>
+    );
+};
+
+export default OfflineVideos;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { useTranslation } from '../contexts/I18nContext';
+import { remoteCleanupService, type RemoteCleanupReport, type RemoteCleanupResult } from '../services/RemoteCleanupService';
+import { formatBytes } from '../utils/formatters';
+import ConfirmDeleteModal from './ConfirmDeleteModal';
+
+const RemoteCleanup: React.FC = () => {
+    const { t } = useTranslation();
+    const [report, setReport] = useState<RemoteCleanupReport | null>(null);
+    const [result, setResult] = useState<RemoteCleanupResult | null>(null);
+    const [isScanning, setIsScanning] = useState(false);
+    const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+    const [isCleaning, setIsCleaning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const fileCount = report ? report.orphanedVideos.length + report.orphanedThumbnails.length + report.orphanedFigures.length : 0;
+    const hasAnythingToClean = !!report && (fileCount > 0 || report.staleTombstoneIds.length > 0);
+
+    const handleScan = async () => {
+        setIsScanning(true);
+        setError(null);
+        setResult(null);
+        try {
+            setReport(await remoteCleanupService.scan());
+        } catch (err: any) {
+            console.error(err);
+            setError(err.message);
+        } finally {
+            setIsScanning(false);
+        }
+    };
+
+    const handleCleanUp = async () => {
+        if (!report) return;
+        setIsCleaning(true);
+        setError(null);
+        try {
+            setResult(await remoteCleanupService.cleanUp(report));
+            setReport(null);
+        } catch (err: any) {
+            console.error(err);
+            setError(err.message);
+        } finally {
+            setIsCleaning(false);
+            setIsConfirmOpen(false);
+        }
+    };
+
+    const summary = report && [
+        { label: t('settings.cleanupVideos'), count: report.orphanedVideos.length },
+        { label: t('settings.cleanupThumbnails'), count: report.orphanedThumbnails.length },
+        { label: t('settings.cleanupFigures'), count: report.orphanedFigures.length },
+        { label: t('settings.cleanupTombstones'), count: report.staleTombstoneIds.length },
+    ];
+
+    return (
+        <div className="space-y-4" data-component="remote-cleanup">
+            {report && summary && (
+                hasAnythingToClean ? (
+                    <div data-component="remote-cleanup-report">
+                        <ul className="text-sm text-gray-600 space-y-1">
+                            {summary.map(({ label, count }) => (
+                                <li key={label} className="flex justify-between">
+                                    <span>{label}</span>
+                                    <span className="font-mono">{count}</span>
+                                </li>
+                            ))}
+                        </ul>
+                        {report.totalBytes > 0 && (
+                            <p className="mt-2 text-sm text-gray-700">{t('settings.cleanupTotalSize', { size: formatBytes(report.totalBytes) })}</p>
+                        )}
+                    </div>
+                ) : (
+                    <p className="text-sm text-gray-600">{t('settings.cleanupNothingFound')}</p>
+                )
+            )}
+            {result && (
+                <p className={`text-sm ${result.failedFileCount > 0 ? 'text-amber-700' : 'text-green-700'}`}>
+                    {t('settings.cleanupDone', { files: result.deletedFileCount, tombstones: result.removedTombstoneCount })}
+                    {result.failedFileCount > 0 && ` ${t('settings.cleanupSomeFailed', { count: result.failedFileCount })}`}
+                </p>
+            )}
+            {error && (
+                <p className="text-sm text-center p-2 rounded-md bg-red-100 text-red-700">{t('settings.cleanupError', { error })}</p>
+            )}
+            <div className="space-y-3 sm:space-y-0 sm:flex sm:space-x-3">
+                <button
+                    onClick={handleScan}
+                    data-action="scan-remote-cleanup"
+                    disabled={isScanning || isCleaning}
+                    className="w-full sm:w-auto bg-white text-gray-700 border border-gray-300 font-bold py-2 px-4 rounded hover:bg-gray-100 transition-colors disabled:opacity-50"
+                >
+                    {isScanning ? t('settings.cleanupScanning') : t('settings.cleanupScan')}
+                </button>
+                {hasAnythingToClean && (
+                    <button
+                        onClick={() => setIsConfirmOpen(true)}
+                        data-action="confirm-remote-cleanup"
+                        disabled={isScanning || isCleaning}
+                        className="w-full sm:w-auto bg-red-600 text-white font-bold py-2 px-4 rounded hover:bg-red-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        {t('settings.cleanupRun')}
+                    </button>
+                )}
+            </div>
+            <ConfirmDeleteModal
+                isOpen={isConfirmOpen}
+                onClose={() => setIsConfirmOpen(false)}
+                onConfirm={handleCleanUp}
+                isDeleting={isCleaning}
+                title={t('settings.cleanupConfirmTitle')}
+            >
+                <p>{t('settings.cleanupConfirmBody', { count: fileCount })}</p>
+                <p className="mt-2 font-semibold">{t('deleteModal.warning')}</p>
+            </ConfirmDeleteModal>
+        </div>
+    );
+};
+
+export default RemoteCleanup;
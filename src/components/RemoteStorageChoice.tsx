@@ -0,0 +1,62 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from '../contexts/I18nContext';
+import { useGoogleDrive } from '../contexts/GoogleDriveContext';
+import { remoteStorageService } from '../services/RemoteStorageService';
+import ConfirmStorageSwitchModal from './ConfirmStorageSwitchModal';
+
+const PROVIDER_LABEL_KEYS: Record<string, string> = {
+    'google-drive': 'settings.remoteStorageGoogleDrive',
+    'webdav': 'settings.remoteStorageWebDav',
+};
+
+const RemoteStorageChoice: React.FC = () => {
+    const { t } = useTranslation();
+    const { isSyncActive } = useGoogleDrive();
+    const [selectedName, setSelectedName] = useState(remoteStorageService.getSelectedProviderName());
+    const [connectedNames, setConnectedNames] = useState(remoteStorageService.getConnectedProviderNames());
+    const [pendingName, setPendingName] = useState<string | null>(null);
+
+    useEffect(() => remoteStorageService.subscribe(() => {
+        setSelectedName(remoteStorageService.getSelectedProviderName());
+        setConnectedNames(remoteStorageService.getConnectedProviderNames());
+    }), []);
+
+    const labelOf = (name: string) => PROVIDER_LABEL_KEYS[name] ? t(PROVIDER_LABEL_KEYS[name]) : name;
+    const otherConnectedNames = connectedNames.filter(name => name !== selectedName);
+
+    const handleConfirm = () => {
+        if (pendingName) remoteStorageService.selectProvider(pendingName);
+        setPendingName(null);
+    };
+
+    return (
+        <div className="space-y-3" data-component="RemoteStorageChoice">
+            <p className="text-sm text-gray-700">
+                {connectedNames.includes(selectedName)
+                    ? t('settings.remoteStorageSelected', { name: labelOf(selectedName) })
+                    : t('settings.remoteStorageNotConnected', { name: labelOf(selectedName) })}
+            </p>
+            {otherConnectedNames.map(name => (
+                <button
+                    key={name}
+                    onClick={() => setPendingName(name)}
+                    data-action="select-remote-storage"
+                    data-item-id={name}
+                    disabled={isSyncActive}
+                    className="w-full sm:w-auto bg-white text-gray-700 border border-gray-300 font-bold py-2 px-4 rounded hover:bg-gray-100 transition-colors disabled:opacity-50"
+                >
+                    {t('settings.remoteStorageUse', { name: labelOf(name) })}
+                </button>
+            ))}
+            <ConfirmStorageSwitchModal
+                isOpen={pendingName !== null}
+                onClose={() => setPendingName(null)}
+                onConfirm={handleConfirm}
+                previousName={labelOf(selectedName)}
+                nextName={pendingName ? labelOf(pendingName) : ''}
+            />
+        </div>
+    );
+};
+
+export default RemoteStorageChoice;
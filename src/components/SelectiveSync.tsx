@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from '../contexts/I18nContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { localDatabaseService } from '../services/LocalDatabaseService';
+import type { LessonCategory, School } from '../types';
+
+// The same ids the galleries use for lessons without a category or school.
+const UNCATEGORIZED_ID = '__uncategorized__';
+const UNASSIGNED_ID = '__unassigned__';
+
+const MAX_AGE_OPTIONS = [1, 3, 6, 12, 24];
+
+const inputClasses = "mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+
+interface RuleOption {
+    id: string;
+    name: string;
+}
+
+const RuleCheckboxList: React.FC<{
+    title: string;
+    options: RuleOption[];
+    selectedIds: string[];
+    onChange: (selectedIds: string[]) => void;
+    disabled: boolean;
+    dataComponent: string;
+}> = ({ title, options, selectedIds, onChange, disabled, dataComponent }) => {
+    const { t } = useTranslation();
+
+    const toggle = (id: string) => {
+        onChange(selectedIds.includes(id) ? selectedIds.filter(selectedId => selectedId !== id) : [...selectedIds, id]);
+    };
+
+    return (
+        <fieldset data-component={dataComponent} disabled={disabled} className={disabled ? 'opacity-50' : ''}>
+            <legend className="block text-sm font-medium text-gray-700">{title}</legend>
+            <p className="text-xs text-gray-500">{t('settings.selectiveSyncEmptyMeansAll')}</p>
+            <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-1">
+                {options.map(option => (
+                    <label key={option.id} className="flex items-center text-sm text-gray-800 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={selectedIds.includes(option.id)}
+                            onChange={() => toggle(option.id)}
+                            data-item-id={option.id}
+                            className="mr-2"
+                        />
+                        <span className="truncate">{option.name}</span>
+                    </label>
+                ))}
+            </div>
+        </fieldset>
+    );
+};
+
+const SelectiveSync: React.FC = () => {
+    const { t } = useTranslation();
+    const { settings, updateSettings } = useSettings();
+    const [categories, setCategories] = useState<LessonCategory[]>([]);
+    const [schools, setSchools] = useState<School[]>([]);
+
+    useEffect(() => {
+        Promise.all([localDatabaseService.getLessonCategories(), localDatabaseService.getLessonSchools()])
+            .then(([loadedCategories, loadedSchools]) => {
+                setCategories(loadedCategories);
+                setSchools(loadedSchools);
+            })
+            .catch(console.error);
+    }, []);
+
+    const categoryOptions: RuleOption[] = [
+        ...categories.map(category => ({ id: category.id, name: category.name })),
+        { id: UNCATEGORIZED_ID, name: t('common.uncategorized') },
+    ];
+    const schoolOptions: RuleOption[] = [
+        ...schools.map(school => ({ id: school.id, name: school.name })),
+        { id: UNASSIGNED_ID, name: t('common.unassigned') },
+    ];
+
+    return (
+        <div className="space-y-4" data-component="selective-sync">
+            <div>
+                <label htmlFor="video-sync-mode" className="block text-sm font-medium text-gray-700">{t('settings.selectiveSyncMode')}</label>
+                <select
+                    id="video-sync-mode"
+                    value={settings.videoSync_onDemand ? 'on-demand' : 'rules'}
+                    onChange={e => updateSettings({ videoSync_onDemand: e.target.value === 'on-demand' })}
+                    className={inputClasses}
+                >
+                    <option value="rules">{t('settings.selectiveSyncModeRules')}</option>
+                    <option value="on-demand">{t('settings.selectiveSyncModeOnDemand')}</option>
+                </select>
+                <p className="mt-1 text-xs text-gray-500">{t('settings.selectiveSyncPinnedNote')}</p>
+            </div>
+            <div className={settings.videoSync_onDemand ? 'opacity-50' : ''}>
+                <label htmlFor="video-sync-max-age" className="block text-sm font-medium text-gray-700">{t('settings.selectiveSyncMaxAge')}</label>
+                <select
+                    id="video-sync-max-age"
+                    disabled={settings.videoSync_onDemand}
+                    value={settings.videoSync_maxAgeMonths ?? ''}
+                    onChange={e => updateSettings({ videoSync_maxAgeMonths: e.target.value ? Number(e.target.value) : null })}
+                    className={inputClasses}
+                >
+                    <option value="">{t('settings.selectiveSyncAllTime')}</option>
+                    {MAX_AGE_OPTIONS.map(months => (
+                        <option key={months} value={months}>{t('settings.selectiveSyncLastMonths', { count: months })}</option>
+                    ))}
+                </select>
+            </div>
+            <RuleCheckboxList
+                title={t('settings.selectiveSyncCategories')}
+                options={categoryOptions}
+                selectedIds={settings.videoSync_categoryIds}
+                onChange={ids => updateSettings({ videoSync_categoryIds: ids })}
+                disabled={settings.videoSync_onDemand}
+                dataComponent="selective-sync-categories"
+            />
+            <RuleCheckboxList
+                title={t('settings.selectiveSyncSchools')}
+                options={schoolOptions}
+                selectedIds={settings.videoSync_schoolIds}
+                onChange={ids => updateSettings({ videoSync_schoolIds: ids })}
+                disabled={settings.videoSync_onDemand}
+                dataComponent="selective-sync-schools"
+            />
+        </div>
+    );
+};
+
+export default SelectiveSync;
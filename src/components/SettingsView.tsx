@@ -1,9 +1,18 @@
 import React, { useRef } from 'react';
+import { Link, Outlet } from 'react-router-dom';
 import { useMediaQuery } from '../hooks/useMediaQuery';
 import MobileTopNav from './MobileTopNav';
 import DesktopTopNav from './DesktopTopNav';
 import { useTranslation } from '../contexts/I18nContext';
 import GoogleDriveSync from './GoogleDriveSync';
+import WebDavSync from './WebDavSync';
+import RemoteStorageChoice from './RemoteStorageChoice';
+import SelectiveSync from './SelectiveSync';
+import OfflineVideos from './OfflineVideos';
+import MobileDataSync from './MobileDataSync';
+import SyncSchedule from './SyncSchedule';
+import StorageUsage from './StorageUsage';
+import RemoteCleanup from './RemoteCleanup';
 import { useGoogleDrive } from '../contexts/GoogleDriveContext';
 import { isDev, isE2ETest } from '../../config';
 import { useSettings } from '../contexts/SettingsContext';
@@ -15,7 +24,7 @@ const SettingsView: React.FC = () => {
   const isMobile = useMediaQuery('(max-width: 768px)');
   const { t } = useTranslation();
   const { settings, updateSettings } = useSettings();
-  const { isSignedIn } = useGoogleDrive();
+  const { isSignedIn, isSyncAvailable, isSyncActive, syncConflicts } = useGoogleDrive();
   const devMode = isDev();
   
   const backupStatus = useBackupStatus();
@@ -125,6 +134,106 @@ const SettingsView: React.FC = () => {
               <div className="mt-4">
                 <GoogleDriveSync />
               </div>
+              {syncConflicts.length > 0 && (
+                <div className="mt-4 p-3 bg-amber-50 border border-amber-300 rounded-md flex items-center justify-between" data-component="sync-conflicts-notice">
+                  <span className="text-sm text-amber-800">{t('sync.conflictsFound', { count: syncConflicts.length })}</span>
+                  <Link to="/settings/sync-conflicts" data-action="review-conflicts" className="ml-3 text-sm font-medium text-blue-600 hover:underline">
+                    {t('sync.reviewConflicts')}
+                  </Link>
+                </div>
+              )}
+            </div>
+
+            <div className="border-t border-gray-200 pt-6">
+              <h2 className="text-xl font-semibold text-gray-700">{t('settings.webDavSync')}</h2>
+              <p className="text-gray-500 mt-1">{t('settings.webDavSyncDesc')}</p>
+              <div className="mt-4">
+                <WebDavSync />
+              </div>
+            </div>
+
+            <div className="border-t border-gray-200 pt-6">
+              <h2 className="text-xl font-semibold text-gray-700">{t('settings.remoteStorage')}</h2>
+              <p className="text-gray-500 mt-1">{t('settings.remoteStorageDesc')}</p>
+              <div className="mt-4">
+                <RemoteStorageChoice />
+              </div>
+            </div>
+
+            <div className="border-t border-gray-200 pt-6">
+              <h2 className="text-xl font-semibold text-gray-700">{t('settings.syncSchedule')}</h2>
+              <p className="text-gray-500 mt-1">{t('settings.syncScheduleDesc')}</p>
+              <div className="mt-4">
+                <SyncSchedule />
+              </div>
+            </div>
+
+            <div className="border-t border-gray-200 pt-6">
+              <h2 className="text-xl font-semibold text-gray-700">{t('settings.selectiveSync')}</h2>
+              <p className="text-gray-500 mt-1">{t('settings.selectiveSyncDesc')}</p>
+              <div className="mt-4">
+                <SelectiveSync />
+              </div>
+            </div>
+
+            <div className="border-t border-gray-200 pt-6">
+              <h2 className="text-xl font-semibold text-gray-700">{t('settings.mobileData')}</h2>
+              <p className="text-gray-500 mt-1">{t('settings.mobileDataDesc')}</p>
+              <div className="mt-4">
+                <MobileDataSync />
+              </div>
+            </div>
+
+            <div className="border-t border-gray-200 pt-6">
+              <h2 className="text-xl font-semibold text-gray-700">{t('settings.offlineVideos')}</h2>
+              <p className="text-gray-500 mt-1">{t('settings.offlineVideosDesc')}</p>
+              <div className="mt-4">
+                <OfflineVideos />
+              </div>
+            </div>
+
+            <div className="border-t border-gray-200 pt-6">
+              <h2 className="text-xl font-semibold text-gray-700">{t('settings.storage')}</h2>
+              <p className="text-gray-500 mt-1">{t('settings.storageDesc')}</p>
+              <div className="mt-4">
+                <StorageUsage />
+              </div>
+            </div>
+
+            {isSyncAvailable && (
+              <div className="border-t border-gray-200 pt-6">
+                <h2 className="text-xl font-semibold text-gray-700">{t('settings.syncPreview')}</h2>
+                <p className="text-gray-500 mt-1">{t('settings.syncPreviewDesc')}</p>
+                <div className="mt-4">
+                  {isSyncActive ? (
+                    <span className="inline-block bg-gray-400 text-white font-bold py-2 px-4 rounded cursor-not-allowed">{t('settings.syncing')}</span>
+                  ) : (
+                    <Link to="/settings/sync-preview" data-action="preview-sync" className="inline-block bg-blue-500 text-white font-bold py-2 px-4 rounded hover:bg-blue-700 transition-colors">
+                      {t('settings.syncPreview')}
+                    </Link>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {isSyncAvailable && (
+              <div className="border-t border-gray-200 pt-6">
+                <h2 className="text-xl font-semibold text-gray-700">{t('settings.remoteCleanup')}</h2>
+                <p className="text-gray-500 mt-1">{t('settings.remoteCleanupDesc')}</p>
+                <div className="mt-4">
+                  <RemoteCleanup />
+                </div>
+              </div>
+            )}
+
+            <div className="border-t border-gray-200 pt-6">
+              <h2 className="text-xl font-semibold text-gray-700">{t('settings.syncHistory')}</h2>
+              <p className="text-gray-500 mt-1">{t('settings.syncHistoryDesc')}</p>
+              <div className="mt-4">
+                <Link to="/settings/sync-history" data-action="view-sync-history" className="inline-block bg-white text-gray-700 border border-gray-300 font-bold py-2 px-4 rounded hover:bg-gray-100 transition-colors">
+                  {t('settings.syncHistory')}
+                </Link>
+              </div>
             </div>
 
             {devMode && (
@@ -180,6 +289,7 @@ const SettingsView: React.FC = () => {
         <p>{t('settings.importConfirmBody')}</p>
         <p className="mt-2 font-semibold">{t('deleteModal.warning')}</p>
       </ConfirmDeleteModal>
+      <Outlet context={{ isMobile }} />
     </>
   );
 };
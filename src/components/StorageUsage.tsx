@@ -0,0 +1,114 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from '../contexts/I18nContext';
+import { storageUsageService, type StorageUsageReport } from '../services/StorageUsageService';
+import { localDatabaseService } from '../services/LocalDatabaseService';
+import { formatBytes } from '../utils/formatters';
+
+const StorageUsage: React.FC = () => {
+    const { t, locale } = useTranslation();
+    const [report, setReport] = useState<StorageUsageReport | null>(null);
+    const [isRequesting, setIsRequesting] = useState(false);
+    const [wasDenied, setWasDenied] = useState(false);
+
+    const loadReport = useCallback(() => {
+        storageUsageService.getReport().then(setReport).catch(console.error);
+    }, []);
+
+    useEffect(() => {
+        loadReport();
+        return localDatabaseService.subscribe(payload => {
+            if (payload.type === 'lesson' || payload.type === 'figure' || payload.type === 'all') loadReport();
+        });
+    }, [loadReport]);
+
+    const handleRequestPersistence = async () => {
+        setIsRequesting(true);
+        try {
+            const granted = await storageUsageService.requestPersistence();
+            setWasDenied(!granted);
+            loadReport();
+        } catch (err) {
+            console.error(err);
+            setWasDenied(true);
+        } finally {
+            setIsRequesting(false);
+        }
+    };
+
+    if (!report) {
+        return <p className="text-sm text-gray-500">{t('common.loading')}</p>;
+    }
+
+    const usedPercent = report.usage !== null && report.quota ? Math.min(100, (report.usage / report.quota) * 100) : null;
+    const breakdown = [
+        { label: t('settings.storageVideos'), bytes: report.videoBytes },
+        { label: t('settings.storageLessonThumbnails'), bytes: report.lessonThumbnailBytes },
+        { label: t('settings.storageFigureThumbnails'), bytes: report.figureThumbnailBytes },
+    ];
+
+    return (
+        <div className="space-y-4" data-component="storage-usage">
+            {report.usage !== null && report.quota !== null ? (
+                <div>
+                    <p className="text-sm text-gray-700">
+                        {t('settings.storageUsedOfQuota', { used: formatBytes(report.usage), quota: formatBytes(report.quota) })}
+                    </p>
+                    <div className="w-full h-2 mt-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div className="h-full bg-blue-500" style={{ width: `${usedPercent ?? 0}%` }}></div>
+                    </div>
+                </div>
+            ) : (
+                <p className="text-sm text-gray-500">{t('settings.storageEstimateUnavailable')}</p>
+            )}
+
+            <ul className="text-sm text-gray-600 space-y-1">
+                {breakdown.map(({ label, bytes }) => (
+                    <li key={label} className="flex justify-between">
+                        <span>{label}</span>
+                        <span className="font-mono">{formatBytes(bytes)}</span>
+                    </li>
+                ))}
+            </ul>
+
+            {report.largestLessons.length > 0 && (
+                <div>
+                    <h3 className="text-sm font-semibold text-gray-700">{t('settings.storageLargestLessons')}</h3>
+                    <ul className="mt-1 text-sm text-gray-600 space-y-1" data-component="largest-lessons">
+                        {report.largestLessons.map(({ lesson, totalBytes }) => (
+                            <li key={lesson.id} className="flex justify-between gap-4">
+                                <span className="truncate">
+                                    {new Date(lesson.uploadDate).toLocaleDateString(locale)}
+                                    {lesson.description ? ` – ${lesson.description}` : ''}
+                                </span>
+                                <span className="font-mono flex-shrink-0">{formatBytes(totalBytes)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {report.isPersisted ? (
+                <p className="text-sm text-green-700 flex items-center gap-1">
+                    <i className="material-icons text-base">verified_user</i>
+                    {t('settings.storagePersisted')}
+                </p>
+            ) : (
+                <div>
+                    <button
+                        onClick={handleRequestPersistence}
+                        data-action="request-persistent-storage"
+                        disabled={isRequesting}
+                        className="w-full sm:w-auto bg-white text-gray-700 border border-gray-300 font-bold py-2 px-4 rounded hover:bg-gray-100 transition-colors disabled:opacity-50"
+                    >
+                        {t('settings.storageRequestPersistence')}
+                    </button>
+                    <p className="text-sm text-gray-500 mt-2">
+                        {wasDenied ? t('settings.storagePersistenceDenied') : t('settings.storagePersistenceHint')}
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default StorageUsage;
@@ -0,0 +1,171 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useOutletContext } from 'react-router-dom';
+import BaseModal from './BaseModal';
+import { useTranslation } from '../contexts/I18nContext';
+import { useGoogleDrive } from '../contexts/GoogleDriveContext';
+import { syncConflictService, type SyncConflict, type ConflictField, type ConflictFieldKey, type ConflictResolution, type FieldChoices } from '../services/SyncConflictService';
+import { msToSecondsString } from '../utils/formatters';
+import type { Lesson, Figure } from '../types';
+
+interface SettingsOutletContext {
+    isMobile: boolean;
+}
+
+const TIME_FIELDS: ConflictFieldKey[] = ['startTime', 'endTime', 'thumbTime'];
+
+const ConflictCard: React.FC<{ conflict: SyncConflict }> = ({ conflict }) => {
+    const { t, locale } = useTranslation();
+    const { resolveConflict } = useGoogleDrive();
+    const [fields, setFields] = useState<ConflictField[]>([]);
+    const [choices, setChoices] = useState<FieldChoices>({});
+    const [isResolving, setIsResolving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        syncConflictService.getConflictFields(conflict).then(conflictFields => {
+            setFields(conflictFields);
+            // Fields changed on only one side default to that side; clashing fields default to the local version.
+            setChoices(Object.fromEntries(conflictFields.filter(f => f.isDifferent).map(f => [f.key, conflict.suggestedChoices?.[f.key] ?? 'local'])));
+        });
+    }, [conflict]);
+
+    const formatValue = (field: ConflictField, side: 'local' | 'remote'): string => {
+        const value = side === 'local' ? field.localValue : field.remoteValue;
+        const label = side === 'local' ? field.localLabel : field.remoteLabel;
+        if (value === null || value === '') return t('syncConflicts.emptyValue');
+        if (label) return label;
+        if (TIME_FIELDS.includes(field.key)) return msToSecondsString(Number(value));
+        if (field.key === 'uploadDate') return new Date(String(value)).toLocaleDateString(locale);
+        return String(value);
+    };
+
+    const getTitle = (): string => {
+        if (conflict.type === 'figure') return `${t('syncConflicts.figureLabel')}: ${(conflict.local as Figure).name}`;
+        return `${t('syncConflicts.lessonLabel')}: ${new Date((conflict.local as Lesson).uploadDate).toLocaleDateString(locale)}`;
+    };
+
+    const handleResolve = async (resolution: ConflictResolution) => {
+        setIsResolving(true);
+        setError(null);
+        try {
+            await resolveConflict(conflict.id, resolution);
+        } catch (err: any) {
+            console.error(err);
+            setError(err.message || t('common.error'));
+            setIsResolving(false);
+        }
+    };
+
+    const differingFields = fields.filter(f => f.isDifferent);
+
+    return (
+        <div className="border border-gray-200 rounded-lg p-4" data-component="sync-conflict" data-item-id={conflict.id}>
+            <h3 className="text-lg font-semibold text-gray-800">{getTitle()}</h3>
+            <div className="mt-3 overflow-x-auto">
+                <table className="w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-gray-500">
+                            <th className="py-1 pr-2 font-medium">{t('syncConflicts.field')}</th>
+                            <th className="py-1 pr-2 font-medium">{t('syncConflicts.localVersion')}</th>
+                            <th className="py-1 font-medium">{t('syncConflicts.remoteVersion')}</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {differingFields.map(field => (
+                            <tr key={field.key} className="border-t border-gray-100 align-top" data-component="sync-conflict-field" data-item-id={field.key}>
+                                <td className="py-2 pr-2 text-gray-600">
+                                    {t(`syncConflicts.field_${field.key}`)}
+                                    {field.isClashing && (
+                                        <span className="ml-1 bg-amber-100 text-amber-800 text-xs font-semibold px-1.5 py-0.5 rounded" title={t('syncConflicts.clashingHint')}>
+                                            {t('syncConflicts.clashing')}
+                                        </span>
+                                    )}
+                                </td>
+                                {(['local', 'remote'] as const).map(side => (
+                                    <td key={side} className="py-2 pr-2">
+                                        <label className="flex items-start cursor-pointer">
+                                            <input
+                                                type="radio"
+                                                name={`${conflict.id}-${field.key}`}
+                                                checked={choices[field.key] === side}
+                                                onChange={() => setChoices(prev => ({ ...prev, [field.key]: side }))}
+                                                disabled={isResolving}
+                                                data-action={`choose-${side}`}
+                                                className="mt-1 mr-2"
+                                            />
+                                            <span className="text-gray-800 break-words">{formatValue(field, side)}</span>
+                                        </label>
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+            <div className="mt-4 space-y-2 sm:space-y-0 sm:flex sm:space-x-2">
+                <button
+                    type="button"
+                    onClick={() => handleResolve({ strategy: 'keep-local' })}
+                    disabled={isResolving}
+                    data-action="keep-local"
+                    className="w-full sm:w-auto bg-white border border-gray-300 text-gray-700 font-medium py-2 px-3 rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                    {t('syncConflicts.keepLocal')}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => handleResolve({ strategy: 'keep-remote' })}
+                    disabled={isResolving}
+                    data-action="keep-remote"
+                    className="w-full sm:w-auto bg-white border border-gray-300 text-gray-700 font-medium py-2 px-3 rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                    {t('syncConflicts.keepRemote')}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => handleResolve({ strategy: 'merge', fieldChoices: choices })}
+                    disabled={isResolving}
+                    data-action="merge"
+                    className="w-full sm:w-auto bg-blue-500 text-white font-bold py-2 px-3 rounded hover:bg-blue-700 disabled:bg-gray-400"
+                >
+                    {isResolving ? t('syncConflicts.resolving') : t('syncConflicts.merge')}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+const SyncConflictsScreen: React.FC = () => {
+    const navigate = useNavigate();
+    const { isMobile } = useOutletContext<SettingsOutletContext>();
+    const { t } = useTranslation();
+    const { syncConflicts } = useGoogleDrive();
+
+    const handleClose = () => navigate('/settings');
+
+    return (
+        <BaseModal
+            onClose={handleClose}
+            title={t('syncConflicts.title')}
+            isMobile={isMobile}
+            modalName="sync-conflicts"
+            desktopWidth="max-w-3xl"
+        >
+            <div id="sync-conflicts-view" className="space-y-4">
+                {syncConflicts.length === 0 ? (
+                    <p className="text-gray-500 text-center py-4">{t('syncConflicts.noConflicts')}</p>
+                ) : (
+                    <>
+                        <p className="text-gray-600 text-sm">{t('syncConflicts.description')}</p>
+                        {syncConflicts.map(conflict => (
+                            <ConflictCard key={conflict.id} conflict={conflict} />
+                        ))}
+                    </>
+                )}
+            </div>
+        </BaseModal>
+    );
+};
+
+export default SyncConflictsScreen;
@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useOutletContext } from 'react-router-dom';
+import BaseModal from './BaseModal';
+import { useTranslation } from '../contexts/I18nContext';
+import { syncHistoryService, type SyncLogAction, type SyncLogEntry } from '../services/SyncHistoryService';
+
+interface SettingsOutletContext {
+    isMobile: boolean;
+}
+
+const PAGE_SIZE = 100;
+
+const ACTIONS: SyncLogAction[] = ['upload', 'download', 'delete-remote', 'delete-local', 'merge', 'conflict', 'skip', 'fail'];
+
+const ACTION_STYLES: Record<SyncLogAction, string> = {
+    'upload': 'bg-blue-100 text-blue-800',
+    'download': 'bg-green-100 text-green-800',
+    'delete-remote': 'bg-gray-200 text-gray-800',
+    'delete-local': 'bg-gray-200 text-gray-800',
+    'merge': 'bg-indigo-100 text-indigo-800',
+    'conflict': 'bg-amber-100 text-amber-800',
+    'skip': 'bg-gray-100 text-gray-600',
+    'fail': 'bg-red-100 text-red-800',
+};
+
+// Log values are kebab-case; translation keys are camelCase.
+const toKeySuffix = (value: string): string => value.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+const inputClasses = "mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+
+const SyncHistoryScreen: React.FC = () => {
+    const navigate = useNavigate();
+    const { isMobile } = useOutletContext<SettingsOutletContext>();
+    const { t, locale } = useTranslation();
+    const [entries, setEntries] = useState<SyncLogEntry[]>(syncHistoryService.getEntries());
+    const [actionFilter, setActionFilter] = useState<SyncLogAction | 'all'>('all');
+    const [typeFilter, setTypeFilter] = useState<'lesson' | 'figure' | 'all'>('all');
+    const [searchText, setSearchText] = useState('');
+    const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+    useEffect(() => syncHistoryService.subscribe(() => setEntries([...syncHistoryService.getEntries()])), []);
+
+    const handleClose = () => navigate('/settings');
+
+    const normalizedSearch = searchText.trim().toLowerCase();
+    const filteredEntries = entries.filter(entry =>
+        (actionFilter === 'all' || entry.action === actionFilter) &&
+        (typeFilter === 'all' || entry.type === typeFilter) &&
+        (!normalizedSearch ||
+            entry.itemName?.toLowerCase().includes(normalizedSearch) ||
+            entry.itemId?.toLowerCase().includes(normalizedSearch))
+    );
+
+    const getItemLabel = (entry: SyncLogEntry): string => {
+        if (entry.reason === 'grouping-config-changed') return t('syncHistory.groupingConfig');
+        // Entries without an item describe the whole gallery, e.g. a failed listing.
+        if (!entry.itemId) return entry.type === 'lesson' ? t('syncHistory.lessons') : t('syncHistory.figures');
+        return entry.itemName || entry.itemId;
+    };
+
+    return (
+        <BaseModal
+            onClose={handleClose}
+            title={t('syncHistory.title')}
+            isMobile={isMobile}
+            modalName="sync-history"
+            desktopWidth="max-w-3xl"
+            secondaryActions={entries.length > 0 ? [{
+                label: t('syncHistory.clear'),
+                onClick: () => syncHistoryService.clear(),
+                isDestructive: true,
+            }] : []}
+        >
+            <div id="sync-history-view" className="space-y-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    <div>
+                        <label htmlFor="sync-history-search" className="block text-sm font-medium text-gray-700">{t('syncHistory.search')}</label>
+                        <input
+                            type="search"
+                            id="sync-history-search"
+                            value={searchText}
+                            onChange={e => setSearchText(e.target.value)}
+                            className={inputClasses}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="sync-history-action" className="block text-sm font-medium text-gray-700">{t('syncHistory.filterAction')}</label>
+                        <select id="sync-history-action" value={actionFilter} onChange={e => setActionFilter(e.target.value as SyncLogAction | 'all')} className={inputClasses}>
+                            <option value="all">{t('syncHistory.all')}</option>
+                            {ACTIONS.map(action => (
+                                <option key={action} value={action}>{t(`syncHistory.action_${toKeySuffix(action)}`)}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="sync-history-type" className="block text-sm font-medium text-gray-700">{t('syncHistory.filterGallery')}</label>
+                        <select id="sync-history-type" value={typeFilter} onChange={e => setTypeFilter(e.target.value as 'lesson' | 'figure' | 'all')} className={inputClasses}>
+                            <option value="all">{t('syncHistory.all')}</option>
+                            <option value="lesson">{t('syncHistory.lessons')}</option>
+                            <option value="figure">{t('syncHistory.figures')}</option>
+                        </select>
+                    </div>
+                </div>
+
+                {entries.length === 0 ? (
+                    <p className="text-gray-500 text-center py-4">{t('syncHistory.empty')}</p>
+                ) : filteredEntries.length === 0 ? (
+                    <p className="text-gray-500 text-center py-4">{t('syncHistory.noMatches')}</p>
+                ) : (
+                    <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                        {filteredEntries.slice(0, visibleCount).map(entry => (
+                            <li key={entry.id} className="px-3 py-2 text-sm" data-component="sync-history-entry" data-item-id={entry.itemId ?? undefined}>
+                                <div className="flex items-center justify-between gap-2">
+                                    <div className="flex items-center gap-2 min-w-0">
+                                        <span className={`text-xs font-semibold px-1.5 py-0.5 rounded whitespace-nowrap ${ACTION_STYLES[entry.action]}`}>
+                                            {t(`syncHistory.action_${toKeySuffix(entry.action)}`)}
+                                        </span>
+                                        <span className="text-gray-800 truncate">{getItemLabel(entry)}</span>
+                                    </div>
+                                    <span className="text-xs text-gray-500 whitespace-nowrap">{new Date(entry.timestamp).toLocaleString(locale)}</span>
+                                </div>
+                                <p className="text-xs text-gray-500 mt-1">
+                                    {t(`syncHistory.reason_${toKeySuffix(entry.reason)}`)}
+                                    {entry.detail && `: ${entry.detail}`}
+                                    {` · ${entry.type === 'lesson' ? t('syncHistory.lessons') : t('syncHistory.figures')} · ${entry.provider}`}
+                                </p>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {filteredEntries.length > visibleCount && (
+                    <div className="text-center">
+                        <button
+                            type="button"
+                            onClick={() => setVisibleCount(count => count + PAGE_SIZE)}
+                            data-action="show-more-history"
+                            className="text-sm font-medium text-blue-600 hover:underline"
+                        >
+                            {t('syncHistory.showMore')}
+                        </button>
+                    </div>
+                )}
+            </div>
+        </BaseModal>
+    );
+};
+
+export default SyncHistoryScreen;
@@ -0,0 +1,146 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useOutletContext } from 'react-router-dom';
+import BaseModal from './BaseModal';
+import { useTranslation } from '../contexts/I18nContext';
+import { syncPreviewService, type SyncPreview, type SyncPreviewItem } from '../services/SyncPreviewService';
+import type { SyncPreviewAction } from '../services/SyncPlanService';
+import type { Lesson, Figure } from '../types';
+import { formatBytes } from '../utils/formatters';
+
+interface SettingsOutletContext {
+    isMobile: boolean;
+}
+
+const ACTIONS: { action: SyncPreviewAction; labelKey: string; icon: string }[] = [
+    { action: 'upload', labelKey: 'syncPreview.action_upload', icon: 'cloud_upload' },
+    { action: 'download', labelKey: 'syncPreview.action_download', icon: 'cloud_download' },
+    { action: 'delete-remote', labelKey: 'syncPreview.action_deleteRemote', icon: 'delete' },
+    { action: 'delete-local', labelKey: 'syncPreview.action_deleteLocal', icon: 'phonelink_erase' },
+    { action: 'merge', labelKey: 'syncPreview.action_merge', icon: 'call_merge' },
+];
+
+const SyncPreviewScreen: React.FC = () => {
+    const navigate = useNavigate();
+    const { isMobile } = useOutletContext<SettingsOutletContext>();
+    const { t, locale } = useTranslation();
+    const [preview, setPreview] = useState<SyncPreview | null>(null);
+    const [skippedKeys, setSkippedKeys] = useState<Set<string>>(new Set());
+    const [error, setError] = useState<string | null>(null);
+    const [isApplying, setIsApplying] = useState(false);
+
+    useEffect(() => {
+        syncPreviewService.previewSync()
+            .then(setPreview)
+            .catch((err: Error) => {
+                console.error(err);
+                setError(err.message);
+            });
+    }, []);
+
+    const handleClose = () => navigate('/settings');
+
+    const toggleItem = (key: string) => {
+        setSkippedKeys(prev => {
+            const next = new Set(prev);
+            if (next.has(key)) next.delete(key);
+            else next.add(key);
+            return next;
+        });
+    };
+
+    const getItemLabel = (previewItem: SyncPreviewItem): string => {
+        if (!previewItem.item) return t('syncPreview.unknownItem');
+        if (previewItem.type === 'figure') return `${t('syncPreview.figureLabel')}: ${(previewItem.item as Figure).name}`;
+        const lesson = previewItem.item as Lesson;
+        const date = new Date(lesson.uploadDate).toLocaleDateString(locale);
+        return `${t('syncPreview.lessonLabel')}: ${date}${lesson.description ? ` – ${lesson.description}` : ''}`;
+    };
+
+    const selectedItems = preview?.items.filter(item => !skippedKeys.has(item.key)) ?? [];
+    const selectedBytes = selectedItems.reduce((sum, item) => sum + item.dataBytes + item.videoBytes, 0);
+
+    const handleApply = () => {
+        if (!preview) return;
+        setIsApplying(true);
+        syncPreviewService.applySyncPreview(preview, [...skippedKeys]);
+        navigate('/settings');
+    };
+
+    return (
+        <BaseModal
+            onClose={handleClose}
+            title={t('syncPreview.title')}
+            isMobile={isMobile}
+            modalName="sync-preview"
+            desktopWidth="max-w-2xl"
+            error={error && t('syncPreview.error', { error })}
+            primaryAction={preview && preview.items.length > 0 ? {
+                label: t('syncPreview.sync', { count: selectedItems.length }),
+                onClick: handleApply,
+                disabled: selectedItems.length === 0,
+                isLoading: isApplying,
+                loadingLabel: t('syncPreview.starting'),
+            } : undefined}
+        >
+            <div id="sync-preview-view" className="space-y-4">
+                {!preview && !error && (
+                    <div className="flex items-center justify-center py-4 text-gray-500">
+                        <i className="material-icons animate-spin-reverse mr-2">sync</i>
+                        <span>{t('syncPreview.loading')}</span>
+                    </div>
+                )}
+                {preview && preview.items.length === 0 && (
+                    <p className="text-gray-500 text-center py-4">{t('syncPreview.nothingToSync')}</p>
+                )}
+                {preview && preview.items.length > 0 && (
+                    <>
+                        <p className="text-gray-600 text-sm">{t('syncPreview.description')}</p>
+                        <p className="text-sm font-medium text-gray-800" data-component="sync-preview-summary">
+                            {t('syncPreview.summary', { count: selectedItems.length, size: formatBytes(selectedBytes) })}
+                        </p>
+                        {ACTIONS.map(({ action, labelKey, icon }) => {
+                            const items = preview.items.filter(item => item.action === action);
+                            if (items.length === 0) return null;
+                            return (
+                                <div key={action} data-component="sync-preview-group" data-item-id={action}>
+                                    <h3 className="flex items-center text-sm font-semibold text-gray-700 mb-2">
+                                        <i className="material-icons text-base mr-1.5 text-gray-500">{icon}</i>
+                                        {t(labelKey)} ({items.length})
+                                    </h3>
+                                    <ul className="border border-gray-200 rounded-lg divide-y divide-gray-100">
+                                        {items.map(item => (
+                                            <li key={item.key} data-component="sync-preview-item" data-item-id={item.itemId}>
+                                                <label className="flex items-center px-3 py-2 cursor-pointer">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={!skippedKeys.has(item.key)}
+                                                        onChange={() => toggleItem(item.key)}
+                                                        disabled={isApplying}
+                                                        data-action="toggle-sync-item"
+                                                        className="mr-3"
+                                                    />
+                                                    <span className="flex-1 text-sm text-gray-800 truncate">{getItemLabel(item)}</span>
+                                                    {item.dataBytes + item.videoBytes > 0 && (
+                                                        <span className="ml-3 text-xs text-gray-500 whitespace-nowrap">
+                                                            {formatBytes(item.dataBytes)}
+                                                            {item.videoBytes > 0 && ` + ${t('syncPreview.videoSize', { size: formatBytes(item.videoBytes) })}`}
+                                                        </span>
+                                                    )}
+                                                </label>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            );
+                        })}
+                    </>
+                )}
+                {preview && preview.inSyncCount > 0 && (
+                    <p className="text-xs text-gray-500">{t('syncPreview.inSync', { count: preview.inSyncCount })}</p>
+                )}
+            </div>
+        </BaseModal>
+    );
+};
+
+export default SyncPreviewScreen;
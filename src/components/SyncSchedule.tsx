@@ -0,0 +1,52 @@
+import React from 'react';
+import { useTranslation } from '../contexts/I18nContext';
+import { useSettings } from '../contexts/SettingsContext';
+
+const INTERVAL_OPTIONS = [5, 15, 30, 60];
+
+const inputClasses = "mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+
+const SyncSchedule: React.FC = () => {
+    const { t } = useTranslation();
+    const { settings, updateSettings } = useSettings();
+
+    return (
+        <div className="space-y-4" data-component="sync-schedule">
+            <div
+                onClick={() => updateSettings({ syncSchedule_enabled: !settings.syncSchedule_enabled })}
+                role="switch"
+                data-action="toggle-scheduled-sync"
+                aria-checked={settings.syncSchedule_enabled}
+                className="flex items-center justify-between cursor-pointer"
+            >
+                <div>
+                    <span className="text-gray-700">{t('settings.scheduledSync')}</span>
+                    <p className="text-sm text-gray-500">{t('settings.scheduledSyncDesc')}</p>
+                </div>
+                <div className={`relative w-11 h-6 flex-shrink-0 rounded-full transition-colors duration-300 ease-in-out ${settings.syncSchedule_enabled ? 'bg-blue-500' : 'bg-gray-300'}`}>
+                    <div
+                        className={`absolute top-1 left-1 bg-white w-4 h-4 rounded-full shadow-md transform transition-transform duration-300 ease-in-out ${
+                            settings.syncSchedule_enabled ? 'translate-x-5' : 'translate-x-0'
+                        }`}
+                    ></div>
+                </div>
+            </div>
+            <div className={settings.syncSchedule_enabled ? '' : 'opacity-50'}>
+                <label htmlFor="sync-schedule-interval" className="block text-sm font-medium text-gray-700">{t('settings.syncInterval')}</label>
+                <select
+                    id="sync-schedule-interval"
+                    disabled={!settings.syncSchedule_enabled}
+                    value={settings.syncSchedule_intervalMinutes}
+                    onChange={e => updateSettings({ syncSchedule_intervalMinutes: Number(e.target.value) })}
+                    className={inputClasses}
+                >
+                    {INTERVAL_OPTIONS.map(minutes => (
+                        <option key={minutes} value={minutes}>{t('settings.syncIntervalMinutes', { count: minutes })}</option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    );
+};
+
+export default SyncSchedule;
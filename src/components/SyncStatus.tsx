@@ -1,11 +1,13 @@
 import React, { useState, useRef, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { useTranslation } from '../contexts/I18nContext';
 import { useGoogleDrive } from '../contexts/GoogleDriveContext';
-import type { SyncTask } from '../services/SyncQueueService';
+import { syncQueueService, type SyncTask, type SyncTaskProgress } from '../services/SyncQueueService';
+import { formatBytes, formatDuration } from '../utils/formatters';
 
 const SyncStatus: React.FC = () => {
-    const { t } = useTranslation();
-    const { syncQueue, isSyncActive, isSignedIn } = useGoogleDrive();
+    const { t, locale } = useTranslation();
+    const { syncQueue, isSyncActive, isSyncAvailable, syncConflicts, videosWaitingForWifi, lessonsWithoutVideo, isRemoteStorageFull, needsReauthentication, signIn } = useGoogleDrive();
     const [isOpen, setIsOpen] = useState(false);
     const wrapperRef = useRef<HTMLDivElement>(null);
 
@@ -28,6 +30,12 @@ const SyncStatus: React.FC = () => {
             const typeName = t(`sync.type_${task.payload.type}`);
             return t('sync.task_sync_grouping_config', { type: typeName });
         }
+        if (task.type === 'upload-lesson' || task.type === 'upload-figure') {
+            return t(`sync.task_${task.type.replace('-', '_')}`);
+        }
+        if (task.type === 'delete-remote' || task.type === 'download-item') {
+            return t(`sync.task_${task.type.replace('-', '_')}_${task.payload.type}`);
+        }
         return task.type;
     };
 
@@ -39,12 +47,28 @@ const SyncStatus: React.FC = () => {
         }
     };
     
-    const hasError = syncQueue.some(task => task.status === 'error');
+    const getRetryLabel = (task: SyncTask) => {
+        const time = new Date(task.nextAttemptAt!).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+        return t('sync.retryScheduled', { attempt: task.retryCount, time });
+    };
+    
+    const getTransferStats = (progress: SyncTaskProgress) => {
+        const elapsedSeconds = (Date.now() - progress.startedAt) / 1000;
+        const bytesPerSecond = elapsedSeconds > 0 ? (progress.transferredBytes - progress.startedAtBytes) / elapsedSeconds : 0;
+        if (bytesPerSecond <= 0) return null;
+        const remainingMs = (progress.totalBytes - progress.transferredBytes) / bytesPerSecond * 1000;
+        return t('sync.transferStats', { rate: formatBytes(bytesPerSecond), eta: formatDuration(remainingMs) });
+    };
+
+    const hasError = syncQueue.some(task => task.status === 'error') || syncConflicts.length > 0;
     
     let iconName = 'sync';
     let iconClass = '';
 
-    if (!isSignedIn) {
+    if (needsReauthentication) {
+        iconName = 'sync_lock';
+        iconClass = 'text-amber-600';
+    } else if (!isSyncAvailable) {
         iconName = 'sync_disabled';
     } else if (hasError) {
         if (isSyncActive) {
@@ -67,7 +91,7 @@ const SyncStatus: React.FC = () => {
             <button
                 type="button"
                 onClick={() => setIsOpen(!isOpen)}
-                disabled={!isSignedIn}
+                disabled={!isSyncAvailable && !needsReauthentication}
                 className="inline-flex items-center justify-center w-10 h-10 rounded-md border border-gray-300 shadow-sm bg-white text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
                 aria-label={t('sync.syncButton')}
                 aria-haspopup="true"
@@ -75,16 +99,60 @@ const SyncStatus: React.FC = () => {
             >
                 <i className={`material-icons ${iconClass}`}>{iconName}</i>
             </button>
-            {isOpen && isSignedIn && (
+            {isOpen && (isSyncAvailable || needsReauthentication) && (
                 <div
                     className="origin-top-right absolute right-0 mt-2 w-72 rounded-md shadow-lg bg-white ring-1 ring-black ring-opacity-5 focus:outline-none z-10"
                     role="menu"
                     aria-orientation="vertical"
                     aria-labelledby="menu-button"
                 >
-                    <div className="p-3 border-b border-gray-200">
+                    <div className="p-3 border-b border-gray-200 flex justify-between items-center">
                         <h3 className="text-base font-medium text-gray-900">{t('sync.syncStatus')}</h3>
+                        {syncQueue.length > 0 && (
+                            <button
+                                type="button"
+                                onClick={syncQueueService.cancelAllTasks}
+                                data-action="cancel-all-tasks"
+                                className="text-sm text-red-600 font-medium hover:underline"
+                            >
+                                {t('sync.cancelAll')}
+                            </button>
+                        )}
                     </div>
+                    {needsReauthentication && (
+                        <div className="px-3 py-2 border-b border-gray-200 bg-amber-50 text-sm" data-component="reauthentication-needed">
+                            <p className="text-amber-800">{t('sync.reauthenticationNeeded')}</p>
+                            <button type="button" onClick={signIn} data-action="google-reauthenticate" className="text-blue-600 font-medium hover:underline">
+                                {t('settings.signInAgain')}
+                            </button>
+                        </div>
+                    )}
+                    {syncConflicts.length > 0 && (
+                        <div className="px-3 py-2 border-b border-gray-200 bg-amber-50 text-sm" data-component="sync-conflicts-notice">
+                            <p className="text-amber-800">{t('sync.conflictsFound', { count: syncConflicts.length })}</p>
+                            <Link to="/settings/sync-conflicts" onClick={() => setIsOpen(false)} data-action="review-conflicts" className="text-blue-600 font-medium hover:underline">
+                                {t('sync.reviewConflicts')}
+                            </Link>
+                        </div>
+                    )}
+                    {isRemoteStorageFull && (
+                        <div className="px-3 py-2 border-b border-gray-200 bg-red-50 text-sm flex items-center gap-2" data-component="remote-storage-full">
+                            <i className="material-icons text-base text-red-700">cloud_off</i>
+                            <p className="text-red-800">{t('sync.remoteStorageFull')}</p>
+                        </div>
+                    )}
+                    {videosWaitingForWifi > 0 && (
+                        <div className="px-3 py-2 border-b border-gray-200 bg-blue-50 text-sm flex items-center gap-2" data-component="videos-waiting-for-wifi">
+                            <i className="material-icons text-base text-blue-700">wifi</i>
+                            <p className="text-blue-800">{t('sync.videosWaitingForWifi', { count: videosWaitingForWifi })}</p>
+                        </div>
+                    )}
+                    {lessonsWithoutVideo > 0 && (
+                        <div className="px-3 py-2 border-b border-gray-200 bg-amber-50 text-sm flex items-center gap-2" data-component="lessons-without-video">
+                            <i className="material-icons text-base text-amber-700">videocam_off</i>
+                            <p className="text-amber-800">{t('sync.lessonsWithoutVideo', { count: lessonsWithoutVideo })}</p>
+                        </div>
+                    )}
                     <div className="py-2 max-h-60 overflow-y-auto" role="none">
                         {syncQueue.length === 0 ? (
                             <div className="px-3 py-2 text-sm text-gray-500 text-center">{t('sync.noPendingTasks')}</div>
@@ -96,11 +164,54 @@ const SyncStatus: React.FC = () => {
                                         {task.status === 'error' && (
                                             <p className="text-red-600 text-xs truncate" title={task.error}>{task.error}</p>
                                         )}
+                                        {task.status === 'in-progress' && task.progress && (
+                                            <div data-component="sync-task-progress">
+                                                <p className="text-gray-500 text-xs truncate">
+                                                    {t(task.progress.direction === 'upload' ? 'sync.uploadProgress' : 'sync.downloadProgress', {
+                                                        name: task.progress.itemName ?? '',
+                                                        transferred: formatBytes(task.progress.transferredBytes),
+                                                        total: formatBytes(task.progress.totalBytes),
+                                                    })}
+                                                </p>
+                                                <div className="flex items-center gap-2 mt-1">
+                                                    <div className="flex-1 h-1 bg-gray-200 rounded-full overflow-hidden">
+                                                        <div
+                                                            className="h-full bg-blue-500"
+                                                            style={{ width: `${task.progress.totalBytes > 0 ? (task.progress.transferredBytes / task.progress.totalBytes) * 100 : 0}%` }}
+                                                        ></div>
+                                                    </div>
+                                                    <button
+                                                        type="button"
+                                                        onClick={syncQueueService.cancelTransfer}
+                                                        data-action="cancel-transfer"
+                                                        className="text-xs text-gray-500 hover:text-red-600 hover:underline flex-shrink-0"
+                                                    >
+                                                        {t('sync.cancelTransfer')}
+                                                    </button>
+                                                </div>
+                                                {getTransferStats(task.progress) && (
+                                                    <p className="text-gray-400 text-xs truncate">{getTransferStats(task.progress)}</p>
+                                                )}
+                                            </div>
+                                        )}
+                                        {task.status === 'pending' && task.nextAttemptAt && (
+                                            <p className="text-amber-600 text-xs truncate" title={task.error}>{getRetryLabel(task)}</p>
+                                        )}
                                     </div>
-                                    <div className="ml-2 flex-shrink-0">
+                                    <div className="ml-2 flex-shrink-0 flex items-center">
                                         {task.status === 'in-progress' && <i className="material-icons text-blue-500 animate-spin-reverse text-base">sync</i>}
-                                        {task.status === 'pending' && <i className="material-icons text-gray-400 text-base">hourglass_empty</i>}
+                                        {task.status === 'pending' && <i className="material-icons text-gray-400 text-base">{task.nextAttemptAt ? 'schedule' : 'hourglass_empty'}</i>}
                                         {task.status === 'error' && <i className="material-icons text-red-500 text-base">error_outline</i>}
+                                        <button
+                                            type="button"
+                                            onClick={() => syncQueueService.cancelTask(task.id)}
+                                            data-action="cancel-task"
+                                            title={t('sync.cancelTask')}
+                                            aria-label={t('sync.cancelTask')}
+                                            className="ml-1 text-gray-400 hover:text-red-600"
+                                        >
+                                            <i className="material-icons text-base">close</i>
+                                        </button>
                                     </div>
                                 </div>
                             ))
@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { useTranslation } from '../contexts/I18nContext';
+import { useGoogleDrive } from '../contexts/GoogleDriveContext';
+import { webDavStorageService, type WebDavState } from '../services/WebDavStorageService';
+
+const inputClasses = "mt-1 block w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm text-gray-900 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm";
+
+const WebDavSync: React.FC = () => {
+    const { t } = useTranslation();
+    const { isSyncActive } = useGoogleDrive();
+    const [state, setState] = useState<WebDavState>(webDavStorageService.getState());
+    const [serverUrl, setServerUrl] = useState('');
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+
+    useEffect(() => webDavStorageService.onStateChanged(setState), []);
+
+    const handleConnect = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            await webDavStorageService.connect({ serverUrl: serverUrl.trim(), username: username.trim(), password });
+            setPassword('');
+        } catch {
+            // The error is surfaced through the service state.
+        }
+    };
+
+    return (
+        <div className="space-y-4" data-component="WebDavSync">
+            {state.error && (
+                <p className="text-sm text-center p-2 rounded-md bg-red-100 text-red-700">
+                    {t('settings.webDavError', { error: state.error })}
+                </p>
+            )}
+
+            {state.isConnected ? (
+                <>
+                    <div className="flex items-center space-x-3 bg-gray-50 p-2.5 rounded-lg border border-gray-200">
+                        <i className="material-icons text-gray-500">cloud</i>
+                        <div className="text-sm overflow-hidden">
+                            <p className="font-semibold text-gray-800 truncate">{state.username}</p>
+                            <p className="text-gray-500 truncate">{state.serverUrl}</p>
+                        </div>
+                    </div>
+                    <p className="text-xs text-amber-700">{t('settings.webDavCredentialStored')}</p>
+                    <div className="space-y-3 sm:space-y-0 sm:flex sm:space-x-3">
+                        <button
+                            onClick={() => webDavStorageService.disconnect()}
+                            data-action="webdav-disconnect"
+                            disabled={isSyncActive}
+                            className="w-full sm:w-auto bg-white text-gray-700 border border-gray-300 font-bold py-2 px-4 rounded hover:bg-gray-100 transition-colors disabled:opacity-50"
+                        >
+                            {t('settings.webDavDisconnect')}
+                        </button>
+                    </div>
+                </>
+            ) : (
+                <form onSubmit={handleConnect} className="space-y-3">
+                    <div>
+                        <label htmlFor="webdav-url" className="block text-sm font-medium text-gray-700">{t('settings.webDavServerUrl')}</label>
+                        <input
+                            type="url"
+                            id="webdav-url"
+                            value={serverUrl}
+                            onChange={e => setServerUrl(e.target.value)}
+                            placeholder="https://cloud.example.com/remote.php/dav/files/me/BachataMoves"
+                            className={inputClasses}
+                            required
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="webdav-username" className="block text-sm font-medium text-gray-700">{t('settings.webDavUsername')}</label>
+                        <input type="text" id="webdav-username" value={username} onChange={e => setUsername(e.target.value)} autoComplete="username" className={inputClasses} required />
+                    </div>
+                    <div>
+                        <label htmlFor="webdav-password" className="block text-sm font-medium text-gray-700">{t('settings.webDavPassword')}</label>
+                        <input type="password" id="webdav-password" value={password} onChange={e => setPassword(e.target.value)} autoComplete="current-password" className={inputClasses} required />
+                        <p className="text-xs text-gray-500 mt-1">{t('settings.webDavPasswordHint')}</p>
+                        <p className="text-xs text-amber-700 mt-1">{t('settings.webDavCredentialStored')}</p>
+                    </div>
+                    <button
+                        type="submit"
+                        data-action="webdav-connect"
+                        disabled={state.isConnecting}
+                        className="w-full sm:w-auto bg-blue-500 text-white font-bold py-2 px-4 rounded hover:bg-blue-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                    >
+                        {state.isConnecting ? t('settings.webDavConnecting') : t('settings.webDavConnect')}
+                    </button>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default WebDavSync;
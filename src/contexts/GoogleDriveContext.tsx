@@ -2,18 +2,29 @@ import React, { useState, useEffect, useCallback, createContext, useContext, Rea
 import type { UserProfile } from '../api/GoogleIdentityAPI';
 import { syncQueueService, type SyncTask, type SyncTaskType } from '../services/SyncQueueService';
 import { googleDriveService, type AuthState } from '../services/GoogleDriveService';
+import { remoteStorageService } from '../services/RemoteStorageService';
+import { syncSchedulerService } from '../services/SyncSchedulerService';
+import { syncConflictService, type SyncConflict, type ConflictResolution } from '../services/SyncConflictService';
+import type { Figure } from '../types';
 
 interface GoogleDriveContextType {
   isGisReady: boolean;
   isSignedIn: boolean;
+  isSyncAvailable: boolean; // True when any remote storage backend (Google Drive or WebDAV) is connected
   userProfile: UserProfile | null;
   syncError: string | null;
+  needsReauthentication: boolean; // Sync is paused until the user signs in to Google again
   signIn: () => void;
   signOut: () => void;
   syncQueue: SyncTask[];
   isSyncActive: boolean;
   initiateSync: (type: 'lesson' | 'figure') => void;
   addTask: (type: SyncTaskType, payload?: any, isPriority?: boolean) => void;
+  syncConflicts: SyncConflict[];
+  videosWaitingForWifi: number;
+  lessonsWithoutVideo: number;
+  isRemoteStorageFull: boolean;
+  resolveConflict: (conflictId: string, resolution: ConflictResolution) => Promise<void>;
 }
 
 const GoogleDriveContext = createContext<GoogleDriveContextType | undefined>(undefined);
@@ -21,6 +32,11 @@ const GoogleDriveContext = createContext<GoogleDriveContextType | undefined>(und
 export const GoogleDriveProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [authState, setAuthState] = useState<AuthState>(googleDriveService.getAuthState());
   const [syncQueue, setSyncQueue] = useState<SyncTask[]>(syncQueueService.getQueue());
+  const [isSyncAvailable, setIsSyncAvailable] = useState<boolean>(remoteStorageService.isAvailable());
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>(syncConflictService.getConflicts());
+  const [videosWaitingForWifi, setVideosWaitingForWifi] = useState<number>(syncQueueService.getVideosWaitingForWifi());
+  const [lessonsWithoutVideo, setLessonsWithoutVideo] = useState<number>(syncQueueService.getLessonsWithoutVideo());
+  const [isRemoteStorageFull, setIsRemoteStorageFull] = useState<boolean>(syncQueueService.isRemoteStorageFull());
 
   useEffect(() => {
     googleDriveService.initialize();
@@ -28,42 +44,70 @@ export const GoogleDriveProvider: React.FC<{ children: ReactNode }> = ({ childre
     const unsubscribeAuth = googleDriveService.onAuthStateChanged(setAuthState);
     const unsubscribeQueue = syncQueueService.subscribe(() => {
       setSyncQueue([...syncQueueService.getQueue()]);
+      setVideosWaitingForWifi(syncQueueService.getVideosWaitingForWifi());
+      setLessonsWithoutVideo(syncQueueService.getLessonsWithoutVideo());
+      setIsRemoteStorageFull(syncQueueService.isRemoteStorageFull());
+    });
+    const unsubscribeRemoteStorage = remoteStorageService.onAvailabilityChanged(setIsSyncAvailable);
+    const unsubscribeConflicts = syncConflictService.subscribe(() => {
+      setSyncConflicts([...syncConflictService.getConflicts()]);
     });
 
     return () => {
       unsubscribeAuth();
       unsubscribeQueue();
+      unsubscribeRemoteStorage();
+      unsubscribeConflicts();
     };
   }, []);
 
-  // Effect to manage the sync queue processing based on auth state
+  // Effect to manage the sync queue processing and scheduled syncs based on remote storage availability
   useEffect(() => {
-    if (authState.isSignedIn) {
+    if (isSyncAvailable) {
       syncQueueService.startProcessing();
+      syncSchedulerService.start();
     } else {
       syncQueueService.stopProcessing();
+      syncSchedulerService.stop();
     }
-  }, [authState.isSignedIn]);
+  }, [isSyncAvailable]);
 
   const initiateSync = useCallback((type: 'lesson' | 'figure') => {
-    if (authState.isSignedIn) {
+    if (isSyncAvailable) {
       syncQueueService.addTask('sync-gallery', { type });
       syncQueueService.addTask('sync-grouping-config', { type });
     }
-  }, [authState.isSignedIn]);
+  }, [isSyncAvailable]);
+
+  const resolveConflict = useCallback(async (conflictId: string, resolution: ConflictResolution) => {
+    const resolved = await syncConflictService.resolveConflict(conflictId, resolution);
+    // Push the resolved version back to Drive if the result differs from the remote one.
+    if (resolved && isSyncAvailable) {
+      const taskType = resolution.strategy === 'keep-remote' ? 'download-item' : resolved.type === 'lesson' ? 'upload-lesson' : 'upload-figure';
+      const lessonId = resolved.type === 'figure' ? (resolved.local as Figure).lessonId : undefined;
+      syncQueueService.addTask(taskType, { type: resolved.type, itemId: resolved.id, lessonId }, true);
+    }
+  }, [isSyncAvailable]);
 
   const value = useMemo(() => ({
     isGisReady: authState.isGisReady,
     isSignedIn: authState.isSignedIn,
+    isSyncAvailable,
     userProfile: authState.userProfile,
     syncError: authState.error,
+    needsReauthentication: authState.needsReauthentication,
     signIn: googleDriveService.signIn,
     signOut: googleDriveService.signOut,
     syncQueue,
     isSyncActive: syncQueueService.getIsActive(),
     initiateSync,
     addTask: syncQueueService.addTask,
-  }), [authState, syncQueue, initiateSync]);
+    syncConflicts,
+    videosWaitingForWifi,
+    lessonsWithoutVideo,
+    isRemoteStorageFull,
+    resolveConflict,
+  }), [authState, isSyncAvailable, syncQueue, initiateSync, syncConflicts, videosWaitingForWifi, lessonsWithoutVideo, isRemoteStorageFull, resolveConflict]);
 
   return React.createElement(GoogleDriveContext.Provider, { value }, children);
 };
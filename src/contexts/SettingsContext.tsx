@@ -51,6 +51,18 @@ export interface AppSettings {
   figureFilter_excludedCategoryIds: string[];
   figureFilter_excludedSchoolIds: string[];
   figureFilter_excludedInstructorIds: string[];
+  // Selective Sync - which lesson videos this device downloads. Empty lists mean "all".
+  videoSync_maxAgeMonths: number | null;
+  videoSync_categoryIds: string[];
+  videoSync_schoolIds: string[];
+  videoSync_onDemand: boolean; // Metadata only: videos are fetched when first played or edited
+  videoSync_pinnedLessonIds: string[]; // Always kept on this device, whatever the rules say
+  videoEviction_auto: boolean; // Drop uploaded videos, least recently watched first, when storage runs low
+  videoSync_wifiOnly: boolean; // Defer video uploads and downloads while on a metered connection
+  videoSync_onMobileData: boolean; // Set by hand where the browser cannot tell the connection type
+  // Sync Schedule - automatic sync on app start, on an interval, on tab focus and on reconnecting
+  syncSchedule_enabled: boolean;
+  syncSchedule_intervalMinutes: number;
   // Sync settings - Timestamps for specific synced files
   lessonGroupingConfig_modifiedTime?: string;
   figureGroupingConfig_modifiedTime?: string;
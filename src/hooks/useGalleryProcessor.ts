@@ -16,7 +16,7 @@ type RawData<T> = T extends Lesson ?
 export const useGalleryProcessor = <T extends Lesson | Figure>(type: 'lesson' | 'figure') => {
     const { settings } = useSettings();
     const { locale } = useTranslation();
-    const { isSignedIn, addTask } = useGoogleDrive();
+    const { isSyncAvailable, addTask } = useGoogleDrive();
     const location = useLocation();
 
     // Raw data from DB, held in state
@@ -179,14 +179,14 @@ export const useGalleryProcessor = <T extends Lesson | Figure>(type: 'lesson' |
         return () => unsubscribe();
     }, [type, refreshGallery]);
     
-    // Effect 4: Trigger sync on initial gallery load, navigation, or login.
+    // Effect 4: Trigger sync on initial gallery load, navigation, or connecting remote storage.
     useEffect(() => {
         const currentPath = type === 'lesson' ? '/lessons' : '/figures';
-        if (location.pathname === currentPath && isSignedIn && !location.state?.skipSync) {
+        if (location.pathname === currentPath && isSyncAvailable && !location.state?.skipSync) {
             addTask('sync-grouping-config', { type }, true);
             addTask('sync-gallery', { type });
         }
-    }, [location.pathname, isSignedIn, type, addTask, location.state?.skipSync]);
+    }, [location.pathname, isSyncAvailable, type, addTask, location.state?.skipSync]);
 
     const filterOptions = useMemo(() => {
         if (!rawData) return { years: [], categories: [], schools: [], instructors: [] };
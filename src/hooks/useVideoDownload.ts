@@ -0,0 +1,34 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Lesson } from '../types';
+import { useSettings } from '../contexts/SettingsContext';
+import { videoDownloadService, type VideoDownloadState } from '../services/VideoDownloadService';
+
+/**
+ * Tracks the on-demand download of a lesson's video and whether it is pinned for offline use.
+ * Figure cards pass their parent lesson, since figures share its video.
+ */
+export const useVideoDownload = (lesson: Lesson | null | undefined) => {
+    const { settings } = useSettings();
+    const lessonId = lesson?.id;
+    const [downloadState, setDownloadState] = useState<VideoDownloadState | null>(lessonId ? videoDownloadService.getState(lessonId) : null);
+
+    useEffect(() => {
+        if (!lessonId) return;
+        setDownloadState(videoDownloadService.getState(lessonId));
+        return videoDownloadService.subscribe(() => setDownloadState(videoDownloadService.getState(lessonId)));
+    }, [lessonId]);
+
+    const downloadVideo = useCallback(() => {
+        if (!lessonId) return;
+        videoDownloadService.ensureVideo(lessonId).catch(err => console.error(`Failed to download the video of lesson ${lessonId}:`, err));
+    }, [lessonId]);
+
+    const isPinned = !!lessonId && settings.videoSync_pinnedLessonIds.includes(lessonId);
+
+    const togglePinned = useCallback(() => {
+        if (!lessonId) return;
+        videoDownloadService.setPinned(lessonId, !isPinned).catch(console.error);
+    }, [lessonId, isPinned]);
+
+    return { downloadState, isDownloading: downloadState?.status === 'downloading', downloadVideo, isPinned, togglePinned };
+};
@@ -42,6 +42,8 @@ export const en = {
     emptyFiguresTitle: 'No Figures Created Yet',
     emptyFiguresDescription: 'Figures are short clips from your lesson videos. Add a lesson first, then you can create figures.',
     addFirstFigure: 'Add First Figure',
+    awaitingLessonTitle: 'Waiting for their lessons',
+    awaitingLesson: 'Its lesson has not synced yet',
   },
   sort: {
     newest: 'Newest',
@@ -74,11 +76,117 @@ export const en = {
     statusPending: 'Pending',
     statusInProgress: 'In Progress',
     statusError: 'Error',
+    retryScheduled: 'Retry #{attempt} at {time}',
+    uploadProgress: 'Uploading {name}: {transferred} of {total}',
+    downloadProgress: 'Downloading {name}: {transferred} of {total}',
+    transferStats: '{rate}/s, about {eta} left',
+    cancelTransfer: 'Cancel',
+    cancelTask: 'Cancel task',
+    cancelAll: 'Cancel all',
+    videosWaitingForWifi: '{count} video(s) waiting for Wi-Fi',
+    lessonsWithoutVideo: '{count} lesson(s) cannot be uploaded: their video was kept only in the previous cloud storage and is not on this device.',
+    reauthenticationNeeded: 'Sign in to Google again to resume syncing.',
+    remoteStorageFull: 'Your cloud storage is full. Free up space to continue uploading.',
     task_sync_gallery: 'Syncing {type} gallery',
     task_sync_grouping_config: 'Syncing {type} configuration',
+    task_upload_lesson: 'Uploading a lesson',
+    task_upload_figure: 'Uploading a figure',
+    task_delete_remote_lesson: 'Deleting a lesson from the cloud',
+    task_delete_remote_figure: 'Deleting a figure from the cloud',
+    task_download_item_lesson: 'Downloading a lesson',
+    task_download_item_figure: 'Downloading a figure',
     type_lesson: 'Lessons',
     type_figure: 'Figures',
     syncingSettings: 'Syncing settings...',
+    conflictsFound: '{count} item(s) need your attention',
+    reviewConflicts: 'Review conflicts',
+  },
+  syncConflicts: {
+    title: 'Sync Conflicts',
+    noConflicts: 'There are no conflicts to resolve.',
+    description: 'These items were changed both on this device and on another one since the last sync. Choose which version to keep for each field.',
+    lessonLabel: 'Lesson',
+    figureLabel: 'Figure',
+    field: 'Field',
+    localVersion: 'This device',
+    remoteVersion: 'Google Drive',
+    emptyValue: '(empty)',
+    clashing: 'Both changed',
+    clashingHint: 'This field was changed differently on both devices.',
+    keepLocal: 'Keep this device',
+    keepRemote: 'Keep Google Drive',
+    merge: 'Merge selected',
+    resolving: 'Resolving...',
+    field_uploadDate: 'Lesson Date',
+    field_name: 'Name',
+    field_description: 'Description',
+    field_startTime: 'Start Time (sec)',
+    field_endTime: 'End Time (sec)',
+    field_thumbTime: 'Thumbnail (sec)',
+    field_categoryId: 'Category',
+    field_schoolId: 'School',
+    field_instructorId: 'Instructor',
+  },
+  syncPreview: {
+    title: 'Sync Preview',
+    loading: 'Comparing with remote storage...',
+    error: 'Could not prepare the preview: {error}',
+    description: 'Nothing has been changed yet. Untick the items you want to leave for a later sync.',
+    nothingToSync: 'Everything is already in sync.',
+    inSync: '{count} items are already in sync.',
+    summary: '{count} selected, {size} to transfer',
+    videoSize: '{size} video',
+    lessonLabel: 'Lesson',
+    figureLabel: 'Figure',
+    unknownItem: 'Unknown item',
+    action_upload: 'Upload',
+    action_download: 'Download',
+    action_deleteRemote: 'Delete from remote storage',
+    action_deleteLocal: 'Delete from this device',
+    action_merge: 'Merge changes from both devices',
+    sync: 'Sync {count} items',
+    starting: 'Starting...',
+  },
+  syncHistory: {
+    title: 'Sync History',
+    empty: 'No sync activity has been recorded yet.',
+    noMatches: 'No entries match the current filters.',
+    search: 'Search by name or id',
+    filterAction: 'Action',
+    filterGallery: 'Gallery',
+    all: 'All',
+    lessons: 'Lessons',
+    figures: 'Figures',
+    groupingConfig: 'Grouping settings',
+    showMore: 'Show more',
+    clear: 'Clear history',
+    action_upload: 'Uploaded',
+    action_download: 'Downloaded',
+    action_deleteRemote: 'Deleted remotely',
+    action_deleteLocal: 'Deleted from this device',
+    action_merge: 'Merged',
+    action_conflict: 'Conflict',
+    action_skip: 'Skipped',
+    action_fail: 'Failed',
+    reason_localChange: 'Changed on this device',
+    reason_remoteChange: 'Changed on another device',
+    reason_deletedLocally: 'Deleted on this device',
+    reason_deletedRemotely: 'Deleted on another device',
+    reason_mergedAutomatically: 'Edits from both devices were merged',
+    reason_bothChanged: 'Changed on both devices',
+    reason_unresolvedConflict: 'Waiting for a conflict to be resolved',
+    reason_notApproved: 'Left out of a previewed sync',
+    reason_downloadIncomplete: 'Could not be downloaded completely',
+    reason_groupingConfigChanged: 'Grouping settings changed',
+    reason_excludedBySyncRules: 'Video left in the cloud by the selective sync rules',
+    reason_syncRuleMatched: 'Video now matches the selective sync rules',
+    reason_cancelled: 'Cancelled by the user',
+    reason_waitingForWifi: 'Video waiting for Wi-Fi',
+    reason_orphaned: 'No longer used by any lesson',
+    reason_storageFull: 'The cloud storage is full',
+    reason_awaitingLesson: 'Waiting for its lesson to sync first',
+    reason_videoNotOnDevice: 'Its video is not on this device',
+    reason_error: 'An error occurred',
   },
   customizeCategories: {
     title: 'Customize Grouping',
@@ -109,6 +217,13 @@ export const en = {
     thumbNotAvailable: 'Thumbnail not available',
     videoNotAvailable: 'Video not available (lesson missing)',
     videoNotLoaded: 'Video could not be loaded.',
+    cloudOnly: 'Cloud only',
+    cloudOnlyHint: 'The video is not on this device. Tap to download it.',
+    downloadingVideo: 'Downloading video...',
+    downloadingVideoPercent: 'Downloading video... {percent}%',
+    videoDownloadFailed: 'The video could not be downloaded: {error}',
+    keepOffline: 'Keep offline',
+    pinnedOffline: 'Kept offline on this device',
   },
   settings: {
     title: 'Settings',
@@ -131,11 +246,102 @@ export const en = {
     syncData: 'Sync Data',
     syncing: 'Syncing...',
     signOut: 'Sign Out',
+    reauthenticationNeeded: 'Your Google sign-in has expired. Sync is paused until you sign in again.',
+    signInAgain: 'Sign in again',
     syncInitializing: 'Initializing Google Sync...',
     syncError: 'Sync Error: {error}',
     syncInProgress: 'Sync in progress... {progress}%',
     syncComplete: 'Sync complete.',
     syncFailed: 'Sync failed. Please try again.',
+    webDavSync: 'WebDAV Sync',
+    webDavSyncDesc: 'Sync with your own Nextcloud or WebDAV server instead of Google Drive. Once connected, choose it under Sync Storage.',
+    webDavServerUrl: 'Folder URL',
+    webDavUsername: 'Username',
+    webDavPassword: 'Password',
+    webDavPasswordHint: 'Use an app password if your server supports them.',
+    webDavCredentialStored: 'Your password is saved on this device in a form that can be turned back into the password. It is encoded, not encrypted, so anyone with access to this browser can recover it until you disconnect.',
+    webDavConnect: 'Connect',
+    webDavConnecting: 'Connecting...',
+    webDavDisconnect: 'Disconnect',
+    webDavError: 'WebDAV Error: {error}',
+    remoteStorage: 'Sync Storage',
+    remoteStorageDesc: 'Choose which of your connected storages this device syncs with.',
+    remoteStorageGoogleDrive: 'Google Drive',
+    remoteStorageWebDav: 'WebDAV',
+    remoteStorageSelected: 'This device syncs with {name}.',
+    remoteStorageNotConnected: 'This device syncs with {name}, which is not connected. Sync is paused until you connect it or choose another storage.',
+    remoteStorageUse: 'Sync with {name} instead',
+    remoteStorageSwitchTitle: 'Switch sync to {name}?',
+    remoteStorageSwitchBody: 'This device forgets what it synced with {previous}: links to its files and unresolved conflicts are cleared, and everything is then synced with {name} as if for the first time. Videos kept only in {previous} are downloaded first if your video sync settings keep them on this device; other lessons lose their video in {name}.',
+    remoteStorageSwitch: 'Switch',
+    syncPreview: 'Preview Sync',
+    syncPreviewDesc: 'See what the next sync would upload, download or delete, and choose what to include.',
+    syncHistory: 'Sync History',
+    syncHistoryDesc: 'See what past syncs uploaded, downloaded, deleted or skipped, and why.',
+    syncSchedule: 'Automatic Sync',
+    syncScheduleDesc: 'Your changes are always synced shortly after you make them. Choose when this device also checks for changes made elsewhere.',
+    scheduledSync: 'Sync automatically',
+    scheduledSyncDesc: 'When the app starts, on the interval below, when you return to the app and when the device comes back online.',
+    syncInterval: 'Sync every',
+    syncIntervalMinutes: '{count} minutes',
+    selectiveSync: 'Selective Sync',
+    selectiveSyncDesc: 'Choose which lesson videos this device downloads. Lesson details and figures always sync; other lessons stay in the cloud.',
+    selectiveSyncMode: 'Download videos',
+    selectiveSyncModeRules: 'Automatically, for lessons matching the rules below',
+    selectiveSyncModeOnDemand: 'Only when played or edited',
+    selectiveSyncPinnedNote: 'Lessons you keep offline are always downloaded.',
+    selectiveSyncMaxAge: 'Lessons from',
+    selectiveSyncAllTime: 'All time',
+    selectiveSyncLastMonths: 'The last {count} month(s)',
+    selectiveSyncCategories: 'Categories',
+    selectiveSyncSchools: 'Schools',
+    selectiveSyncEmptyMeansAll: 'Leave all unchecked to include every lesson.',
+    mobileData: 'Mobile Data',
+    mobileDataDesc: 'Save mobile data by leaving video uploads and downloads for Wi-Fi. Lesson details and figures still sync.',
+    wifiOnly: 'Transfer videos only on Wi-Fi',
+    wifiOnlyDesc: 'Videos wait while this device is on a metered connection.',
+    onMobileData: "I'm on mobile data",
+    onMobileDataDesc: 'This browser cannot tell the connection type. Turn this on while you use mobile data.',
+    connectionMetered: 'This device is on a metered connection. Videos are waiting for Wi-Fi.',
+    connectionUnmetered: 'This device is on Wi-Fi or another unmetered connection.',
+    offlineVideos: 'Offline Videos',
+    offlineVideosDesc: 'Remove local copies of videos that are already in the cloud. Lessons, thumbnails and figures stay, and a video downloads again when you play it.',
+    autoEviction: 'Free up space automatically',
+    autoEvictionDesc: 'When storage runs low, remove the least recently watched videos first. Videos you keep offline are never removed.',
+    freeUpSpace: 'Free up space',
+    freeingUpSpace: 'Freeing up space...',
+    freeUpSpaceSummary: '{count} video(s) using {size} can be removed from this device.',
+    freeUpSpaceNothing: 'No videos can be removed from this device.',
+    freeUpSpaceDone: 'Freed {size}.',
+    freeUpSpaceError: 'Could not free up space: {error}',
+    storage: 'Storage',
+    storageDesc: 'See how much space the library takes on this device.',
+    storageUsedOfQuota: '{used} used of {quota} available to the app',
+    storageEstimateUnavailable: 'This browser does not report storage usage.',
+    storageVideos: 'Videos',
+    storageLessonThumbnails: 'Lesson thumbnails',
+    storageFigureThumbnails: 'Figure thumbnails',
+    storageLargestLessons: 'Largest lessons',
+    storagePersisted: 'Storage is persistent. The browser will not clear the library to free space.',
+    storageRequestPersistence: 'Make storage persistent',
+    storagePersistenceHint: 'Without persistent storage the browser may clear the library when the device runs low on space.',
+    storagePersistenceDenied: 'The browser declined. Installing the app or using it more often can help it agree.',
+    remoteCleanup: 'Cloud Cleanup',
+    remoteCleanupDesc: 'Find videos, thumbnails and figures in the cloud that no lesson uses any more, and old deletion records on this device.',
+    cleanupScan: 'Scan for unused files',
+    cleanupScanning: 'Scanning...',
+    cleanupVideos: 'Unused videos',
+    cleanupThumbnails: 'Unused thumbnails',
+    cleanupFigures: 'Figures of deleted lessons',
+    cleanupTombstones: 'Old deletion records',
+    cleanupTotalSize: '{size} can be freed in the cloud.',
+    cleanupNothingFound: 'Nothing to clean up.',
+    cleanupRun: 'Clean up',
+    cleanupConfirmTitle: 'Delete unused files?',
+    cleanupConfirmBody: '{count} file(s) will be deleted from the cloud for every device.',
+    cleanupDone: 'Deleted {files} file(s) and removed {tombstones} deletion record(s).',
+    cleanupSomeFailed: '{count} file(s) could not be deleted.',
+    cleanupError: 'Cleanup failed: {error}',
     account: 'Account',
     accountDesc: 'Manage your account settings.',
     deleteAccount: 'Delete Account',
@@ -266,6 +472,8 @@ export const pl = {
     emptyFiguresTitle: 'Nie utworzono jeszcze żadnych figur',
     emptyFiguresDescription: 'Figury to krótkie klipy z Twoich filmów z lekcji. Najpierw dodaj lekcję, a następnie możesz tworzyć figury.',
     addFirstFigure: 'Dodaj pierwszą figurę',
+    awaitingLessonTitle: 'Oczekujące na lekcje',
+    awaitingLesson: 'Lekcja nie została jeszcze zsynchronizowana',
   },
   sort: {
     newest: 'Najnowsze',
@@ -298,11 +506,117 @@ export const pl = {
     statusPending: 'Oczekujące',
     statusInProgress: 'W toku',
     statusError: 'Błąd',
+    retryScheduled: 'Ponowienie nr {attempt} o {time}',
+    uploadProgress: 'Wysyłanie {name}: {transferred} z {total}',
+    downloadProgress: 'Pobieranie {name}: {transferred} z {total}',
+    transferStats: '{rate}/s, pozostało ok. {eta}',
+    cancelTransfer: 'Anuluj',
+    cancelTask: 'Anuluj zadanie',
+    cancelAll: 'Anuluj wszystko',
+    videosWaitingForWifi: 'Filmy czekające na Wi-Fi: {count}',
+    lessonsWithoutVideo: 'Nie można wysłać lekcji: {count}. Ich film był przechowywany tylko w poprzedniej chmurze i nie ma go na tym urządzeniu.',
+    reauthenticationNeeded: 'Zaloguj się ponownie do Google, aby wznowić synchronizację.',
+    remoteStorageFull: 'Miejsce w chmurze się skończyło. Zwolnij miejsce, aby kontynuować wysyłanie.',
     task_sync_gallery: 'Synchronizowanie galerii ({type})',
     task_sync_grouping_config: 'Synchronizowanie konfiguracji ({type})',
+    task_upload_lesson: 'Wysyłanie lekcji',
+    task_upload_figure: 'Wysyłanie figury',
+    task_delete_remote_lesson: 'Usuwanie lekcji z chmury',
+    task_delete_remote_figure: 'Usuwanie figury z chmury',
+    task_download_item_lesson: 'Pobieranie lekcji',
+    task_download_item_figure: 'Pobieranie figury',
     type_lesson: 'Lekcje',
     type_figure: 'Figury',
     syncingSettings: 'Synchronizowanie ustawień...',
+    conflictsFound: 'Elementy wymagające uwagi: {count}',
+    reviewConflicts: 'Przejrzyj konflikty',
+  },
+  syncConflicts: {
+    title: 'Konflikty synchronizacji',
+    noConflicts: 'Brak konfliktów do rozwiązania.',
+    description: 'Te elementy zostały zmienione zarówno na tym urządzeniu, jak i na innym od ostatniej synchronizacji. Wybierz, którą wersję zachować dla każdego pola.',
+    lessonLabel: 'Lekcja',
+    figureLabel: 'Figura',
+    field: 'Pole',
+    localVersion: 'To urządzenie',
+    remoteVersion: 'Dysk Google',
+    emptyValue: '(puste)',
+    clashing: 'Zmienione na obu',
+    clashingHint: 'To pole zostało zmienione inaczej na obu urządzeniach.',
+    keepLocal: 'Zachowaj z tego urządzenia',
+    keepRemote: 'Zachowaj z Dysku Google',
+    merge: 'Scal wybrane',
+    resolving: 'Rozwiązywanie...',
+    field_uploadDate: 'Data lekcji',
+    field_name: 'Nazwa',
+    field_description: 'Opis',
+    field_startTime: 'Czas rozpoczęcia (sek)',
+    field_endTime: 'Czas zakończenia (sek)',
+    field_thumbTime: 'Miniatura (sek)',
+    field_categoryId: 'Kategoria',
+    field_schoolId: 'Szkoła',
+    field_instructorId: 'Instruktor',
+  },
+  syncPreview: {
+    title: 'Podgląd synchronizacji',
+    loading: 'Porównywanie z magazynem zdalnym...',
+    error: 'Nie udało się przygotować podglądu: {error}',
+    description: 'Nic jeszcze nie zostało zmienione. Odznacz elementy, które chcesz zostawić na późniejszą synchronizację.',
+    nothingToSync: 'Wszystko jest już zsynchronizowane.',
+    inSync: 'Zsynchronizowane elementy: {count}.',
+    summary: 'Wybrano: {count}, do przesłania: {size}',
+    videoSize: 'wideo {size}',
+    lessonLabel: 'Lekcja',
+    figureLabel: 'Figura',
+    unknownItem: 'Nieznany element',
+    action_upload: 'Wyślij',
+    action_download: 'Pobierz',
+    action_deleteRemote: 'Usuń z magazynu zdalnego',
+    action_deleteLocal: 'Usuń z tego urządzenia',
+    action_merge: 'Scal zmiany z obu urządzeń',
+    sync: 'Synchronizuj ({count})',
+    starting: 'Uruchamianie...',
+  },
+  syncHistory: {
+    title: 'Historia synchronizacji',
+    empty: 'Nie zarejestrowano jeszcze żadnej synchronizacji.',
+    noMatches: 'Żaden wpis nie pasuje do filtrów.',
+    search: 'Szukaj po nazwie lub id',
+    filterAction: 'Akcja',
+    filterGallery: 'Galeria',
+    all: 'Wszystkie',
+    lessons: 'Lekcje',
+    figures: 'Figury',
+    groupingConfig: 'Ustawienia grupowania',
+    showMore: 'Pokaż więcej',
+    clear: 'Wyczyść historię',
+    action_upload: 'Wysłano',
+    action_download: 'Pobrano',
+    action_deleteRemote: 'Usunięto zdalnie',
+    action_deleteLocal: 'Usunięto z tego urządzenia',
+    action_merge: 'Scalono',
+    action_conflict: 'Konflikt',
+    action_skip: 'Pominięto',
+    action_fail: 'Błąd',
+    reason_localChange: 'Zmieniono na tym urządzeniu',
+    reason_remoteChange: 'Zmieniono na innym urządzeniu',
+    reason_deletedLocally: 'Usunięto na tym urządzeniu',
+    reason_deletedRemotely: 'Usunięto na innym urządzeniu',
+    reason_mergedAutomatically: 'Scalono zmiany z obu urządzeń',
+    reason_bothChanged: 'Zmieniono na obu urządzeniach',
+    reason_unresolvedConflict: 'Oczekuje na rozwiązanie konfliktu',
+    reason_notApproved: 'Pominięto w podglądzie synchronizacji',
+    reason_downloadIncomplete: 'Nie udało się pobrać w całości',
+    reason_groupingConfigChanged: 'Zmieniono ustawienia grupowania',
+    reason_excludedBySyncRules: 'Film pozostawiono w chmurze zgodnie z regułami synchronizacji wybiórczej',
+    reason_syncRuleMatched: 'Film pasuje teraz do reguł synchronizacji wybiórczej',
+    reason_cancelled: 'Anulowane przez użytkownika',
+    reason_waitingForWifi: 'Film czeka na Wi-Fi',
+    reason_orphaned: 'Nieużywane przez żadną lekcję',
+    reason_storageFull: 'Brak miejsca w chmurze',
+    reason_awaitingLesson: 'Czeka na synchronizację swojej lekcji',
+    reason_videoNotOnDevice: 'Filmu nie ma na tym urządzeniu',
+    reason_error: 'Wystąpił błąd',
   },
   customizeCategories: {
     title: 'Dostosuj grupowanie',
@@ -333,6 +647,13 @@ export const pl = {
     thumbNotAvailable: 'Miniatura niedostępna',
     videoNotAvailable: 'Wideo niedostępne (brak lekcji)',
     videoNotLoaded: 'Nie udało się załadować wideo.',
+    cloudOnly: 'Tylko w chmurze',
+    cloudOnlyHint: 'Filmu nie ma na tym urządzeniu. Stuknij, aby go pobrać.',
+    downloadingVideo: 'Pobieranie filmu...',
+    downloadingVideoPercent: 'Pobieranie filmu... {percent}%',
+    videoDownloadFailed: 'Nie udało się pobrać filmu: {error}',
+    keepOffline: 'Zachowaj offline',
+    pinnedOffline: 'Zachowany offline na tym urządzeniu',
   },
   settings: {
     title: 'Ustawienia',
@@ -355,11 +676,102 @@ export const pl = {
     syncData: 'Synchronizuj dane',
     syncing: 'Synchronizowanie...',
     signOut: 'Wyloguj się',
+    reauthenticationNeeded: 'Logowanie do Google wygasło. Synchronizacja jest wstrzymana do ponownego zalogowania.',
+    signInAgain: 'Zaloguj się ponownie',
     syncInitializing: 'Inicjowanie synchronizacji z Google...',
     syncError: 'Błąd synchronizacji: {error}',
     syncInProgress: 'Synchronizacja w toku... {progress}%',
     syncComplete: 'Synchronizacja ukończona.',
     syncFailed: 'Synchronizacja nie powiodła się. Proszę spróbować ponownie.',
+    webDavSync: 'Synchronizacja WebDAV',
+    webDavSyncDesc: 'Synchronizuj z własnym serwerem Nextcloud lub WebDAV zamiast Dysku Google. Po połączeniu wybierz go w sekcji Miejsce synchronizacji.',
+    webDavServerUrl: 'Adres URL folderu',
+    webDavUsername: 'Nazwa użytkownika',
+    webDavPassword: 'Hasło',
+    webDavPasswordHint: 'Użyj hasła aplikacji, jeśli serwer je obsługuje.',
+    webDavCredentialStored: 'Hasło jest zapisywane na tym urządzeniu w postaci, z której można je odczytać. Jest zakodowane, a nie zaszyfrowane, więc każdy z dostępem do tej przeglądarki może je odzyskać do czasu rozłączenia.',
+    webDavConnect: 'Połącz',
+    webDavConnecting: 'Łączenie...',
+    webDavDisconnect: 'Rozłącz',
+    webDavError: 'Błąd WebDAV: {error}',
+    remoteStorage: 'Miejsce synchronizacji',
+    remoteStorageDesc: 'Wybierz, z którym z połączonych miejsc synchronizuje się to urządzenie.',
+    remoteStorageGoogleDrive: 'Dysk Google',
+    remoteStorageWebDav: 'WebDAV',
+    remoteStorageSelected: 'To urządzenie synchronizuje się z: {name}.',
+    remoteStorageNotConnected: 'To urządzenie synchronizuje się z: {name}, ale nie jest ono połączone. Synchronizacja jest wstrzymana do czasu połączenia lub wyboru innego miejsca.',
+    remoteStorageUse: 'Synchronizuj z: {name}',
+    remoteStorageSwitchTitle: 'Przełączyć synchronizację na: {name}?',
+    remoteStorageSwitchBody: 'To urządzenie zapomni, co zsynchronizowało z: {previous}. Powiązania z plikami i nierozwiązane konflikty zostaną usunięte, a wszystko zostanie zsynchronizowane z: {name} jak za pierwszym razem. Filmy przechowywane tylko w: {previous} zostaną najpierw pobrane, jeśli ustawienia synchronizacji filmów zachowują je na tym urządzeniu; pozostałe lekcje nie będą miały filmu w: {name}.',
+    remoteStorageSwitch: 'Przełącz',
+    syncPreview: 'Podgląd synchronizacji',
+    syncPreviewDesc: 'Zobacz, co następna synchronizacja wyśle, pobierze lub usunie, i wybierz, co uwzględnić.',
+    syncHistory: 'Historia synchronizacji',
+    syncHistoryDesc: 'Zobacz, co poprzednie synchronizacje wysłały, pobrały, usunęły lub pominęły, i dlaczego.',
+    syncSchedule: 'Automatyczna synchronizacja',
+    syncScheduleDesc: 'Twoje zmiany są zawsze synchronizowane chwilę po ich wprowadzeniu. Wybierz, kiedy to urządzenie ma też sprawdzać zmiany wprowadzone gdzie indziej.',
+    scheduledSync: 'Synchronizuj automatycznie',
+    scheduledSyncDesc: 'Przy uruchomieniu aplikacji, w poniższym odstępie czasu, po powrocie do aplikacji i po odzyskaniu połączenia.',
+    syncInterval: 'Synchronizuj co',
+    syncIntervalMinutes: '{count} min',
+    selectiveSync: 'Synchronizacja wybiórcza',
+    selectiveSyncDesc: 'Wybierz, które filmy lekcji to urządzenie pobiera. Szczegóły lekcji i figury synchronizują się zawsze; pozostałe lekcje zostają w chmurze.',
+    selectiveSyncMode: 'Pobieranie filmów',
+    selectiveSyncModeRules: 'Automatycznie, dla lekcji pasujących do poniższych reguł',
+    selectiveSyncModeOnDemand: 'Tylko przy odtwarzaniu lub edycji',
+    selectiveSyncPinnedNote: 'Lekcje zachowane offline są pobierane zawsze.',
+    selectiveSyncMaxAge: 'Lekcje z okresu',
+    selectiveSyncAllTime: 'Cały czas',
+    selectiveSyncLastMonths: 'Ostatnie miesiące: {count}',
+    selectiveSyncCategories: 'Kategorie',
+    selectiveSyncSchools: 'Szkoły',
+    selectiveSyncEmptyMeansAll: 'Pozostaw wszystko niezaznaczone, aby uwzględnić każdą lekcję.',
+    mobileData: 'Dane komórkowe',
+    mobileDataDesc: 'Oszczędzaj dane komórkowe, zostawiając wysyłanie i pobieranie filmów na Wi-Fi. Szczegóły lekcji i figury nadal się synchronizują.',
+    wifiOnly: 'Przesyłaj filmy tylko przez Wi-Fi',
+    wifiOnlyDesc: 'Filmy czekają, gdy to urządzenie korzysta z połączenia taryfowego.',
+    onMobileData: 'Korzystam z danych komórkowych',
+    onMobileDataDesc: 'Ta przeglądarka nie rozpoznaje typu połączenia. Włącz tę opcję, gdy korzystasz z danych komórkowych.',
+    connectionMetered: 'To urządzenie korzysta z połączenia taryfowego. Filmy czekają na Wi-Fi.',
+    connectionUnmetered: 'To urządzenie korzysta z Wi-Fi lub innego połączenia bez limitu.',
+    offlineVideos: 'Filmy offline',
+    offlineVideosDesc: 'Usuń lokalne kopie filmów, które są już w chmurze. Lekcje, miniatury i figury pozostaną, a film pobierze się ponownie przy odtwarzaniu.',
+    autoEviction: 'Automatycznie zwalniaj miejsce',
+    autoEvictionDesc: 'Gdy kończy się miejsce, usuwaj najpierw najdawniej oglądane filmy. Filmy zachowane offline nigdy nie są usuwane.',
+    freeUpSpace: 'Zwolnij miejsce',
+    freeingUpSpace: 'Zwalnianie miejsca...',
+    freeUpSpaceSummary: 'Filmy do usunięcia z tego urządzenia: {count} ({size}).',
+    freeUpSpaceNothing: 'Żadnych filmów nie można usunąć z tego urządzenia.',
+    freeUpSpaceDone: 'Zwolniono {size}.',
+    freeUpSpaceError: 'Nie udało się zwolnić miejsca: {error}',
+    storage: 'Pamięć',
+    storageDesc: 'Zobacz, ile miejsca zajmuje biblioteka na tym urządzeniu.',
+    storageUsedOfQuota: 'Użyto {used} z {quota} dostępnych dla aplikacji',
+    storageEstimateUnavailable: 'Ta przeglądarka nie podaje użycia pamięci.',
+    storageVideos: 'Filmy',
+    storageLessonThumbnails: 'Miniatury lekcji',
+    storageFigureThumbnails: 'Miniatury figur',
+    storageLargestLessons: 'Największe lekcje',
+    storagePersisted: 'Pamięć jest trwała. Przeglądarka nie wyczyści biblioteki, aby zwolnić miejsce.',
+    storageRequestPersistence: 'Ustaw trwałą pamięć',
+    storagePersistenceHint: 'Bez trwałej pamięci przeglądarka może wyczyścić bibliotekę, gdy na urządzeniu zabraknie miejsca.',
+    storagePersistenceDenied: 'Przeglądarka odmówiła. Instalacja aplikacji lub częstsze korzystanie z niej może pomóc.',
+    remoteCleanup: 'Porządki w chmurze',
+    remoteCleanupDesc: 'Znajdź filmy, miniatury i figury w chmurze, których żadna lekcja już nie używa, oraz stare zapisy usunięć na tym urządzeniu.',
+    cleanupScan: 'Wyszukaj nieużywane pliki',
+    cleanupScanning: 'Wyszukiwanie...',
+    cleanupVideos: 'Nieużywane filmy',
+    cleanupThumbnails: 'Nieużywane miniatury',
+    cleanupFigures: 'Figury usuniętych lekcji',
+    cleanupTombstones: 'Stare zapisy usunięć',
+    cleanupTotalSize: 'Można zwolnić {size} w chmurze.',
+    cleanupNothingFound: 'Nie ma nic do uporządkowania.',
+    cleanupRun: 'Uporządkuj',
+    cleanupConfirmTitle: 'Usunąć nieużywane pliki?',
+    cleanupConfirmBody: 'Liczba plików, które zostaną usunięte z chmury dla wszystkich urządzeń: {count}.',
+    cleanupDone: 'Usunięto pliki: {files}, zapisy usunięć: {tombstones}.',
+    cleanupSomeFailed: 'Nie udało się usunąć plików: {count}.',
+    cleanupError: 'Porządkowanie nie powiodło się: {error}',
     account: 'Konto',
     accountDesc: 'Zarządzaj ustawieniami swojego konta.',
     deleteAccount: 'Usuń konto',
@@ -78,6 +78,12 @@ class BackupServiceImpl implements BackupService {
             }
             return entries;
         };
+
+        // Videos are kept as files outside IndexedDB; each is read from disk only when it is written out.
+        const getVideoEntries = async (): Promise<[IDBValidKey, () => Promise<Blob | undefined>][]> => {
+            const videoIds = await localDatabaseService.getStoredVideoIds();
+            return videoIds.map(videoId => [videoId, () => localDatabaseService.getVideoBlob(videoId)]);
+        };
         
         // Fetch all non-blob data first
         logger.info('Fetching metadata from IndexedDB...');
@@ -126,15 +132,22 @@ class BackupServiceImpl implements BackupService {
                 logger.info(`Streaming blob store: ${storeName}`);
                 onStatusUpdate?.('settings.exportStatusWriting', { item: storeName });
                 await writable.write(encoder.encode(`, "${storeName}":[`));
-                const entries = await getAllEntries<Blob>(storeId);
+                const entries = storeId === VIDEO_FILES_STORE
+                    ? await getVideoEntries()
+                    : (await getAllEntries<Blob>(storeId)).map(([key, blob]): [IDBValidKey, () => Promise<Blob | undefined>] => [key, async () => blob]);
                 const total = entries.length;
                 logger.info(`Streaming ${total} blobs from ${storeName}...`);
+                let written = 0;
                 for (let i = 0; i < total; i++) {
-                    const [key, blob] = entries[i];
-                    const base64Value = await blobToBase64(blob);
-                    const entryJson = JSON.stringify([key, base64Value]);
-                    await writable.write(encoder.encode(entryJson));
-                    if (i < total - 1) await writable.write(encoder.encode(','));
+                    const [key, readBlob] = entries[i];
+                    const blob = await readBlob();
+                    if (blob) {
+                        const base64Value = await blobToBase64(blob);
+                        const entryJson = JSON.stringify([key, base64Value]);
+                        if (written > 0) await writable.write(encoder.encode(','));
+                        await writable.write(encoder.encode(entryJson));
+                        written++;
+                    }
                     onProgress?.(progressStart + ((i + 1) / total) * (progressEnd - progressStart));
                 }
                 await writable.write(encoder.encode(']'));
@@ -157,7 +170,14 @@ class BackupServiceImpl implements BackupService {
         // Fallback in-memory implementation
         logger.info('File System Access API not supported. Falling back to in-memory export.');
         const [videoFileEntries, thumbnailEntries, figureThumbnailEntries] = await Promise.all([
-            getAllEntries<Blob>(VIDEO_FILES_STORE),
+            getVideoEntries().then(async entries => {
+                const videoFiles: [IDBValidKey, Blob][] = [];
+                for (const [key, readBlob] of entries) {
+                    const blob = await readBlob();
+                    if (blob) videoFiles.push([key, blob]);
+                }
+                return videoFiles;
+            }),
             getAllEntries<Blob>(LESSON_THUMBNAILS_STORE),
             getAllEntries<Blob>(FIGURE_THUMBNAILS_STORE),
         ]);
@@ -225,7 +245,11 @@ class BackupServiceImpl implements BackupService {
                 try {
                   const [key, base64] = entry;
                   const blob = await dataUrlToBlob(base64);
-                  await dbHandle.put(storeName, blob, key);
+                  if (storeName === VIDEO_FILES_STORE) {
+                    await localDatabaseService.saveVideoBlob(key, blob);
+                  } else {
+                    await dbHandle.put(storeName, blob, key);
+                  }
                 } catch (e) {
                   logger.warn(`Skipping invalid blob entry in ${storeName}`, e);
                 }
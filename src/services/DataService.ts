@@ -11,13 +11,13 @@ export interface DataService {
   addLesson(lessonData: Omit<Lesson, 'id' | 'videoId' | 'thumbTime'>, videoFile: File): Promise<Lesson>;
   updateLesson(lessonId: string, lessonUpdateData: Partial<Omit<Lesson, 'id'>>): Promise<Lesson>;
   deleteLesson(lessonId: string): Promise<string[]>;
-  saveDownloadedLesson(lesson: Lesson, videoFile: Blob): Promise<void>;
+  saveDownloadedLesson(lesson: Lesson, videoFile: Blob | null, thumbnailBlob?: Blob | null): Promise<void>;
   
   // Figures
   addFigure(lessonId: string, figureData: Omit<Figure, 'id' | 'lessonId'>): Promise<Figure>;
   updateFigure(figureId: string, figureUpdateData: Partial<Omit<Figure, 'id' | 'lessonId'>>): Promise<Figure>;
   deleteFigure(figureId: string): Promise<string | null>;
-  saveDownloadedFigure(figure: Figure): Promise<void>;
+  saveDownloadedFigure(figure: Figure, thumbnailBlob?: Blob | null): Promise<void>;
 
   // Categories & Groupings
   deleteFigureCategory(categoryId: string): Promise<string | null>;
@@ -32,6 +32,7 @@ export interface DataService {
   getLessonThumbnailUrl(lessonId: string): Promise<string | null>;
   getFigureThumbnailUrl(figureId: string): Promise<string | null>;
   getVideoFile(lessonId: string): Promise<File | undefined>;
+  evictVideo(lessonId: string): Promise<void>;
   clearUrlCaches(): void;
 }
 
@@ -91,13 +92,28 @@ class DataServiceImpl implements DataService {
     return deletedDriveIds.filter(id => !!id);
   }
   
-  public async saveDownloadedLesson(lesson: Lesson, videoFile: Blob): Promise<void> {
+  // A null video stores the metadata only; the lesson then stays "cloud only" on this device
+  // and shows the given thumbnail, which was downloaded instead of generated.
+  public async saveDownloadedLesson(lesson: Lesson, videoFile: Blob | null, thumbnailBlob: Blob | null = null): Promise<void> {
     logger.info(`Saving downloaded lesson ${lesson.id} (DataService)`);
     this.revokeAndClearCache(lesson.videoId, 'video');
     this.revokeAndClearCache(lesson.id, 'thumbnail');
+    if (!videoFile) {
+      await localDatabaseService.saveDownloadedLesson(lesson, null, thumbnailBlob);
+      return;
+    }
     const videoAsFile = new File([videoFile], `${lesson.videoId}.bin`, { type: videoFile.type });
-    const thumbnailBlob = await thumbnailService.generateThumbnailBlob(videoAsFile, lesson.thumbTime / 1000);
-    await localDatabaseService.saveDownloadedLesson(lesson, videoFile, thumbnailBlob);
+    const generatedThumbnailBlob = await thumbnailService.generateThumbnailBlob(videoAsFile, lesson.thumbTime / 1000);
+    await localDatabaseService.saveDownloadedLesson(lesson, videoFile, generatedThumbnailBlob);
+
+    // Figures synced while the video was cloud only have no thumbnails yet.
+    const figures = (await localDatabaseService.getFigures()).filter(f => f.lessonId === lesson.id);
+    for (const figure of figures) {
+      if (await localDatabaseService.getFigureThumbnailBlob(figure.id)) continue;
+      this.revokeAndClearCache(figure.id, 'figure-thumbnail');
+      const figureThumbnailBlob = await thumbnailService.generateThumbnailBlob(videoAsFile, figure.thumbTime / 1000);
+      await localDatabaseService.saveDownloadedFigure(figure, figureThumbnailBlob);
+    }
   }
 
   public async addFigure(lessonId: string, figureData: Omit<Figure, 'id' | 'lessonId'>): Promise<Figure> {
@@ -138,13 +154,13 @@ class DataServiceImpl implements DataService {
     return figure.driveId || null;
   }
   
-  public async saveDownloadedFigure(figure: Figure): Promise<void> {
+  // The given thumbnail is only used when the parent lesson's video is not on this device.
+  public async saveDownloadedFigure(figure: Figure, thumbnailBlob: Blob | null = null): Promise<void> {
     logger.info(`Saving downloaded figure ${figure.id} (DataService)`);
     this.revokeAndClearCache(figure.id, 'figure-thumbnail');
     const videoFile = await this.getVideoFile(figure.lessonId);
-    if (!videoFile) throw new Error(`Video file for figure's parent lesson not found.`);
-    const thumbnailBlob = await thumbnailService.generateThumbnailBlob(videoFile, figure.thumbTime / 1000);
-    await localDatabaseService.saveDownloadedFigure(figure, thumbnailBlob);
+    const figureThumbnailBlob = videoFile ? await thumbnailService.generateThumbnailBlob(videoFile, figure.thumbTime / 1000) : thumbnailBlob;
+    await localDatabaseService.saveDownloadedFigure(figure, figureThumbnailBlob);
   }
 
   public async deleteFigureCategory(categoryId: string): Promise<string | null> {
@@ -276,6 +292,14 @@ class DataServiceImpl implements DataService {
     return new File([videoBlob], `${lesson.videoId}.bin`, { type: videoBlob.type });
   }
 
+  public async evictVideo(lessonId: string): Promise<void> {
+    logger.info(`Evicting the local video of lesson ${lessonId} (DataService)`);
+    const lesson = await localDatabaseService.getLesson(lessonId);
+    if (!lesson) throw new Error(`Lesson with id "${lessonId}" not found.`);
+    this.revokeAndClearCache(lesson.videoId, 'video');
+    await localDatabaseService.evictLessonVideo(lessonId);
+  }
+
   public async getVideoObjectUrl(lesson: Lesson): Promise<string> {
     if (this.videoUrlCache.has(lesson.videoId)) {
       return this.videoUrlCache.get(lesson.videoId)!;
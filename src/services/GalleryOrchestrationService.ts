@@ -34,6 +34,7 @@ export interface ProcessedGalleryData<T> {
   allSchools: School[];
   allInstructors: Instructor[];
   lessonsMap?: Map<string, Lesson>;
+  figuresAwaitingLesson?: Figure[]; // Synced before their lesson; shown apart, as they cannot be played, filtered or grouped yet
 }
 
 // --- Interface ---
@@ -245,6 +246,7 @@ class GalleryOrchestrationServiceImpl implements GalleryOrchestrationService {
         locale: string
     ): Omit<ProcessedGalleryData<Figure>, 'thumbnailUrls' | 'videoUrls' | 'filterOptions'> {
         const lessonsMap = new Map(lessons.map(l => [l.id, l]));
+        const figuresAwaitingLesson = figures.filter(figure => !lessonsMap.has(figure.lessonId));
 
         const filteredFigures = figures.filter(figure => {
             const lesson = lessonsMap.get(figure.lessonId);
@@ -321,7 +323,7 @@ class GalleryOrchestrationServiceImpl implements GalleryOrchestrationService {
         }
 
         return {
-            groups, allItems: allSortedFigures, allItemIds: allSortedFigures.map(f => f.id), totalItemCount: figures.length, lessonsMap,
+            groups, allItems: allSortedFigures, allItemIds: allSortedFigures.map(f => f.id), totalItemCount: figures.length, lessonsMap, figuresAwaitingLesson,
             allCategories: categories, allSchools: schools, allInstructors: instructors,
         };
     }
@@ -350,7 +352,10 @@ class GalleryOrchestrationServiceImpl implements GalleryOrchestrationService {
                 videoUrls.set(processed.lessonsMap!.get(figure.lessonId)!.videoId, videoUrl);
             }
         });
-        await Promise.all(urlPromises);
+        const awaitingUrlPromises = processed.figuresAwaitingLesson!.map(async (figure) => {
+            thumbnailUrls.set(figure.id, await this.dataSvc.getFigureThumbnailUrl(figure.id));
+        });
+        await Promise.all([...urlPromises, ...awaitingUrlPromises]);
 
         return {
             ...processed,
@@ -0,0 +1,9 @@
+import { GoogleIdentityApiImpl, type GoogleIdentityAPI } from '../api/GoogleIdentityAPI';
+import { GoogleDriveApiImpl, type DriveAccessTokenProvider, type GoogleDriveApi } from '../api/GoogleDriveApi';
+
+// --- Singleton Instance ---
+// The Google API clients GoogleDriveService is built with. E2E runs replace this module through their own Vite config.
+
+export const googleIdentityApi: GoogleIdentityAPI = new GoogleIdentityApiImpl();
+
+export const createGoogleDriveApi = (tokens: DriveAccessTokenProvider): GoogleDriveApi => new GoogleDriveApiImpl(tokens);
@@ -1,15 +1,34 @@
 import type { UserProfile, TokenResponse, GoogleIdentityAPI } from '../api/GoogleIdentityAPI';
-import { GoogleIdentityApiImpl } from '../api/GoogleIdentityAPI';
-import type { DriveFile, GoogleDriveApi } from '../api/GoogleDriveApi';
-import { GoogleDriveApiImpl } from '../api/GoogleDriveApi';
+import type { DriveAccessTokenProvider, DriveBatchResult, DriveFile, DriveFileMetadata, DriveUploadSessionStatus, GoogleDriveApi } from '../api/GoogleDriveApi';
+import type { RemoteStorageProvider, RemoteFolderChanges, RemoteAvailabilityListener, TransferOptions, RemoteFileWrite, RemoteBatchResult } from '../api/RemoteStorageProvider';
+import { settleEach } from './RemoteTransferPolicy';
+import { DriveApiError } from '../api/GoogleDriveApi';
+import { googleIdentityApi, createGoogleDriveApi } from './GoogleApiClients';
 import { GOOGLE_CLIENT_ID } from '../../config';
 import { createLogger } from '../utils/logger';
 
 const logger = createLogger('GoogleDriveService');
 const SCOPES = 'https://www.googleapis.com/auth/drive.appdata https://www.googleapis.com/auth/userinfo.email https://www.googleapis.com/auth/userinfo.profile';
 const LOCAL_STORAGE_TOKEN_KEY = 'google_access_token';
+const LOCAL_STORAGE_TOKEN_EXPIRY_KEY = 'google_access_token_expires_at';
 const LOCAL_STORAGE_PROFILE_KEY = 'google_user_profile';
 const SESSION_STORAGE_ERROR_KEY = 'google_sync_error';
+const LOCAL_STORAGE_UPLOAD_SESSIONS_KEY = 'google_upload_sessions';
+// Smaller files are sent in a single multipart request.
+const RESUMABLE_UPLOAD_THRESHOLD_BYTES = 5 * 1024 * 1024;
+// Drive requires chunks of a resumable upload to be a multiple of 256 KiB.
+const UPLOAD_CHUNK_SIZE_BYTES = 8 * 1024 * 1024;
+// Drive rejects batches of more than 100 requests.
+const MAX_BATCH_SIZE = 100;
+// Parts of a batch fail on their own when Drive is rate limiting; only those are sent again.
+const MAX_BATCH_PART_RETRIES = 4;
+const BATCH_RETRY_BASE_DELAY_MS = 1000;
+// Drive keeps an upload session for a week; older ones are not worth asking about.
+const UPLOAD_SESSION_MAX_AGE_MS = 6 * 24 * 60 * 60 * 1000;
+// Google access tokens last an hour. Browsers block the token popup unless the user clicked something,
+// so sync pauses this long before the token lapses and the user is asked to sign in again.
+const TOKEN_EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 3600;
 
 // --- Types and Interface ---
 
@@ -18,43 +37,50 @@ export interface AuthState {
   isSignedIn: boolean;
   userProfile: UserProfile | null;
   error: string | null;
+  // Signed in, but the access token has expired or was rejected. Sync is paused until the user signs in again.
+  needsReauthentication: boolean;
 }
 
 export type AuthStateListener = (state: AuthState) => void;
 
-export type GoogleDriveApiFactory = (token: string) => GoogleDriveApi;
+// A resumable upload that was started but may not have finished, keyed by file path in local storage.
+interface StoredUploadSession {
+  sessionUri: string;
+  totalBytes: number;
+  fileId: string | null;
+  createdAt: number;
+}
+
+export type GoogleDriveApiFactory = (tokens: DriveAccessTokenProvider) => GoogleDriveApi;
 
-export interface GoogleDriveService {
+export interface GoogleDriveService extends RemoteStorageProvider {
   initialize(): Promise<void>;
   onAuthStateChanged(listener: AuthStateListener): () => void;
   getAuthState(): AuthState;
   signIn(): void;
   signOut(): void;
-  listFiles(folderPath: string): Promise<DriveFile[]>;
-  readJsonFile<T>(filePath: string): Promise<T | null>;
-  readJsonFileWithMetadata<T>(filePath: string): Promise<{ content: T, metadata: DriveFile } | null>;
-  readJsonFileWithMetadataById<T>(fileId: string): Promise<{ content: T, metadata: DriveFile } | null>;
-  readBinaryFile(filePath: string): Promise<Blob | null>;
-  readJsonFileById<T>(fileId: string): Promise<T | null>;
-  readBinaryFileById(fileId: string): Promise<Blob | null>;
-  writeFile(filePath: string, content: string | Blob, mimeType: string): Promise<DriveFile>;
-  deleteFile(filePath: string): Promise<void>;
-  deleteFileById(fileId: string): Promise<void>;
+  getChangesStartPageToken(): Promise<string>;
+  listFolderChanges(folderPath: string, pageToken: string): Promise<RemoteFolderChanges>;
 }
 
 // --- Implementation ---
 
 class GoogleDriveServiceImpl implements GoogleDriveService {
+  public readonly name = 'google-drive';
   private identityService: GoogleIdentityAPI;
   private driveApiFactory: GoogleDriveApiFactory;
   private api: GoogleDriveApi | null = null;
   private listeners: Set<AuthStateListener> = new Set();
   private folderIdCache: Map<string, string> = new Map();
+  private accessToken: string | null = null;
+  private tokenExpiresAt = 0;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
   private state: AuthState = {
     isGisReady: false,
     isSignedIn: false,
     userProfile: null,
     error: sessionStorage.getItem(SESSION_STORAGE_ERROR_KEY),
+    needsReauthentication: false,
   };
 
   constructor(identityService: GoogleIdentityAPI, driveApiFactory: GoogleDriveApiFactory) {
@@ -84,6 +110,19 @@ class GoogleDriveServiceImpl implements GoogleDriveService {
 
   public getAuthState = (): AuthState => this.state;
 
+  public isAvailable = (): boolean => this.state.isSignedIn && this.api !== null && !this.state.needsReauthentication;
+
+  public onAvailabilityChanged = (listener: RemoteAvailabilityListener): () => void => {
+    let lastValue: boolean | null = null;
+    return this.onAuthStateChanged(() => {
+      const isAvailable = this.isAvailable();
+      if (isAvailable !== lastValue) {
+        lastValue = isAvailable;
+        listener(isAvailable);
+      }
+    });
+  };
+
   public signIn = (): void => {
     if (!this.state.isGisReady) {
       this.setState({ error: 'Google Auth is not ready.' });
@@ -104,6 +143,11 @@ class GoogleDriveServiceImpl implements GoogleDriveService {
     return this.api.listFiles(`'${parentFolderId}' in parents and trashed=false`);
   }
   
+  public async getFile(filePath: string): Promise<DriveFile | null> {
+    if (!this.api) throw new Error("Not signed in.");
+    return this._getFile(filePath);
+  }
+
   public async readJsonFile<T>(filePath: string): Promise<T | null> {
     if (!this.api) throw new Error("Not signed in.");
     const file = await this._getFile(filePath);
@@ -123,9 +167,9 @@ class GoogleDriveServiceImpl implements GoogleDriveService {
     return this.api.downloadJson<T>(fileId);
   }
 
-  public async readBinaryFileById(fileId: string): Promise<Blob | null> {
+  public async readBinaryFileById(fileId: string, options?: TransferOptions): Promise<Blob | null> {
     if (!this.api) throw new Error("Not signed in.");
-    return this.api.downloadBlob(fileId);
+    return this.api.downloadBlob(fileId, options);
   }
 
   public async readJsonFileWithMetadata<T>(filePath: string): Promise<{ content: T; metadata: DriveFile; } | null> {
@@ -146,14 +190,25 @@ class GoogleDriveServiceImpl implements GoogleDriveService {
       return { content, metadata: file };
   }
 
-  public async writeFile(filePath: string, content: string | Blob, mimeType: string): Promise<DriveFile> {
+  public async writeFile(filePath: string, content: string | Blob, mimeType: string, options?: TransferOptions): Promise<DriveFile> {
     if (!this.api) throw new Error("Not signed in.");
-    const { folderPath, fileName } = this._splitPath(filePath);
-    const parentFolderId = await this._getFolderId(folderPath, true);
-    if (!parentFolderId) throw new Error(`Could not find or create folder for path: ${folderPath}`);
+    const { folderPath } = this._splitPath(filePath);
+    await this._getFolderId(folderPath, true);
+    return this._writeFile(filePath, content, mimeType, await this._getFile(filePath), options);
+  }
 
-    const existingFile = await this._getFile(filePath);
-    return this.api.upload(content, { name: fileName, mimeType, parents: [parentFolderId] }, existingFile?.id);
+  // The existing files are looked up in batches; the content still goes up one file at a time, as Drive cannot batch uploads.
+  public async writeFiles(files: RemoteFileWrite[], signal?: AbortSignal): Promise<RemoteBatchResult<DriveFile>[]> {
+    if (!this.api) throw new Error("Not signed in.");
+    for (const folderPath of new Set(files.map(file => this._splitPath(file.filePath).folderPath))) {
+      await this._getFolderId(folderPath, true);
+    }
+    const lookups = await this._getFiles(files.map(file => file.filePath), signal);
+    return settleEach(files, (file, index) => {
+      const lookup = lookups[index];
+      if (!lookup.ok) return Promise.reject(lookup.error);
+      return this._writeFile(file.filePath, file.content, file.mimeType, lookup.value, { signal });
+    });
   }
 
   public async deleteFile(filePath: string): Promise<void> {
@@ -164,10 +219,49 @@ class GoogleDriveServiceImpl implements GoogleDriveService {
     }
   }
 
+  public async deleteFiles(filePaths: string[], signal?: AbortSignal): Promise<RemoteBatchResult<void>[]> {
+    if (!this.api) throw new Error("Not signed in.");
+    const lookups = await this._getFiles(filePaths, signal);
+    const fileIds = lookups.flatMap(lookup => lookup.ok && lookup.value ? [lookup.value.id] : []);
+    const deletions = await this._batched(fileIds, (chunk, api) => api.deleteFiles(chunk, signal), signal);
+    const deletionsById = new Map(fileIds.map((fileId, index) => [fileId, deletions[index]]));
+    return lookups.map((lookup): RemoteBatchResult<void> => {
+      if (!lookup.ok) return lookup;
+      return lookup.value ? deletionsById.get(lookup.value.id)! : { ok: true, value: undefined };
+    });
+  }
+
   public async deleteFileById(fileId: string): Promise<void> {
     if (!this.api) throw new Error("Not signed in.");
     await this.api.deleteFile(fileId);
   }
+
+  public async deleteFilesById(fileIds: string[], signal?: AbortSignal): Promise<RemoteBatchResult<void>[]> {
+    if (!this.api) throw new Error("Not signed in.");
+    return this._batched(fileIds, (chunk, api) => api.deleteFiles(chunk, signal), signal);
+  }
+
+  public async getChangesStartPageToken(): Promise<string> {
+    if (!this.api) throw new Error("Not signed in.");
+    return this.api.getStartPageToken();
+  }
+
+  public async listFolderChanges(folderPath: string, pageToken: string): Promise<RemoteFolderChanges> {
+    if (!this.api) throw new Error("Not signed in.");
+    const { changes, newStartPageToken } = await this.api.listChanges(pageToken);
+    const parentFolderId = await this._getFolderId(folderPath, false);
+
+    const changedFiles: DriveFile[] = [];
+    const removedFileIds: string[] = [];
+    for (const change of changes) {
+      if (change.removed || !change.file || change.file.trashed) {
+        removedFileIds.push(change.fileId);
+      } else if (parentFolderId && change.file.parents?.includes(parentFolderId)) {
+        changedFiles.push(change.file);
+      }
+    }
+    return { changedFiles, removedFileIds, newStartPageToken };
+  }
   
   // --- Private Methods ---
 
@@ -181,18 +275,30 @@ class GoogleDriveServiceImpl implements GoogleDriveService {
   
   private handleTokenResponse = async (tokenResponse: TokenResponse): Promise<void> => {
     if (tokenResponse.error) {
-      this.setState({ error: `Auth Error: ${tokenResponse.error_description || tokenResponse.error}`, isSignedIn: false });
+      const error = `Auth Error: ${tokenResponse.error_description || tokenResponse.error}`;
+      if (this.state.isSignedIn) {
+        // Signing in again was cancelled; the session stays paused rather than signed out.
+        this.setState({ error });
+      } else {
+        this.setState({ error, isSignedIn: false });
+      }
       return;
     }
     const token = tokenResponse.access_token;
     logger.info('Received new access token.');
-    localStorage.setItem(LOCAL_STORAGE_TOKEN_KEY, token);
-    this.api = this.driveApiFactory(token);
+    this.saveToken(token, Number(tokenResponse.expires_in) || DEFAULT_TOKEN_LIFETIME_SECONDS);
+    const wasSignedIn = this.state.isSignedIn && this.api !== null;
+    if (!this.api) this.api = this.createApi();
+    if (wasSignedIn) {
+      this.setState({ needsReauthentication: false, error: null });
+      sessionStorage.removeItem(SESSION_STORAGE_ERROR_KEY);
+      return;
+    }
     
     try {
       const profile = await this.identityService.getUserProfile(token);
       localStorage.setItem(LOCAL_STORAGE_PROFILE_KEY, JSON.stringify(profile));
-      this.setState({ isSignedIn: true, userProfile: profile, error: null });
+      this.setState({ isSignedIn: true, userProfile: profile, error: null, needsReauthentication: false });
       sessionStorage.removeItem(SESSION_STORAGE_ERROR_KEY);
     } catch (e: any) {
       logger.error("Error fetching user profile after sign-in", e);
@@ -206,11 +312,18 @@ class GoogleDriveServiceImpl implements GoogleDriveService {
       this.identityService.revokeToken(token);
     }
     localStorage.removeItem(LOCAL_STORAGE_TOKEN_KEY);
+    localStorage.removeItem(LOCAL_STORAGE_TOKEN_EXPIRY_KEY);
     localStorage.removeItem(LOCAL_STORAGE_PROFILE_KEY);
+    if (this.expiryTimer) clearTimeout(this.expiryTimer);
+    this.expiryTimer = null;
+    this.accessToken = null;
+    this.tokenExpiresAt = 0;
+    // Upload sessions belong to the signed-in account.
+    localStorage.removeItem(LOCAL_STORAGE_UPLOAD_SESSIONS_KEY);
     this.api = null;
     this.folderIdCache.clear();
     const error = isExpired ? 'Your session has expired. Please sign in again.' : null;
-    this.setState({ isSignedIn: false, userProfile: null, error });
+    this.setState({ isSignedIn: false, userProfile: null, error, needsReauthentication: false });
     logger.info('User signed out.');
   };
   
@@ -218,8 +331,14 @@ class GoogleDriveServiceImpl implements GoogleDriveService {
     const storedToken = localStorage.getItem(LOCAL_STORAGE_TOKEN_KEY);
     const storedProfileJSON = localStorage.getItem(LOCAL_STORAGE_PROFILE_KEY);
     if (!storedToken || !storedProfileJSON) return;
-    
-    this.api = this.driveApiFactory(storedToken);
+
+    // Tokens stored before expiry tracking have no expiry and are treated as expired.
+    this.accessToken = storedToken;
+    this.tokenExpiresAt = Number(localStorage.getItem(LOCAL_STORAGE_TOKEN_EXPIRY_KEY)) || 0;
+    if (!this.isTokenExpiring()) {
+      this.api = this.createApi();
+      this.scheduleExpiry();
+    }
     
     // Optimistically set signed-in state
     try {
@@ -227,13 +346,106 @@ class GoogleDriveServiceImpl implements GoogleDriveService {
         this.setState({ isSignedIn: true, userProfile: profile });
     } catch(e) { /* ignore */ }
     
+    if (!this.api) {
+      this.requireReauthentication('The stored access token has expired.');
+      return;
+    }
     // Validate token in the background
     this.identityService.getUserProfile(storedToken).catch(() => {
-        logger.warn('Stored token is expired or invalid. Signing out.');
-        this.handleSignOut(true);
+        this.requireReauthentication('The stored access token is invalid.');
     });
   }
 
+  private createApi = (): GoogleDriveApi => this.driveApiFactory({
+    getAccessToken: () => this.accessToken ?? '',
+    onAuthenticationFailed: () => this.requireReauthentication('Google Drive rejected the access token.'),
+  });
+
+  private saveToken(token: string, lifetimeSeconds: number): void {
+    this.accessToken = token;
+    this.tokenExpiresAt = Date.now() + lifetimeSeconds * 1000;
+    localStorage.setItem(LOCAL_STORAGE_TOKEN_KEY, token);
+    localStorage.setItem(LOCAL_STORAGE_TOKEN_EXPIRY_KEY, String(this.tokenExpiresAt));
+    this.scheduleExpiry();
+  }
+
+  private isTokenExpiring = (): boolean => Date.now() >= this.tokenExpiresAt - TOKEN_EXPIRY_MARGIN_MS;
+
+  private scheduleExpiry(): void {
+    if (this.expiryTimer) clearTimeout(this.expiryTimer);
+    const delay = Math.max(0, this.tokenExpiresAt - TOKEN_EXPIRY_MARGIN_MS - Date.now());
+    this.expiryTimer = setTimeout(() => {
+      this.expiryTimer = null;
+      this.requireReauthentication('The access token is about to expire.');
+    }, delay);
+  }
+
+  // Only the user's click on "Sign in again" can request a new token, so sync pauses until then.
+  private requireReauthentication(reason: string): void {
+    if (!this.state.isSignedIn || this.state.needsReauthentication) return;
+    logger.warn(`${reason} Sync is paused until the user signs in again.`);
+    this.setState({ needsReauthentication: true });
+  }
+
+  // Continues an upload interrupted by a lost connection or a reload from the last chunk Drive received.
+  // A session Drive no longer knows is dropped, and the upload starts over in a new one.
+  private async _uploadResumable(filePath: string, content: Blob, metadata: DriveFileMetadata, fileId: string | null, options?: TransferOptions): Promise<DriveFile> {
+    if (!this.api) throw new Error("Not signed in.");
+    const api = this.api;
+    const totalBytes = content.size;
+    const signal = options?.signal;
+    const stored = this._getUploadSessions()[filePath];
+    const canResume = stored
+      && stored.totalBytes === totalBytes
+      && stored.fileId === fileId
+      && Date.now() - stored.createdAt < UPLOAD_SESSION_MAX_AGE_MS;
+
+    let sessionUri: string | null = null;
+    let status: DriveUploadSessionStatus | null = null;
+    if (canResume) {
+      logger.info(`Resuming upload of "${metadata.name}".`);
+      status = await api.getUploadSessionStatus(stored.sessionUri, totalBytes, signal);
+      if (status) sessionUri = stored.sessionUri;
+      else logger.warn(`Upload session for "${metadata.name}" has expired. Starting over.`);
+    }
+    if (!sessionUri || !status) {
+      logger.info(`Creating resumable upload session for "${metadata.name}" (${totalBytes} bytes).`);
+      sessionUri = await api.createUploadSession(metadata, totalBytes, fileId ?? undefined, signal);
+      this._saveUploadSession(filePath, { sessionUri, totalBytes, fileId, createdAt: Date.now() });
+      status = { uploadedBytes: 0 };
+    }
+
+    while (!('file' in status)) {
+      options?.onProgress?.(status.uploadedBytes, totalBytes);
+      const chunkEnd = Math.min(status.uploadedBytes + UPLOAD_CHUNK_SIZE_BYTES, totalBytes);
+      const next: DriveUploadSessionStatus | null = await api.uploadChunk(sessionUri, content.slice(status.uploadedBytes, chunkEnd), status.uploadedBytes, totalBytes, signal);
+      if (!next) {
+        this._saveUploadSession(filePath, null);
+        throw new DriveApiError(`Upload session for '${metadata.name}' has expired.`, 'http');
+      }
+      status = next;
+    }
+    options?.onProgress?.(totalBytes, totalBytes);
+    this._saveUploadSession(filePath, null);
+    logger.info(`Uploaded "${metadata.name}". Drive ID: ${status.file.id}`);
+    return status.file;
+  }
+
+  private _getUploadSessions(): Record<string, StoredUploadSession> {
+    try {
+      return JSON.parse(localStorage.getItem(LOCAL_STORAGE_UPLOAD_SESSIONS_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private _saveUploadSession(filePath: string, session: StoredUploadSession | null): void {
+    const sessions = this._getUploadSessions();
+    if (session) sessions[filePath] = session;
+    else delete sessions[filePath];
+    localStorage.setItem(LOCAL_STORAGE_UPLOAD_SESSIONS_KEY, JSON.stringify(sessions));
+  }
+
   private _splitPath(filePath: string): { folderPath: string, fileName: string } {
     const parts = filePath.replace(/^\/|\/$/g, '').split('/');
     const fileName = parts.pop() || '';
@@ -282,12 +494,69 @@ class GoogleDriveServiceImpl implements GoogleDriveService {
     const files = await this.api.listFiles(`name='${fileName}' and '${parentFolderId}' in parents and trashed=false`);
     return files.length > 0 ? files[0] : null;
   }
+
+  private async _writeFile(filePath: string, content: string | Blob, mimeType: string, existingFile: DriveFile | null, options?: TransferOptions): Promise<DriveFile> {
+    if (!this.api) throw new Error("Not signed in.");
+    const { folderPath, fileName } = this._splitPath(filePath);
+    const parentFolderId = await this._getFolderId(folderPath, true);
+    if (!parentFolderId) throw new Error(`Could not find or create folder for path: ${folderPath}`);
+
+    const metadata: DriveFileMetadata = { name: fileName, mimeType, parents: [parentFolderId] };
+    if (content instanceof Blob && content.size >= RESUMABLE_UPLOAD_THRESHOLD_BYTES) {
+      return this._uploadResumable(filePath, content, metadata, existingFile?.id ?? null, options);
+    }
+    const file = await this.api.upload(content, metadata, existingFile?.id, options?.signal);
+    const size = typeof content === 'string' ? content.length : content.size;
+    options?.onProgress?.(size, size);
+    return file;
+  }
+  
+  private async _getFiles(filePaths: string[], signal?: AbortSignal): Promise<RemoteBatchResult<DriveFile | null>[]> {
+    if (!this.api) throw new Error("Not signed in.");
+    const queries: (string | null)[] = [];
+    for (const filePath of filePaths) {
+      const { folderPath, fileName } = this._splitPath(filePath);
+      const parentFolderId = await this._getFolderId(folderPath, false);
+      queries.push(parentFolderId ? `name='${fileName}' and '${parentFolderId}' in parents and trashed=false` : null);
+    }
+    const results = await this._batched(queries.filter((query): query is string => query !== null), (chunk, api) => api.findFiles(chunk, signal), signal);
+    let resultIndex = 0;
+    return queries.map((query): RemoteBatchResult<DriveFile | null> => {
+      if (query === null) return { ok: true, value: null };
+      const result = results[resultIndex++];
+      return result.ok ? { ok: true, value: result.value[0] ?? null } : result;
+    });
+  }
+
+  private async _batched<T, R>(items: T[], send: (chunk: T[], api: GoogleDriveApi) => Promise<DriveBatchResult<R>[]>, signal?: AbortSignal): Promise<DriveBatchResult<R>[]> {
+    const results: DriveBatchResult<R>[] = [];
+    for (let start = 0; start < items.length; start += MAX_BATCH_SIZE) {
+      results.push(...await this._sendBatchWithRetries(items.slice(start, start + MAX_BATCH_SIZE), send, signal));
+    }
+    return results;
+  }
+
+  private async _sendBatchWithRetries<T, R>(items: T[], send: (chunk: T[], api: GoogleDriveApi) => Promise<DriveBatchResult<R>[]>, signal?: AbortSignal): Promise<DriveBatchResult<R>[]> {
+    if (!this.api) throw new Error("Not signed in.");
+    const results = await send(items, this.api);
+    for (let attempt = 0; attempt < MAX_BATCH_PART_RETRIES; attempt++) {
+      const retryIndexes = results.flatMap((result, index) => !result.ok && result.error.isTransient ? [index] : []);
+      if (retryIndexes.length === 0) break;
+      const retryAfterMs = Math.max(0, ...results.map(result => !result.ok && result.error.isTransient ? result.error.retryAfterMs ?? 0 : 0));
+      const delay = Math.max(retryAfterMs, BATCH_RETRY_BASE_DELAY_MS * 2 ** attempt + Math.round(Math.random() * BATCH_RETRY_BASE_DELAY_MS));
+      logger.warn(`${retryIndexes.length} of ${items.length} batched requests failed. Retrying them in ${delay}ms.`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      signal?.throwIfAborted();
+      if (!this.api) throw new Error("Not signed in.");
+      const retried = await send(retryIndexes.map(index => items[index]), this.api);
+      retryIndexes.forEach((itemIndex, retryIndex) => { results[itemIndex] = retried[retryIndex]; });
+    }
+    return results;
+  }
 }
 
 // --- Singleton Instance ---
-const identityService = new GoogleIdentityApiImpl();
-const driveApiFactory = (token: string) => new GoogleDriveApiImpl(token);
 export const googleDriveService: GoogleDriveService = new GoogleDriveServiceImpl(
-    identityService,
-    driveApiFactory
+    googleIdentityApi,
+    createGoogleDriveApi
 );
\ No newline at end of file
@@ -1,9 +1,13 @@
 import { dataService, DataService } from './DataService';
 import { localDatabaseService, LocalDatabaseService } from './LocalDatabaseService';
-import { syncQueueService, SyncQueueService } from './SyncQueueService';
-import { googleDriveService, GoogleDriveService } from './GoogleDriveService';
+import { syncSchedulerService, SyncSchedulerService } from './SyncSchedulerService';
+import type { SyncItemTaskType } from './SyncQueueService';
+import { remoteStorageService } from './RemoteStorageService';
+import type { RemoteStorageProvider } from '../api/RemoteStorageProvider';
 import { settingsService, SettingsService, GroupingConfiguration } from './SettingsService';
 import { thumbnailService, ThumbnailService } from './ThumbnailService';
+import { videoDownloadService, VideoDownloadService } from './VideoDownloadService';
+import { videoEvictionService, VideoEvictionService } from './VideoEvictionService';
 import type { Lesson, Figure, School, Instructor, LessonCategory, FigureCategory } from '../types';
 
 const UNCATEGORIZED_ID = '__uncategorized__';
@@ -73,25 +77,31 @@ export interface ItemManagementService {
 class ItemManagementServiceImpl implements ItemManagementService {
     private dataSvc: DataService;
     private localDBSvc: LocalDatabaseService;
-    private syncQueueSvc: SyncQueueService;
-    private driveSvc: GoogleDriveService;
+    private syncScheduler: SyncSchedulerService;
+    private remoteStorage: RemoteStorageProvider;
     private thumbSvc: ThumbnailService;
     private settingsSvc: SettingsService;
+    private videoDownloadSvc: VideoDownloadService;
+    private evictionSvc: VideoEvictionService;
 
     constructor(
         dataSvc: DataService,
         localDBSvc: LocalDatabaseService,
-        syncQueueSvc: SyncQueueService,
-        driveSvc: GoogleDriveService,
+        syncScheduler: SyncSchedulerService,
+        remoteStorage: RemoteStorageProvider,
         thumbSvc: ThumbnailService,
         settingsSvc: SettingsService,
+        videoDownloadSvc: VideoDownloadService,
+        evictionSvc: VideoEvictionService,
     ) {
         this.dataSvc = dataSvc;
         this.localDBSvc = localDBSvc;
-        this.syncQueueSvc = syncQueueSvc;
-        this.driveSvc = driveSvc;
+        this.syncScheduler = syncScheduler;
+        this.remoteStorage = remoteStorage;
         this.thumbSvc = thumbSvc;
         this.settingsSvc = settingsSvc;
+        this.videoDownloadSvc = videoDownloadSvc;
+        this.evictionSvc = evictionSvc;
     }
 
     public async updateItemProperty(
@@ -101,13 +111,14 @@ class ItemManagementServiceImpl implements ItemManagementService {
         value: string | null
     ): Promise<void> {
         try {
+            let lessonId: string | undefined;
             if (type === 'lesson') {
                 await this.dataSvc.updateLesson(itemId, { [property]: value });
             } else {
-                await this.dataSvc.updateFigure(itemId, { [property]: value });
+                lessonId = (await this.dataSvc.updateFigure(itemId, { [property]: value })).lessonId;
             }
-            if (this.driveSvc.getAuthState().isSignedIn) {
-                this.syncQueueSvc.addTask('sync-gallery', { type }, true);
+            if (this.remoteStorage.isAvailable()) {
+                this.syncScheduler.requestItemSync(uploadTaskOf(type), type, itemId, lessonId);
             }
         } catch (err) {
             console.error(`Failed to update ${type} ${property}:`, err);
@@ -117,13 +128,18 @@ class ItemManagementServiceImpl implements ItemManagementService {
 
     public async deleteItem(type: 'lesson' | 'figure', itemId: string): Promise<void> {
         try {
+            // A lesson's figures are deleted with it, and their remote files each need a task of their own.
+            const syncedFigureIds = type === 'lesson'
+                ? (await this.localDBSvc.getFigures()).filter(figure => figure.lessonId === itemId && figure.driveId).map(figure => figure.id)
+                : [];
             const driveIdsToDelete = type === 'lesson'
                 ? await this.dataSvc.deleteLesson(itemId)
                 : [await this.dataSvc.deleteFigure(itemId)].filter((id): id is string => !!id);
 
-            if (this.driveSvc.getAuthState().isSignedIn && driveIdsToDelete.length > 0) {
+            if (this.remoteStorage.isAvailable() && driveIdsToDelete.length > 0) {
                 await this.localDBSvc.addTombstones(driveIdsToDelete);
-                this.syncQueueSvc.addTask('sync-gallery', { type }, true);
+                this.syncScheduler.requestItemSync('delete-remote', type, itemId);
+                syncedFigureIds.forEach(figureId => this.syncScheduler.requestItemSync('delete-remote', 'figure', figureId, itemId));
             }
         } catch (err) {
             console.error(`Failed to delete ${type}:`, err);
@@ -151,13 +167,17 @@ class ItemManagementServiceImpl implements ItemManagementService {
         }
 
         if (!item || !videoLessonSource) throw new Error("Item or its video source could not be found.");
-        
+
+        // Cloud-only lessons fetch their video the first time they are played.
+        await this.videoDownloadSvc.ensureVideo(videoLessonSource.id);
+        this.evictionSvc.recordWatched(videoLessonSource.id);
         const videoUrl = await this.dataSvc.getVideoObjectUrl(videoLessonSource);
         return { item, videoUrl };
     }
 
     private async _getEditorData(item: Lesson | Figure, videoLessonSource: Lesson): Promise<EditorData> {
         const type = 'uploadDate' in item ? 'lesson' : 'figure';
+        await this.videoDownloadSvc.ensureVideo(videoLessonSource.id);
         const [
             videoUrl, videoFile, originalThumbnailUrl,
             categories,
@@ -277,6 +297,7 @@ class ItemManagementServiceImpl implements ItemManagementService {
     
     public async createLesson(data: { uploadDate: string; categoryId: string | null; schoolId: string | null; instructorId: string | null; }, videoFile: File): Promise<void> {
         const { blob: thumbnailBlob, durationMs } = await this.thumbSvc.generateThumbnail(videoFile, 0);
+        await this.evictionSvc.ensureSpaceFor(videoFile.size);
         const lessonData = {
             ...data,
             description: null,
@@ -284,10 +305,10 @@ class ItemManagementServiceImpl implements ItemManagementService {
             endTime: durationMs,
         } as Omit<Lesson, 'id' | 'videoId' | 'thumbTime'>;
         
-        await this.localDBSvc.addLesson(lessonData, videoFile, thumbnailBlob);
+        const lesson = await this.localDBSvc.addLesson(lessonData, videoFile, thumbnailBlob);
         
-        if (this.driveSvc.getAuthState().isSignedIn) {
-            this.syncQueueSvc.addTask('sync-gallery', { type: 'lesson' }, true);
+        if (this.remoteStorage.isAvailable()) {
+            this.syncScheduler.requestItemSync('upload-lesson', 'lesson', lesson.id);
         }
     }
 
@@ -310,6 +331,8 @@ class ItemManagementServiceImpl implements ItemManagementService {
             commonData.endTime = Math.max(data.startTime, Math.min(data.endTime, options.videoDurationMs));
         }
 
+        let itemId = data.id!;
+        let lessonId: string | undefined;
         if (type === 'lesson') {
             const lessonData: Partial<Lesson> = {
                 ...commonData,
@@ -329,14 +352,16 @@ class ItemManagementServiceImpl implements ItemManagementService {
             };
             if (options.isNew) {
                 // FIX: Cast `data` to Partial<Figure> to access lessonId, as the compiler incorrectly infers the type.
-                await this.dataSvc.addFigure((data as Partial<Figure>).lessonId!, figureData as Omit<Figure, 'id' | 'lessonId'>);
+                const figure = await this.dataSvc.addFigure((data as Partial<Figure>).lessonId!, figureData as Omit<Figure, 'id' | 'lessonId'>);
+                itemId = figure.id;
+                lessonId = figure.lessonId;
             } else {
-                await this.dataSvc.updateFigure(data.id!, figureData);
+                lessonId = (await this.dataSvc.updateFigure(data.id!, figureData)).lessonId;
             }
         }
         
-        if (this.driveSvc.getAuthState().isSignedIn) {
-            this.syncQueueSvc.addTask('sync-gallery', { type }, true);
+        if (this.remoteStorage.isAvailable()) {
+            this.syncScheduler.requestItemSync(uploadTaskOf(type), type, itemId, lessonId);
         }
     }
 
@@ -425,11 +450,11 @@ class ItemManagementServiceImpl implements ItemManagementService {
         };
         await this.settingsSvc.saveGroupingConfiguration(type, groupingConfig);
 
-        if (this.driveSvc.getAuthState().isSignedIn) {
+        if (this.remoteStorage.isAvailable()) {
             const allDeletedIds = [...deletedCategoryIds, ...deletedSchoolIds, ...deletedInstructorIds];
             if (allDeletedIds.length > 0) await this.localDBSvc.addTombstones(allDeletedIds);
-            this.syncQueueSvc.addTask('sync-grouping-config', { type }, true);
-            if (allDeletedIds.length > 0) this.syncQueueSvc.addTask('sync-gallery', { type }, true);
+            this.syncScheduler.requestSync(type, 'sync-grouping-config');
+            if (allDeletedIds.length > 0) this.syncScheduler.requestSync(type);
         }
     }
     
@@ -447,13 +472,18 @@ class ItemManagementServiceImpl implements ItemManagementService {
     }
 }
 
+// --- Helper Functions ---
+const uploadTaskOf = (type: 'lesson' | 'figure'): SyncItemTaskType => type === 'lesson' ? 'upload-lesson' : 'upload-figure';
+
 // --- Singleton Instance ---
 
 export const itemManagementService: ItemManagementService = new ItemManagementServiceImpl(
     dataService,
     localDatabaseService,
-    syncQueueService,
-    googleDriveService,
+    syncSchedulerService,
+    remoteStorageService,
     thumbnailService,
     settingsService,
+    videoDownloadService,
+    videoEvictionService,
 );
\ No newline at end of file
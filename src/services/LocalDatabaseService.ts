@@ -1,5 +1,10 @@
 import type { Lesson, Figure, FigureCategory, LessonCategory, School, Instructor, DbChangePayload } from '../types';
 import type { AppSettings } from '../contexts/SettingsContext';
+import type { SyncTask, SyncBaseVersion, SyncTombstone } from './SyncQueueService';
+import type { SyncConflict } from './SyncConflictService';
+import type { SyncLogEntry } from './SyncHistoryService';
+import type { VideoUsage } from './VideoEvictionService';
+import { videoFileStorage, type VideoFileStorage } from './VideoFileStorage';
 import { openDB, deleteDB, type IDBPDatabase } from 'idb';
 import { createLogger } from '../utils/logger';
 
@@ -12,7 +17,7 @@ export interface LocalDatabaseService {
   addLesson(lessonData: Omit<Lesson, 'id' | 'videoId' | 'thumbTime'>, videoFile: File, thumbnailBlob: Blob): Promise<Lesson>;
   updateLesson(lessonId: string, lessonUpdateData: Partial<Omit<Lesson, 'id'>>, newThumbnailBlob?: Blob | null): Promise<Lesson>;
   deleteLesson(lessonId: string): Promise<void>;
-  saveDownloadedLesson(lesson: Lesson, videoFile: Blob, thumbnailBlob: Blob): Promise<void>;
+  saveDownloadedLesson(lesson: Lesson, videoFile: Blob | null, thumbnailBlob: Blob | null): Promise<void>;
 
   // Figures
   getFigures(): Promise<Figure[]>;
@@ -20,7 +25,7 @@ export interface LocalDatabaseService {
   addFigure(lessonId: string, figureData: Omit<Figure, 'id' | 'lessonId'>, thumbnailBlob: Blob): Promise<Figure>;
   updateFigure(figureId: string, figureUpdateData: Partial<Omit<Figure, 'id' | 'lessonId'>>, newThumbnailBlob?: Blob | null): Promise<Figure>;
   deleteFigure(figureId: string): Promise<void>;
-  saveDownloadedFigure(figure: Figure, thumbnailBlob: Blob): Promise<void>;
+  saveDownloadedFigure(figure: Figure, thumbnailBlob: Blob | null): Promise<void>;
 
   // Figure Categories
   getFigureCategories(): Promise<FigureCategory[]>;
@@ -66,8 +71,18 @@ export interface LocalDatabaseService {
   
   // Blob Handling
   getVideoBlob(videoId: string): Promise<Blob | undefined>;
+  getStoredVideoIds(): Promise<string[]>;
+  evictLessonVideo(lessonId: string): Promise<void>;
   getLessonThumbnailBlob(lessonId: string): Promise<Blob | undefined>;
   getFigureThumbnailBlob(figureId: string): Promise<Blob | undefined>;
+  // Size in bytes of every blob in a blob store, keyed like the store.
+  getBlobSizes(storeName: BlobStoreName): Promise<Map<string, number>>;
+  // Stores a video without a lesson, e.g. while restoring a backup.
+  saveVideoBlob(videoId: string, videoFile: Blob): Promise<void>;
+
+  // Video Usage (for eviction)
+  getVideoUsage(): Promise<VideoUsage[]>;
+  saveVideoUsage(usage: VideoUsage): Promise<void>;
 
   // Data Management
   clearAllData(): Promise<void>;
@@ -75,8 +90,29 @@ export interface LocalDatabaseService {
   // Sync / Tombstone Management
   addTombstones(driveIds: string[]): Promise<void>;
   getTombstones(): Promise<string[]>;
+  getTombstoneRecords(): Promise<SyncTombstone[]>;
   removeTombstones(driveIds: string[]): Promise<void>;
 
+  // Sync Queue Persistence
+  getSyncTasks(): Promise<SyncTask[]>;
+  saveSyncTasks(tasks: SyncTask[]): Promise<void>;
+
+  // Sync Base Versions, Conflicts & Change Tokens
+  getSyncBaseVersions(): Promise<SyncBaseVersion[]>;
+  saveSyncBaseVersions(versions: SyncBaseVersion[]): Promise<void>;
+  getSyncConflicts(): Promise<SyncConflict[]>;
+  saveSyncConflict(conflict: SyncConflict): Promise<void>;
+  deleteSyncConflict(itemId: string): Promise<void>;
+  deleteSyncBaseVersions(itemIds: string[]): Promise<void>;
+  getSyncChangeToken(type: 'lesson' | 'figure'): Promise<string | null>;
+  saveSyncChangeToken(type: 'lesson' | 'figure', token: string | null): Promise<void>;
+  resetSyncState(): Promise<void>;
+
+  // Sync Activity Log
+  getSyncLogEntries(): Promise<SyncLogEntry[]>;
+  addSyncLogEntries(entries: SyncLogEntry[], maxEntries: number): Promise<void>;
+  clearSyncLog(): Promise<void>;
+
   // Subscription for live updates
   subscribe(callback: (payload: DbChangePayload) => void): () => void;
   notifyListeners(payload: DbChangePayload): void;
@@ -92,7 +128,7 @@ const generateId = (): string => `${Date.now()}-${Math.random().toString(36).sub
 
 // --- IndexedDB Configuration ---
 const DB_NAME = 'bachata-moves-db';
-const DB_VERSION = 14; // Incremented for separate schools/instructors stores
+const DB_VERSION = 19; // Incremented for the video usage store
 export const LESSONS_STORE = 'lessons';
 export const FIGURES_STORE = 'figures';
 export const FIGURE_CATEGORIES_STORE = 'figure_categories';
@@ -106,6 +142,14 @@ export const VIDEO_FILES_STORE = 'video_files';
 export const LESSON_THUMBNAILS_STORE = 'lesson_thumbnails';
 export const FIGURE_THUMBNAILS_STORE = 'figure_thumbnails';
 export const SYNC_TOMBSTONES_STORE = 'sync_tombstones';
+export const SYNC_QUEUE_STORE = 'sync_queue';
+export const SYNC_BASE_VERSIONS_STORE = 'sync_base_versions';
+export const SYNC_CONFLICTS_STORE = 'sync_conflicts';
+export const SYNC_CHANGE_TOKENS_STORE = 'sync_change_tokens';
+export const SYNC_LOG_STORE = 'sync_log';
+export const VIDEO_USAGE_STORE = 'video_usage';
+
+export type BlobStoreName = typeof VIDEO_FILES_STORE | typeof LESSON_THUMBNAILS_STORE | typeof FIGURE_THUMBNAILS_STORE;
 
 
 export const DEVICE_SETTINGS_KEY = 'device-settings';
@@ -116,8 +160,10 @@ const DELETED_DRIVE_IDS_STORE = 'deleted_drive_ids'; // Legacy, will be removed
 const SCHOOLS_STORE = 'schools'; // Legacy
 const INSTRUCTORS_STORE = 'instructors'; // Legacy
 
+let videoFileMigration: Promise<void> | null = null;
+
 export async function openBachataDB(): Promise<IDBPDatabase> {
-  return openDB(DB_NAME, DB_VERSION, {
+  const db = await openDB(DB_NAME, DB_VERSION, {
     upgrade: async (db, oldVersion, newVersion, tx) => {
       // Store Creation (Idempotent)
       if (!db.objectStoreNames.contains(LESSONS_STORE)) {
@@ -147,6 +193,24 @@ export async function openBachataDB(): Promise<IDBPDatabase> {
       if (!db.objectStoreNames.contains(SYNC_TOMBSTONES_STORE)) {
         db.createObjectStore(SYNC_TOMBSTONES_STORE);
       }
+      if (!db.objectStoreNames.contains(SYNC_QUEUE_STORE)) {
+        db.createObjectStore(SYNC_QUEUE_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SYNC_BASE_VERSIONS_STORE)) {
+        db.createObjectStore(SYNC_BASE_VERSIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SYNC_CONFLICTS_STORE)) {
+        db.createObjectStore(SYNC_CONFLICTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SYNC_CHANGE_TOKENS_STORE)) {
+        db.createObjectStore(SYNC_CHANGE_TOKENS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(SYNC_LOG_STORE)) {
+        db.createObjectStore(SYNC_LOG_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(VIDEO_USAGE_STORE)) {
+        db.createObjectStore(VIDEO_USAGE_STORE, { keyPath: 'lessonId' });
+      }
 
       // Cleanup Legacy Stores
       if (db.objectStoreNames.contains(LEGACY_VIDEOS_STORE)) {
@@ -221,10 +285,45 @@ export async function openBachataDB(): Promise<IDBPDatabase> {
       }
     },
   });
+
+  // Videos now live in the Origin Private File System. Those stored by earlier versions are
+  // moved in the background; until then they are still read from VIDEO_FILES_STORE.
+  if (!videoFileMigration && videoFileStorage.isSupported()) {
+    videoFileMigration = migrateVideoFilesToOpfs(db)
+      .catch(e => logger.error('Failed to move videos to the Origin Private File System. Will retry on next start.', e));
+  }
+  return db;
+}
+
+async function migrateVideoFilesToOpfs(db: IDBPDatabase): Promise<void> {
+  const videoIds = (await db.getAllKeys(VIDEO_FILES_STORE)) as string[];
+  if (videoIds.length === 0) return;
+  logger.info(`Moving ${videoIds.length} videos from IndexedDB to the Origin Private File System...`);
+  // One video at a time, so that only a single blob is held in memory.
+  for (const videoId of videoIds) {
+    const videoFile: Blob | undefined = await db.get(VIDEO_FILES_STORE, videoId);
+    if (!videoFile) continue;
+    await videoFileStorage.writeFile(videoId, videoFile);
+
+    const tx = db.transaction(VIDEO_FILES_STORE, 'readwrite');
+    const stillStored = await tx.store.getKey(videoId);
+    await tx.store.delete(videoId);
+    await tx.done;
+    if (stillStored === undefined) {
+      // The lesson was deleted while its video was being copied.
+      await videoFileStorage.deleteFile(videoId);
+    }
+  }
+  logger.info('Finished moving videos to the Origin Private File System.');
 }
 
 class IndexDbLocalDatabaseService implements LocalDatabaseService {
   private listeners = new Set<(payload: DbChangePayload) => void>();
+  private videoFiles: VideoFileStorage;
+
+  constructor(videoFiles: VideoFileStorage) {
+    this.videoFiles = videoFiles;
+  }
 
   // --- Subscription ---
   public subscribe = (callback: (payload: DbChangePayload) => void): () => void => {
@@ -258,6 +357,13 @@ class IndexDbLocalDatabaseService implements LocalDatabaseService {
     return keys as string[];
   }
 
+  public getTombstoneRecords = async (): Promise<SyncTombstone[]> => {
+    const db = await openBachataDB();
+    const records: Partial<SyncTombstone>[] = await db.getAll(SYNC_TOMBSTONES_STORE);
+    const keys = await db.getAllKeys(SYNC_TOMBSTONES_STORE);
+    return keys.map((key, index) => ({ id: key as string, deletedAt: records[index]?.deletedAt }));
+  }
+
   public removeTombstones = async (driveIds: string[]): Promise<void> => {
     if (driveIds.length === 0) return;
     const db = await openBachataDB();
@@ -267,6 +373,116 @@ class IndexDbLocalDatabaseService implements LocalDatabaseService {
     await tx.done;
   }
 
+  // --- Sync Queue ---
+  public getSyncTasks = async (): Promise<SyncTask[]> => {
+    const db = await openBachataDB();
+    return db.getAll(SYNC_QUEUE_STORE);
+  }
+
+  public saveSyncTasks = async (tasks: SyncTask[]): Promise<void> => {
+    const db = await openBachataDB();
+    const tx = db.transaction(SYNC_QUEUE_STORE, 'readwrite');
+    const store = tx.objectStore(SYNC_QUEUE_STORE);
+    await store.clear();
+    await Promise.all(tasks.map(task => store.put(task)));
+    await tx.done;
+  }
+
+  // --- Sync Base Versions, Conflicts & Change Tokens ---
+  public getSyncBaseVersions = async (): Promise<SyncBaseVersion[]> => {
+    const db = await openBachataDB();
+    return db.getAll(SYNC_BASE_VERSIONS_STORE);
+  }
+
+  public saveSyncBaseVersions = async (versions: SyncBaseVersion[]): Promise<void> => {
+    if (versions.length === 0) return;
+    const db = await openBachataDB();
+    const tx = db.transaction(SYNC_BASE_VERSIONS_STORE, 'readwrite');
+    const store = tx.objectStore(SYNC_BASE_VERSIONS_STORE);
+    await Promise.all(versions.map(version => store.put(version)));
+    await tx.done;
+  }
+
+  public getSyncConflicts = async (): Promise<SyncConflict[]> => {
+    const db = await openBachataDB();
+    return db.getAll(SYNC_CONFLICTS_STORE);
+  }
+
+  public saveSyncConflict = async (conflict: SyncConflict): Promise<void> => {
+    const db = await openBachataDB();
+    await db.put(SYNC_CONFLICTS_STORE, conflict);
+  }
+
+  public deleteSyncConflict = async (itemId: string): Promise<void> => {
+    const db = await openBachataDB();
+    await db.delete(SYNC_CONFLICTS_STORE, itemId);
+  }
+
+  public deleteSyncBaseVersions = async (itemIds: string[]): Promise<void> => {
+    if (itemIds.length === 0) return;
+    const db = await openBachataDB();
+    const tx = db.transaction(SYNC_BASE_VERSIONS_STORE, 'readwrite');
+    await Promise.all(itemIds.map(id => tx.store.delete(id)));
+    await tx.done;
+  }
+
+  public getSyncChangeToken = async (type: 'lesson' | 'figure'): Promise<string | null> => {
+    const db = await openBachataDB();
+    const record = await db.get(SYNC_CHANGE_TOKENS_STORE, type);
+    return record?.token ?? null;
+  }
+
+  public saveSyncChangeToken = async (type: 'lesson' | 'figure', token: string | null): Promise<void> => {
+    const db = await openBachataDB();
+    if (token) {
+      await db.put(SYNC_CHANGE_TOKENS_STORE, { id: type, token });
+    } else {
+      await db.delete(SYNC_CHANGE_TOKENS_STORE, type);
+    }
+  }
+
+  public getSyncLogEntries = async (): Promise<SyncLogEntry[]> => {
+    const db = await openBachataDB();
+    return db.getAll(SYNC_LOG_STORE);
+  }
+
+  public addSyncLogEntries = async (entries: SyncLogEntry[], maxEntries: number): Promise<void> => {
+    const db = await openBachataDB();
+    const tx = db.transaction(SYNC_LOG_STORE, 'readwrite');
+    await Promise.all(entries.map(entry => tx.store.put(entry)));
+    // Ids start with a timestamp, so the oldest entries come first.
+    const keys = await tx.store.getAllKeys();
+    await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => tx.store.delete(key)));
+    await tx.done;
+  }
+
+  public clearSyncLog = async (): Promise<void> => {
+    const db = await openBachataDB();
+    await db.clear(SYNC_LOG_STORE);
+  }
+
+  // Forgets everything tied to a specific remote backend, so the next sync starts from scratch.
+  public resetSyncState = async (): Promise<void> => {
+    const db = await openBachataDB();
+    const tx = db.transaction([SYNC_BASE_VERSIONS_STORE, SYNC_CHANGE_TOKENS_STORE, SYNC_TOMBSTONES_STORE, LESSONS_STORE, FIGURES_STORE], 'readwrite');
+    await Promise.all([
+      tx.objectStore(SYNC_BASE_VERSIONS_STORE).clear(),
+      tx.objectStore(SYNC_CHANGE_TOKENS_STORE).clear(),
+      tx.objectStore(SYNC_TOMBSTONES_STORE).clear(),
+    ]);
+    for (const storeName of [LESSONS_STORE, FIGURES_STORE]) {
+      const store = tx.objectStore(storeName);
+      const items = await store.getAll();
+      for (const item of items) {
+        if (item.driveId || item.videoDriveId) {
+          const { driveId, videoDriveId, ...rest } = item;
+          await store.put(rest);
+        }
+      }
+    }
+    await tx.done;
+  }
+
   // --- Lessons ---
   public getLessons = async (): Promise<Lesson[]> => { 
     const db = await openBachataDB();
@@ -288,10 +504,14 @@ class IndexDbLocalDatabaseService implements LocalDatabaseService {
       modifiedTime: new Date().toISOString(),
     };
 
+    // The video file is written before the transaction opens, which would otherwise commit while waiting on it.
+    const usesVideoFiles = this.videoFiles.isSupported();
+    if (usesVideoFiles) await this.videoFiles.writeFile(newVideoId, videoFile);
+
     const tx = db.transaction([LESSONS_STORE, VIDEO_FILES_STORE, LESSON_THUMBNAILS_STORE], 'readwrite');
     await Promise.all([
       tx.objectStore(LESSONS_STORE).put(newLesson),
-      tx.objectStore(VIDEO_FILES_STORE).put(videoFile, newVideoId),
+      !usesVideoFiles && tx.objectStore(VIDEO_FILES_STORE).put(videoFile, newVideoId),
       tx.objectStore(LESSON_THUMBNAILS_STORE).put(thumbnailBlob, newId),
     ]);
     await tx.done;
@@ -335,7 +555,7 @@ class IndexDbLocalDatabaseService implements LocalDatabaseService {
         return;
     }
 
-    const tx = db.transaction([LESSONS_STORE, VIDEO_FILES_STORE, LESSON_THUMBNAILS_STORE], 'readwrite');
+    const tx = db.transaction([LESSONS_STORE, VIDEO_FILES_STORE, LESSON_THUMBNAILS_STORE, VIDEO_USAGE_STORE], 'readwrite');
     
     const allLessons = await tx.objectStore(LESSONS_STORE).getAll();
     const otherLessonsUsingVideo = allLessons.filter(l => l.videoId === lesson.videoId && l.id !== lessonId);
@@ -343,25 +563,34 @@ class IndexDbLocalDatabaseService implements LocalDatabaseService {
     const deletePromises = [
       tx.objectStore(LESSONS_STORE).delete(lessonId),
       tx.objectStore(LESSON_THUMBNAILS_STORE).delete(lessonId),
+      tx.objectStore(VIDEO_USAGE_STORE).delete(lessonId),
     ];
 
-    if (otherLessonsUsingVideo.length === 0) {
+    const deletesVideo = otherLessonsUsingVideo.length === 0;
+    if (deletesVideo) {
         logger.info(`No other lessons use videoId ${lesson.videoId}. Deleting video blob.`);
         deletePromises.push(tx.objectStore(VIDEO_FILES_STORE).delete(lesson.videoId));
     }
     
     await Promise.all(deletePromises);
     await tx.done;
+    if (deletesVideo && this.videoFiles.isSupported()) {
+        await this.videoFiles.deleteFile(lesson.videoId);
+    }
     this.notify({ type: 'lesson', action: 'delete', ids: [lessonId] });
   }
 
-  public saveDownloadedLesson = async (lesson: Lesson, videoFile: Blob, thumbnailBlob: Blob): Promise<void> => {
+  public saveDownloadedLesson = async (lesson: Lesson, videoFile: Blob | null, thumbnailBlob: Blob | null): Promise<void> => {
     const db = await openBachataDB();
+    const usesVideoFiles = this.videoFiles.isSupported();
+    if (videoFile && usesVideoFiles) await this.videoFiles.writeFile(lesson.videoId, videoFile);
+
     const tx = db.transaction([LESSONS_STORE, VIDEO_FILES_STORE, LESSON_THUMBNAILS_STORE], 'readwrite');
+    // Without a video, only the metadata is stored and the lesson stays "cloud only".
     await Promise.all([
         tx.objectStore(LESSONS_STORE).put(lesson),
-        tx.objectStore(LESSON_THUMBNAILS_STORE).put(thumbnailBlob, lesson.id),
-        tx.objectStore(VIDEO_FILES_STORE).put(videoFile, lesson.videoId)
+        thumbnailBlob && tx.objectStore(LESSON_THUMBNAILS_STORE).put(thumbnailBlob, lesson.id),
+        videoFile && !usesVideoFiles && tx.objectStore(VIDEO_FILES_STORE).put(videoFile, lesson.videoId)
     ]);
     await tx.done;
     this.notify({ type: 'lesson', action: 'update', ids: [lesson.id] });
@@ -424,12 +653,12 @@ class IndexDbLocalDatabaseService implements LocalDatabaseService {
     this.notify({ type: 'figure', action: 'delete', ids: [figureId] });
   }
 
-  public saveDownloadedFigure = async (figure: Figure, thumbnailBlob: Blob): Promise<void> => {
+  public saveDownloadedFigure = async (figure: Figure, thumbnailBlob: Blob | null): Promise<void> => {
     const db = await openBachataDB();
     const tx = db.transaction([FIGURES_STORE, FIGURE_THUMBNAILS_STORE], 'readwrite');
     await Promise.all([
       tx.objectStore(FIGURES_STORE).put(figure),
-      tx.objectStore(FIGURE_THUMBNAILS_STORE).put(thumbnailBlob, figure.id),
+      thumbnailBlob && tx.objectStore(FIGURE_THUMBNAILS_STORE).put(thumbnailBlob, figure.id),
     ]);
     await tx.done;
     this.notify({ type: 'figure', action: 'update', ids: [figure.id] });
@@ -696,6 +925,16 @@ class IndexDbLocalDatabaseService implements LocalDatabaseService {
         'figureFilter_excludedCategoryIds',
         'figureFilter_excludedSchoolIds',
         'figureFilter_excludedInstructorIds',
+        'videoSync_maxAgeMonths',
+        'videoSync_categoryIds',
+        'videoSync_schoolIds',
+        'videoSync_onDemand',
+        'videoSync_pinnedLessonIds',
+        'videoEviction_auto',
+        'videoSync_wifiOnly',
+        'videoSync_onMobileData',
+        'syncSchedule_enabled',
+        'syncSchedule_intervalMinutes',
     ];
 
     for (const key in settingsData) {
@@ -729,14 +968,85 @@ class IndexDbLocalDatabaseService implements LocalDatabaseService {
 
   public async getVideoBlob(videoId: string): Promise<Blob | undefined> {
     const db = await openBachataDB();
+    if (this.videoFiles.isSupported()) {
+      const file = await this.videoFiles.readFile(videoId);
+      if (file) return file;
+    }
+    // Not yet moved to the Origin Private File System, or it is unsupported.
     return await db.get(VIDEO_FILES_STORE, videoId);
   }
 
+  public async getStoredVideoIds(): Promise<string[]> {
+    return [...(await this.getBlobSizes(VIDEO_FILES_STORE)).keys()];
+  }
+
+  public async getBlobSizes(storeName: BlobStoreName): Promise<Map<string, number>> {
+    const db = await openBachataDB();
+    const sizes = new Map<string, number>();
+    // Walk a cursor so only one blob handle is held at a time; reading a blob's size does not load its contents.
+    let cursor = await db.transaction(storeName).store.openCursor();
+    while (cursor) {
+      sizes.set(cursor.key as string, (cursor.value as Blob).size);
+      cursor = await cursor.continue();
+    }
+    if (storeName === VIDEO_FILES_STORE && this.videoFiles.isSupported()) {
+      (await this.videoFiles.getFileSizes()).forEach((size, videoId) => sizes.set(videoId, size));
+    }
+    return sizes;
+  }
+
+  public saveVideoBlob = async (videoId: string, videoFile: Blob): Promise<void> => {
+    if (this.videoFiles.isSupported()) {
+      await this.videoFiles.writeFile(videoId, videoFile);
+      return;
+    }
+    const db = await openBachataDB();
+    await db.put(VIDEO_FILES_STORE, videoFile, videoId);
+  }
+
+  // Drops the local copy of an uploaded video; the lesson, its thumbnail and figures stay.
+  public evictLessonVideo = async (lessonId: string): Promise<void> => {
+    const db = await openBachataDB();
+    const tx = db.transaction([LESSONS_STORE, VIDEO_FILES_STORE, VIDEO_USAGE_STORE], 'readwrite');
+    const lesson: Lesson | undefined = await tx.objectStore(LESSONS_STORE).get(lessonId);
+    if (!lesson) throw new Error(`Lesson with id "${lessonId}" not found.`);
+    if (!lesson.videoDriveId) throw new Error(`Cannot evict the video of lesson ${lessonId}: it was never uploaded.`);
+    const allLessons: Lesson[] = await tx.objectStore(LESSONS_STORE).getAll();
+    const otherLessonsUsingVideo = allLessons.filter(l => l.videoId === lesson.videoId && l.id !== lessonId);
+    if (otherLessonsUsingVideo.length > 0) {
+      // The video is still needed by lessons that were not evicted, so it stays and nothing is freed.
+      logger.info(`Video ${lesson.videoId} of lesson ${lessonId} is also used by ${otherLessonsUsingVideo.length} other lesson(s). Keeping it.`);
+      await tx.done;
+      return;
+    }
+    const usage: VideoUsage | undefined = await tx.objectStore(VIDEO_USAGE_STORE).get(lessonId);
+    await Promise.all([
+      tx.objectStore(VIDEO_FILES_STORE).delete(lesson.videoId),
+      tx.objectStore(VIDEO_USAGE_STORE).put({ lessonId, lastWatchedAt: usage?.lastWatchedAt ?? null, evictedAt: Date.now() }),
+    ]);
+    await tx.done;
+    if (this.videoFiles.isSupported()) {
+      await this.videoFiles.deleteFile(lesson.videoId);
+    }
+    this.notify({ type: 'lesson', action: 'update', ids: [lessonId] });
+  }
+
+  public getVideoUsage = async (): Promise<VideoUsage[]> => {
+    const db = await openBachataDB();
+    return db.getAll(VIDEO_USAGE_STORE);
+  }
+
+  public saveVideoUsage = async (usage: VideoUsage): Promise<void> => {
+    const db = await openBachataDB();
+    await db.put(VIDEO_USAGE_STORE, usage);
+  }
+
   public clearAllData = async (): Promise<void> => {
     await deleteDB(DB_NAME);
+    await this.videoFiles.clear();
     this.notify({ type: 'all', action: 'clear' });
   }
 }
 
 // --- Singleton Instance ---
-export const localDatabaseService: LocalDatabaseService = new IndexDbLocalDatabaseService();
\ No newline at end of file
+export const localDatabaseService: LocalDatabaseService = new IndexDbLocalDatabaseService(videoFileStorage);
\ No newline at end of file
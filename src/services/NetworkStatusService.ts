@@ -0,0 +1,53 @@
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('NetworkStatus');
+
+// --- Types and Interface ---
+
+/**
+ * Reports whether the device is on a metered connection, using the Network Information API.
+ * Where the browser does not implement it, the connection type is unknown.
+ */
+export interface NetworkStatusService {
+    isConnectionTypeSupported(): boolean;
+    // True on cellular connections or when the user asked the browser to save data; null when unknown.
+    isMeteredConnection(): boolean | null;
+    subscribe(listener: () => void): () => void;
+}
+
+// --- Implementation ---
+class NetworkStatusServiceImpl implements NetworkStatusService {
+    private listeners: Set<() => void> = new Set();
+
+    constructor() {
+        getConnection()?.addEventListener('change', this.handleChange);
+    }
+
+    // --- Public Interface ---
+
+    public isConnectionTypeSupported = (): boolean => getConnection()?.type !== undefined;
+
+    public isMeteredConnection = (): boolean | null => {
+        const connection = getConnection();
+        if (!connection || connection.type === undefined) return null;
+        return connection.type === 'cellular' || !!connection.saveData;
+    }
+
+    public subscribe = (listener: () => void): () => void => {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    // --- Private Methods ---
+    private handleChange = (): void => {
+        logger.info(`Connection changed. Metered: ${this.isMeteredConnection()}`);
+        this.listeners.forEach(listener => listener());
+    }
+}
+
+// --- Helper Functions ---
+const getConnection = (): NetworkInformation | undefined =>
+    typeof navigator !== 'undefined' ? navigator.connection : undefined;
+
+// --- Singleton Instance ---
+export const networkStatusService: NetworkStatusService = new NetworkStatusServiceImpl();
@@ -0,0 +1,160 @@
+import type { Lesson, Figure } from '../types';
+import type { LocalDatabaseService } from './LocalDatabaseService';
+import { localDatabaseService } from './LocalDatabaseService';
+import { remoteStorageService } from './RemoteStorageService';
+import { syncHistoryService, SyncHistoryService } from './SyncHistoryService';
+import { FOLDERS } from './SyncPlanService';
+import type { SyncBaseVersion } from './SyncQueueService';
+import type { RemoteStorageProvider, RemoteFile } from '../api/RemoteStorageProvider';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('RemoteCleanup');
+
+// --- Constants ---
+// Another device may be halfway through uploading a lesson: its video goes up before its JSON.
+const ORPHAN_MIN_AGE_MS = 24 * 60 * 60 * 1000;
+const TOMBSTONE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// --- Types and Interface ---
+
+export interface RemoteCleanupReport {
+  orphanedVideos: RemoteFile[]; // Not referenced by any lesson
+  orphanedThumbnails: RemoteFile[]; // Of lessons or figures that no longer exist
+  orphanedFigures: RemoteFile[]; // Figure JSON files whose lesson no longer exists
+  staleTombstoneIds: string[]; // Older than the retention window, for files that are already gone
+  totalBytes: number; // Size of the remote files that would be deleted, as far as the provider reports it
+  createdAt: number;
+}
+
+export interface RemoteCleanupResult {
+  deletedFileCount: number;
+  failedFileCount: number;
+  removedTombstoneCount: number;
+}
+
+/**
+ * Finds remote files that no synced item refers to any more, and tombstones that have outlived their use.
+ * Nothing is deleted until the user confirms the report.
+ */
+export interface RemoteCleanupService {
+    scan(): Promise<RemoteCleanupReport>;
+    cleanUp(report: RemoteCleanupReport): Promise<RemoteCleanupResult>;
+}
+
+// --- Implementation ---
+class RemoteCleanupServiceImpl implements RemoteCleanupService {
+    private localDB: LocalDatabaseService;
+    private remoteStorage: RemoteStorageProvider;
+    private historySvc: SyncHistoryService;
+
+    constructor(localDB: LocalDatabaseService, remoteStorage: RemoteStorageProvider, historySvc: SyncHistoryService) {
+        this.localDB = localDB;
+        this.remoteStorage = remoteStorage;
+        this.historySvc = historySvc;
+    }
+
+    // --- Public Interface ---
+
+    public scan = async (): Promise<RemoteCleanupReport> => {
+        if (!this.remoteStorage.isAvailable()) throw new Error("Remote storage is not available");
+        logger.info('Scanning remote storage for orphaned files.');
+        const [lessonFiles, figureFiles, videoFiles, thumbnailFiles] = await Promise.all([
+            this.remoteStorage.listFiles(`/${FOLDERS.lessons}`),
+            this.remoteStorage.listFiles(`/${FOLDERS.figures}`),
+            this.remoteStorage.listFiles(`/${FOLDERS.videos}`),
+            this.remoteStorage.listFiles(`/${FOLDERS.thumbnails}`),
+        ]);
+        const [localLessons, localFigures, baseVersions, tombstones] = await Promise.all([
+            this.localDB.getLessons(),
+            this.localDB.getFigures(),
+            this.localDB.getSyncBaseVersions(),
+            this.localDB.getTombstoneRecords(),
+        ]);
+        const now = Date.now();
+        const isOldEnough = (file: RemoteFile) => now - new Date(file.modifiedTime).getTime() >= ORPHAN_MIN_AGE_MS;
+
+        // Items on this device count as existing too: they may not have been uploaded yet.
+        const lessonIds = new Set([...lessonFiles.map(idOf), ...localLessons.map(lesson => lesson.id)]);
+        const figureIds = new Set([...figureFiles.map(idOf), ...localFigures.map(figure => figure.id)]);
+
+        const referencedVideoIds = new Set(localLessons.map(lesson => lesson.videoDriveId).filter(Boolean));
+        // Videos are named after their lesson; a lesson that cannot be read protects its videos.
+        const unreadableLessonIds = new Set<string>();
+        for (const file of lessonFiles) {
+            const lesson = await this.readItem<Lesson>(file, baseVersions);
+            if (lesson) referencedVideoIds.add(lesson.videoDriveId);
+            else unreadableLessonIds.add(idOf(file));
+        }
+        const orphanedVideos = videoFiles.filter(file =>
+            isOldEnough(file) && !referencedVideoIds.has(file.id) && !unreadableLessonIds.has(idOf(file)));
+
+        const orphanedFigures: RemoteFile[] = [];
+        for (const file of figureFiles.filter(isOldEnough)) {
+            const figure = await this.readItem<Figure>(file, baseVersions);
+            if (figure && !lessonIds.has(figure.lessonId)) orphanedFigures.push(file);
+        }
+
+        const orphanedThumbnails = thumbnailFiles.filter(file => {
+            if (!isOldEnough(file)) return false;
+            const match = /^(lesson|figure)-(.+)\.jpg$/.exec(file.name);
+            if (!match) return false;
+            return match[1] === 'lesson' ? !lessonIds.has(match[2]) : !figureIds.has(match[2]);
+        });
+
+        // A tombstone whose file still exists is a deletion that has not reached the remote storage yet.
+        const remoteFileIds = new Set([...lessonFiles, ...figureFiles, ...videoFiles, ...thumbnailFiles].map(file => file.id));
+        const staleTombstoneIds = tombstones
+            .filter(tombstone => !remoteFileIds.has(tombstone.id))
+            .filter(tombstone => !tombstone.deletedAt || now - new Date(tombstone.deletedAt).getTime() >= TOMBSTONE_RETENTION_MS)
+            .map(tombstone => tombstone.id);
+
+        const totalBytes = [...orphanedVideos, ...orphanedThumbnails, ...orphanedFigures].reduce((sum, file) => sum + (file.size ?? 0), 0);
+        logger.info(`Found ${orphanedVideos.length} video(s), ${orphanedThumbnails.length} thumbnail(s), ${orphanedFigures.length} figure(s) and ${staleTombstoneIds.length} tombstone(s) to clean up.`);
+        return { orphanedVideos, orphanedThumbnails, orphanedFigures, staleTombstoneIds, totalBytes, createdAt: now };
+    }
+
+    public cleanUp = async (report: RemoteCleanupReport): Promise<RemoteCleanupResult> => {
+        if (!this.remoteStorage.isAvailable()) throw new Error("Remote storage is not available");
+        const files: { file: RemoteFile; type: 'lesson' | 'figure'; itemId: string }[] = [
+            ...report.orphanedVideos.map(file => ({ file, type: 'lesson' as const, itemId: idOf(file) })),
+            ...report.orphanedThumbnails.map(file => {
+                const [type, ...rest] = idOf(file).split('-');
+                return { file, type: type as 'lesson' | 'figure', itemId: rest.join('-') };
+            }),
+            ...report.orphanedFigures.map(file => ({ file, type: 'figure' as const, itemId: idOf(file) })),
+        ];
+
+        let deletedFileCount = 0;
+        let failedFileCount = 0;
+        for (const { file, type, itemId } of files) {
+            try {
+                await this.remoteStorage.deleteFileById(file.id);
+                deletedFileCount++;
+                await this.historySvc.record({ type, itemId, itemName: null, action: 'delete-remote', reason: 'orphaned', detail: file.name, provider: this.remoteStorage.name });
+            } catch (e: any) {
+                failedFileCount++;
+                logger.error(`Failed to delete orphaned file ${file.name}.`, e);
+                await this.historySvc.record({ type, itemId, itemName: null, action: 'fail', reason: 'orphaned', detail: e?.message, provider: this.remoteStorage.name });
+            }
+        }
+
+        await this.localDB.removeTombstones(report.staleTombstoneIds);
+        logger.info(`Deleted ${deletedFileCount} orphaned file(s), ${failedFileCount} failed. Removed ${report.staleTombstoneIds.length} tombstone(s).`);
+        return { deletedFileCount, failedFileCount, removedTombstoneCount: report.staleTombstoneIds.length };
+    }
+
+    // --- Private Methods ---
+
+    // The last synced snapshot is used when the remote file has not changed since, saving a download.
+    private readItem = async <T extends Lesson | Figure>(file: RemoteFile, baseVersions: SyncBaseVersion[]): Promise<T | null> => {
+        const baseVersion = baseVersions.find(version => version.remoteFileId === file.id && version.remoteModifiedTime === file.modifiedTime);
+        if (baseVersion?.snapshot) return baseVersion.snapshot as T;
+        return this.remoteStorage.readJsonFileById<T>(file.id);
+    }
+}
+
+// --- Helper Functions ---
+const idOf = (file: RemoteFile): string => file.name.replace(/\.(json|mp4|jpg)$/, '');
+
+// --- Singleton Instance ---
+export const remoteCleanupService: RemoteCleanupService = new RemoteCleanupServiceImpl(localDatabaseService, remoteStorageService, syncHistoryService);
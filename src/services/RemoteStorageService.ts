@@ -0,0 +1,144 @@
+import type { RemoteStorageProvider, RemoteFile, RemoteFolderChanges, RemoteAvailabilityListener, TransferOptions, RemoteFileWrite, RemoteBatchResult } from '../api/RemoteStorageProvider';
+import { googleDriveService } from './GoogleDriveService';
+import { webDavStorageService } from './WebDavStorageService';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('RemoteStorage');
+const LOCAL_STORAGE_SELECTED_PROVIDER_KEY = 'remote_storage_provider';
+// Data synced before backends were pluggable was always synced with Google Drive.
+const DEFAULT_PROVIDER_NAME = 'google-drive';
+
+// --- Types and Interface ---
+
+/**
+ * Delegates to the backend the user chose to sync with, while it is connected.
+ * This lets the sync logic depend on a single provider while the user switches backends.
+ */
+export interface RemoteStorageService extends RemoteStorageProvider {
+    getSelectedProviderName(): string;
+    getConnectedProviderNames(): string[];
+    // Switching makes the sync queue reset the sync state, so the UI asks the user to confirm first.
+    selectProvider(name: string): void;
+    // Called when the selection or the connection of any backend changes.
+    subscribe(listener: () => void): () => void;
+}
+
+// --- Implementation ---
+class RemoteStorageServiceImpl implements RemoteStorageService {
+    private providers: RemoteStorageProvider[];
+    private selectedProviderName: string;
+    private selectionListeners: Set<() => void> = new Set();
+
+    constructor(providers: RemoteStorageProvider[]) {
+        this.providers = providers;
+        this.selectedProviderName = localStorage.getItem(LOCAL_STORAGE_SELECTED_PROVIDER_KEY) || DEFAULT_PROVIDER_NAME;
+    }
+
+    // --- Selection ---
+
+    public getSelectedProviderName = (): string => this.selectedProviderName;
+
+    public getConnectedProviderNames = (): string[] =>
+        this.providers.filter(provider => provider.isAvailable()).map(provider => provider.name);
+
+    public selectProvider = (name: string): void => {
+        if (name === this.selectedProviderName) return;
+        if (!this.providers.some(provider => provider.name === name)) throw new Error(`Unknown remote storage: ${name}`);
+        logger.info(`Remote storage selected: ${name}`);
+        this.selectedProviderName = name;
+        localStorage.setItem(LOCAL_STORAGE_SELECTED_PROVIDER_KEY, name);
+        this.selectionListeners.forEach(listener => listener());
+    };
+
+    public subscribe = (listener: () => void): () => void => {
+        this.selectionListeners.add(listener);
+        const unsubscribes = this.providers.map(provider => provider.onAvailabilityChanged(() => listener()));
+        return () => {
+            this.selectionListeners.delete(listener);
+            unsubscribes.forEach(unsubscribe => unsubscribe());
+        };
+    };
+
+    // --- Remote Storage Provider ---
+
+    public get name(): string {
+        return this.getActiveProvider()?.name ?? 'none';
+    }
+
+    public isAvailable = (): boolean => this.getActiveProvider() !== null;
+
+    public onAvailabilityChanged = (listener: RemoteAvailabilityListener): () => void => {
+        let lastName: string | null = null;
+        const handleChange = () => {
+            // Switching from one available backend to another is reported as a change too.
+            const activeName = this.getActiveProvider()?.name ?? null;
+            if (activeName !== lastName) {
+                lastName = activeName;
+                listener(activeName !== null);
+            }
+        };
+        const unsubscribes = this.providers.map(provider => provider.onAvailabilityChanged(handleChange));
+        this.selectionListeners.add(handleChange);
+        return () => {
+            this.selectionListeners.delete(handleChange);
+            unsubscribes.forEach(unsubscribe => unsubscribe());
+        };
+    };
+
+    public listFiles = (folderPath: string): Promise<RemoteFile[]> => this.getProvider().listFiles(folderPath);
+    public getFile = (filePath: string): Promise<RemoteFile | null> => this.getProvider().getFile(filePath);
+    public readJsonFile = <T>(filePath: string): Promise<T | null> => this.getProvider().readJsonFile<T>(filePath);
+    public readJsonFileWithMetadata = <T>(filePath: string) => this.getProvider().readJsonFileWithMetadata<T>(filePath);
+    public readJsonFileWithMetadataById = <T>(fileId: string) => this.getProvider().readJsonFileWithMetadataById<T>(fileId);
+    public readJsonFileById = <T>(fileId: string): Promise<T | null> => this.getProvider().readJsonFileById<T>(fileId);
+    public readBinaryFile = (filePath: string): Promise<Blob | null> => this.getProvider().readBinaryFile(filePath);
+    public readBinaryFileById = (fileId: string, options?: TransferOptions): Promise<Blob | null> => this.getProvider().readBinaryFileById(fileId, options);
+    public writeFile = (filePath: string, content: string | Blob, mimeType: string, options?: TransferOptions): Promise<RemoteFile> => this.getProvider().writeFile(filePath, content, mimeType, options);
+    public deleteFile = (filePath: string): Promise<void> => this.getProvider().deleteFile(filePath);
+    public deleteFileById = (fileId: string): Promise<void> => this.getProvider().deleteFileById(fileId);
+
+    // Only exposed when the active backend has a changes feed.
+    public get getChangesStartPageToken(): (() => Promise<string>) | undefined {
+        const provider = this.getActiveProvider();
+        return provider?.getChangesStartPageToken?.bind(provider);
+    }
+
+    public get listFolderChanges(): ((folderPath: string, pageToken: string) => Promise<RemoteFolderChanges>) | undefined {
+        const provider = this.getActiveProvider();
+        return provider?.listFolderChanges?.bind(provider);
+    }
+
+    // Only exposed when the active backend can batch requests; callers fall back to one request per file.
+    public get writeFiles(): ((files: RemoteFileWrite[], signal?: AbortSignal) => Promise<RemoteBatchResult<RemoteFile>[]>) | undefined {
+        const provider = this.getActiveProvider();
+        return provider?.writeFiles?.bind(provider);
+    }
+
+    public get deleteFiles(): ((filePaths: string[], signal?: AbortSignal) => Promise<RemoteBatchResult<void>[]>) | undefined {
+        const provider = this.getActiveProvider();
+        return provider?.deleteFiles?.bind(provider);
+    }
+
+    public get deleteFilesById(): ((fileIds: string[], signal?: AbortSignal) => Promise<RemoteBatchResult<void>[]>) | undefined {
+        const provider = this.getActiveProvider();
+        return provider?.deleteFilesById?.bind(provider);
+    }
+
+    private getActiveProvider(): RemoteStorageProvider | null {
+        return this.providers.find(provider => provider.name === this.selectedProviderName && provider.isAvailable()) ?? null;
+    }
+
+    private getProvider(): RemoteStorageProvider {
+        const provider = this.getActiveProvider();
+        if (!provider) throw new Error("No remote storage is connected.");
+        return provider;
+    }
+}
+
+// --- Singleton Instance ---
+const providers: RemoteStorageProvider[] = [googleDriveService, webDavStorageService];
+export const remoteStorageService: RemoteStorageService = new RemoteStorageServiceImpl(providers);
+
+// Finds a backend by name while it is still connected, e.g. the previous one after the user switched to another.
+export const findConnectedProvider = (name: string): RemoteStorageProvider | null =>
+    providers.find(provider => provider.name === name && provider.isAvailable()) ?? null;
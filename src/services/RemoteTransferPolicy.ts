@@ -0,0 +1,35 @@
+import { isAbortError, type RemoteBatchResult } from '../api/RemoteStorageProvider';
+
+// --- Helper Functions ---
+// Errors thrown by remote storage providers describe themselves through optional flags,
+// which decide whether the sync queue retries, asks the user to sign in again or stops.
+
+export const isTransientRemoteError = (error: unknown): boolean =>
+    typeof error === 'object' && error !== null && (error as { isTransient?: unknown }).isTransient === true;
+
+export const isReauthenticationRequiredError = (error: unknown): boolean =>
+    typeof error === 'object' && error !== null && (error as { requiresReauthentication?: unknown }).requiresReauthentication === true;
+
+export const isStorageQuotaExceededError = (error: unknown): boolean =>
+    typeof error === 'object' && error !== null && (error as { isStorageQuotaExceeded?: unknown }).isStorageQuotaExceeded === true;
+
+// Set when the remote storage asked to be left alone for a while.
+export const getRetryAfterMs = (error: unknown): number | undefined => {
+    const retryAfterMs = typeof error === 'object' && error !== null ? (error as { retryAfterMs?: unknown }).retryAfterMs : undefined;
+    return typeof retryAfterMs === 'number' ? retryAfterMs : undefined;
+};
+
+// Runs an operation for each item in turn and collects the results. A cancelled transfer or an expired
+// sign-in would fail every remaining item as well, so those are thrown instead of being reported per item.
+export const settleEach = async <T, R>(items: T[], operation: (item: T, index: number) => Promise<R>): Promise<RemoteBatchResult<R>[]> => {
+    const results: RemoteBatchResult<R>[] = [];
+    for (const [index, item] of items.entries()) {
+        try {
+            results.push({ ok: true, value: await operation(item, index) });
+        } catch (error) {
+            if (isAbortError(error) || isReauthenticationRequiredError(error)) throw error;
+            results.push({ ok: false, error });
+        }
+    }
+    return results;
+};
@@ -50,6 +50,16 @@ const defaultDeviceSettings: Partial<AppSettings> = {
   figureFilter_excludedCategoryIds: [],
   figureFilter_excludedSchoolIds: [],
   figureFilter_excludedInstructorIds: [],
+  videoSync_maxAgeMonths: null,
+  videoSync_categoryIds: [],
+  videoSync_schoolIds: [],
+  videoSync_onDemand: false,
+  videoSync_pinnedLessonIds: [],
+  videoEviction_auto: true,
+  videoSync_wifiOnly: false,
+  videoSync_onMobileData: false,
+  syncSchedule_enabled: true,
+  syncSchedule_intervalMinutes: 15,
 };
 
 const defaultSyncSettings: Partial<AppSettings> = {
@@ -82,6 +92,10 @@ const DEVICE_SETTING_KEYS: (keyof AppSettings)[] = [
     'lessonFilter_excludedSchoolIds', 'lessonFilter_excludedInstructorIds',
     'figureFilter_excludedYears', 'figureFilter_excludedCategoryIds',
     'figureFilter_excludedSchoolIds', 'figureFilter_excludedInstructorIds',
+    'videoSync_maxAgeMonths', 'videoSync_categoryIds', 'videoSync_schoolIds',
+    'videoSync_onDemand', 'videoSync_pinnedLessonIds', 'videoEviction_auto',
+    'videoSync_wifiOnly', 'videoSync_onMobileData',
+    'syncSchedule_enabled', 'syncSchedule_intervalMinutes',
 ];
 
 
@@ -0,0 +1,103 @@
+import type { Lesson } from '../types';
+import type { LocalDatabaseService } from './LocalDatabaseService';
+import { localDatabaseService, VIDEO_FILES_STORE, LESSON_THUMBNAILS_STORE, FIGURE_THUMBNAILS_STORE } from './LocalDatabaseService';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('StorageUsage');
+
+// --- Constants ---
+const LARGEST_LESSONS_COUNT = 5;
+
+// --- Types and Interface ---
+
+export interface LessonStorageUsage {
+  lesson: Lesson;
+  videoBytes: number;
+  thumbnailBytes: number; // The lesson's thumbnail plus the thumbnails of its figures
+  totalBytes: number;
+}
+
+export interface StorageUsageReport {
+  // Browser-wide figures for this origin; null where the Storage API is unavailable.
+  usage: number | null;
+  quota: number | null;
+  videoBytes: number;
+  lessonThumbnailBytes: number;
+  figureThumbnailBytes: number;
+  largestLessons: LessonStorageUsage[];
+  isPersisted: boolean;
+}
+
+export interface StorageUsageService {
+    getReport(): Promise<StorageUsageReport>;
+    // Asks the browser not to evict the library under storage pressure. Resolves to whether it agreed.
+    requestPersistence(): Promise<boolean>;
+}
+
+// --- Implementation ---
+class StorageUsageServiceImpl implements StorageUsageService {
+    private localDB: LocalDatabaseService;
+
+    constructor(localDB: LocalDatabaseService) {
+        this.localDB = localDB;
+    }
+
+    // --- Public Interface ---
+
+    public getReport = async (): Promise<StorageUsageReport> => {
+        const [estimate, isPersisted, lessons, figures, videoSizes, lessonThumbnailSizes, figureThumbnailSizes] = await Promise.all([
+            navigator.storage?.estimate ? navigator.storage.estimate() : Promise.resolve<StorageEstimate>({}),
+            navigator.storage?.persisted ? navigator.storage.persisted() : Promise.resolve(false),
+            this.localDB.getLessons(),
+            this.localDB.getFigures(),
+            this.localDB.getBlobSizes(VIDEO_FILES_STORE),
+            this.localDB.getBlobSizes(LESSON_THUMBNAILS_STORE),
+            this.localDB.getBlobSizes(FIGURE_THUMBNAILS_STORE),
+        ]);
+
+        const figureThumbnailBytesByLesson = new Map<string, number>();
+        for (const figure of figures) {
+            const bytes = figureThumbnailSizes.get(figure.id) ?? 0;
+            figureThumbnailBytesByLesson.set(figure.lessonId, (figureThumbnailBytesByLesson.get(figure.lessonId) ?? 0) + bytes);
+        }
+
+        const lessonUsages: LessonStorageUsage[] = lessons.map(lesson => {
+            const videoBytes = videoSizes.get(lesson.videoId) ?? 0;
+            const thumbnailBytes = (lessonThumbnailSizes.get(lesson.id) ?? 0) + (figureThumbnailBytesByLesson.get(lesson.id) ?? 0);
+            return { lesson, videoBytes, thumbnailBytes, totalBytes: videoBytes + thumbnailBytes };
+        });
+
+        return {
+            usage: estimate.usage ?? null,
+            quota: estimate.quota ?? null,
+            videoBytes: sum(videoSizes),
+            lessonThumbnailBytes: sum(lessonThumbnailSizes),
+            figureThumbnailBytes: sum(figureThumbnailSizes),
+            largestLessons: lessonUsages
+                .filter(usage => usage.totalBytes > 0)
+                .sort((a, b) => b.totalBytes - a.totalBytes)
+                .slice(0, LARGEST_LESSONS_COUNT),
+            isPersisted,
+        };
+    }
+
+    public requestPersistence = async (): Promise<boolean> => {
+        if (!navigator.storage?.persist) {
+            logger.warn('Persistent storage is not supported by this browser.');
+            return false;
+        }
+        const granted = await navigator.storage.persist();
+        logger.info(`Persistent storage ${granted ? 'granted' : 'denied'}.`);
+        return granted;
+    }
+}
+
+// --- Helper Functions ---
+const sum = (sizes: Map<string, number>): number => {
+    let total = 0;
+    sizes.forEach(size => { total += size; });
+    return total;
+};
+
+// --- Singleton Instance ---
+export const storageUsageService: StorageUsageService = new StorageUsageServiceImpl(localDatabaseService);
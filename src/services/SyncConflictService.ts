@@ -0,0 +1,291 @@
+import type { Lesson, Figure } from '../types';
+import { localDatabaseService, LocalDatabaseService } from './LocalDatabaseService';
+import { dataService, DataService } from './DataService';
+import type { RemoteFile } from '../api/RemoteStorageProvider';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('SyncConflict');
+
+// --- Constants ---
+export const LESSON_CONFLICT_FIELDS = ['uploadDate', 'description', 'startTime', 'endTime', 'thumbTime', 'categoryId', 'schoolId', 'instructorId'] as const;
+export const FIGURE_CONFLICT_FIELDS = ['name', 'description', 'startTime', 'endTime', 'thumbTime', 'categoryId', 'schoolId', 'instructorId'] as const;
+
+export type ConflictFieldKey = typeof LESSON_CONFLICT_FIELDS[number] | typeof FIGURE_CONFLICT_FIELDS[number];
+
+// --- Types and Interface ---
+export interface SyncConflict {
+  id: string; // The lesson or figure id
+  type: 'lesson' | 'figure';
+  local: Lesson | Figure;
+  remote: Lesson | Figure;
+  remoteFileId: string;
+  remoteModifiedTime: string;
+  detectedAt: string;
+  clashingFields?: ConflictFieldKey[]; // Fields changed differently on both sides since the last sync
+  suggestedChoices?: FieldChoices; // Choices for fields that only changed on one side
+}
+
+export interface ConflictField {
+  key: ConflictFieldKey;
+  localValue: unknown;
+  remoteValue: unknown;
+  localLabel: string | null; // Resolved name for reference fields (category, school, instructor)
+  remoteLabel: string | null;
+  isDifferent: boolean;
+  isClashing: boolean;
+}
+
+export type FieldChoices = Partial<Record<ConflictFieldKey, 'local' | 'remote'>>;
+
+export interface ThreeWayMergeResult {
+  merged: Partial<Lesson & Figure>; // Merged values for all conflict fields
+  choices: FieldChoices;
+  clashingFields: ConflictFieldKey[];
+}
+
+export type ConflictResolution =
+  | { strategy: 'keep-local' }
+  | { strategy: 'keep-remote' }
+  | { strategy: 'merge'; fieldChoices: FieldChoices };
+
+// What checking an item changed on both sides did with it.
+export type ItemReconciliation =
+  | { outcome: 'identical' }
+  | { outcome: 'merged'; needsUpload: boolean } // The local item holds the merge; an upload is left to the caller
+  | { outcome: 'conflict'; clashingFields?: ConflictFieldKey[] }; // Without a known base, every differing field clashes
+
+export interface SyncConflictService {
+  getConflicts(): SyncConflict[];
+  subscribe(listener: () => void): () => void;
+  getFieldKeys(type: 'lesson' | 'figure'): readonly ConflictFieldKey[];
+  getDifferingFields(type: 'lesson' | 'figure', local: Lesson | Figure, remote: Lesson | Figure): ConflictFieldKey[];
+  mergeThreeWay(type: 'lesson' | 'figure', base: Lesson | Figure, local: Lesson | Figure, remote: Lesson | Figure): ThreeWayMergeResult;
+  // Values for the fields outside the conflict fields, which only say where the item is stored remotely.
+  getStorageFields(local: Lesson | Figure, remote: Lesson | Figure, remoteFileId: string): Partial<Lesson & Figure>;
+  // Merges edits of both sides that don't overlap, or records a conflict for the user to resolve.
+  reconcileItem(type: 'lesson' | 'figure', local: Lesson | Figure, remote: Lesson | Figure, remoteFile: RemoteFile): Promise<ItemReconciliation>;
+  recordConflict(conflict: SyncConflict): Promise<void>;
+  getConflictFields(conflict: SyncConflict): Promise<ConflictField[]>;
+  resolveConflict(conflictId: string, resolution: ConflictResolution): Promise<SyncConflict | null>;
+  clearConflicts(): Promise<void>;
+}
+
+// --- Helper Functions ---
+const normalizeValue = (value: unknown): unknown => (value === undefined ? null : value);
+
+// Lessons and figures have different fields; one the item does not have reads as null.
+type ConflictFieldValues = Partial<Record<ConflictFieldKey, unknown>>;
+const getFieldValue = (item: ConflictFieldValues, key: ConflictFieldKey): unknown => normalizeValue(item[key]);
+
+// --- Implementation ---
+class SyncConflictServiceImpl implements SyncConflictService {
+    private localDB: LocalDatabaseService;
+    private dataSvc: DataService;
+    private conflicts: SyncConflict[] = [];
+    private listeners: Set<() => void> = new Set();
+
+    constructor(localDB: LocalDatabaseService, dataSvc: DataService) {
+        this.localDB = localDB;
+        this.dataSvc = dataSvc;
+        this.loadConflicts();
+    }
+
+    // --- Public Interface ---
+
+    public getConflicts = (): SyncConflict[] => this.conflicts;
+
+    public subscribe = (listener: () => void): () => void => {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    public getFieldKeys = (type: 'lesson' | 'figure'): readonly ConflictFieldKey[] =>
+        type === 'lesson' ? LESSON_CONFLICT_FIELDS : FIGURE_CONFLICT_FIELDS;
+
+    public getDifferingFields = (type: 'lesson' | 'figure', local: Lesson | Figure, remote: Lesson | Figure): ConflictFieldKey[] => {
+        return this.getFieldKeys(type).filter(key =>
+            getFieldValue(local, key) !== getFieldValue(remote, key)
+        );
+    }
+
+    public mergeThreeWay = (type: 'lesson' | 'figure', base: Lesson | Figure, local: Lesson | Figure, remote: Lesson | Figure): ThreeWayMergeResult => {
+        const merged: ConflictFieldValues = {};
+        const choices: FieldChoices = {};
+        const clashingFields: ConflictFieldKey[] = [];
+
+        for (const key of this.getFieldKeys(type)) {
+            const baseValue = getFieldValue(base, key);
+            const localValue = getFieldValue(local, key);
+            const remoteValue = getFieldValue(remote, key);
+
+            if (localValue === remoteValue) {
+                merged[key] = localValue;
+            } else if (localValue === baseValue) {
+                merged[key] = remoteValue;
+                choices[key] = 'remote';
+            } else if (remoteValue === baseValue) {
+                merged[key] = localValue;
+                choices[key] = 'local';
+            } else {
+                merged[key] = localValue;
+                clashingFields.push(key);
+            }
+        }
+        return { merged: merged as Partial<Lesson & Figure>, choices, clashingFields };
+    }
+
+    public getStorageFields = (local: Lesson | Figure, remote: Lesson | Figure, remoteFileId: string): Partial<Lesson & Figure> => {
+        const fields: Partial<Lesson & Figure> = { driveId: remoteFileId };
+        // A video uploaded by another device is on the remote side; one only this device has uploaded is kept.
+        const videoDriveId = ('videoDriveId' in remote ? remote.videoDriveId : undefined) ?? ('videoDriveId' in local ? local.videoDriveId : undefined);
+        if (videoDriveId) fields.videoDriveId = videoDriveId;
+        return fields;
+    }
+
+    public reconcileItem = async (type: 'lesson' | 'figure', local: Lesson | Figure, remote: Lesson | Figure, remoteFile: RemoteFile): Promise<ItemReconciliation> => {
+        const storageFields = this.getStorageFields(local, remote, remoteFile.id);
+        if (this.getDifferingFields(type, local, remote).length === 0) {
+            // Both sides were edited, but they ended up identical. Adopt the remote timestamp.
+            logger.info(`Local and remote ${type} ${local.id} are identical. No conflict.`);
+            await this.updateItem(type, local.id, { ...storageFields, modifiedTime: remoteFile.modifiedTime });
+            await this.saveRemoteAsBase(type, local.id, remote, remoteFile);
+            return { outcome: 'identical' };
+        }
+
+        const base = (await this.localDB.getSyncBaseVersions()).find(version => version.id === local.id && version.type === type)?.snapshot;
+        const conflict: SyncConflict = { id: local.id, type, local, remote, remoteFileId: remoteFile.id, remoteModifiedTime: remoteFile.modifiedTime, detectedAt: new Date().toISOString() };
+        if (!base) {
+            logger.warn(`No synced snapshot of ${type} ${local.id} is available. Treating all differing fields as conflicting.`);
+            await this.recordConflict(conflict);
+            return { outcome: 'conflict' };
+        }
+
+        const { merged, choices, clashingFields } = this.mergeThreeWay(type, base, local, remote);
+        if (clashingFields.length > 0) {
+            await this.recordConflict({ ...conflict, clashingFields, suggestedChoices: choices });
+            return { outcome: 'conflict', clashingFields };
+        }
+
+        logger.info(`Merging non-overlapping edits of ${type} ${local.id} automatically.`);
+        if (this.getDifferingFields(type, { ...remote, ...merged } as Lesson | Figure, remote).length === 0) {
+            // The merge only took remote edits, so the remote file is already up to date.
+            await this.updateItem(type, local.id, { ...merged, ...storageFields, modifiedTime: remoteFile.modifiedTime });
+            await this.saveRemoteAsBase(type, local.id, remote, remoteFile);
+            return { outcome: 'merged', needsUpload: false };
+        }
+        await this.updateItem(type, local.id, { ...merged, ...storageFields, modifiedTime: new Date().toISOString() });
+        return { outcome: 'merged', needsUpload: true };
+    }
+
+    public recordConflict = async (conflict: SyncConflict): Promise<void> => {
+        logger.warn(`Recording sync conflict for ${conflict.type} ${conflict.id}.`);
+        await this.localDB.saveSyncConflict(conflict);
+        this.conflicts = [...this.conflicts.filter(c => c.id !== conflict.id), conflict];
+        this.notify();
+    }
+
+    public getConflictFields = async (conflict: SyncConflict): Promise<ConflictField[]> => {
+        const [categories, schools, instructors] = await Promise.all(conflict.type === 'lesson'
+            ? [this.localDB.getLessonCategories(), this.localDB.getLessonSchools(), this.localDB.getLessonInstructors()]
+            : [this.localDB.getFigureCategories(), this.localDB.getFigureSchools(), this.localDB.getFigureInstructors()]
+        );
+        const referenceLists: Partial<Record<ConflictFieldKey, { id: string; name: string }[]>> = {
+            categoryId: categories,
+            schoolId: schools,
+            instructorId: instructors,
+        };
+        const resolveLabel = (key: ConflictFieldKey, value: unknown): string | null => {
+            const list = referenceLists[key];
+            if (!list || !value) return null;
+            return list.find(item => item.id === value)?.name ?? null;
+        };
+
+        return this.getFieldKeys(conflict.type).map(key => {
+            const localValue = getFieldValue(conflict.local, key);
+            const remoteValue = getFieldValue(conflict.remote, key);
+            return {
+                key,
+                localValue,
+                remoteValue,
+                localLabel: resolveLabel(key, localValue),
+                remoteLabel: resolveLabel(key, remoteValue),
+                isDifferent: localValue !== remoteValue,
+                // Without a known base, every differing field has to be treated as a clash.
+                isClashing: conflict.clashingFields ? conflict.clashingFields.includes(key) : localValue !== remoteValue,
+            };
+        });
+    }
+
+    public resolveConflict = async (conflictId: string, resolution: ConflictResolution): Promise<SyncConflict | null> => {
+        const conflict = this.conflicts.find(c => c.id === conflictId);
+        if (!conflict) return null;
+        logger.info(`Resolving conflict for ${conflict.type} ${conflict.id} with strategy "${resolution.strategy}".`);
+
+        const currentLocal = conflict.type === 'lesson'
+            ? await this.localDB.getLesson(conflict.id)
+            : await this.localDB.getFigure(conflict.id);
+
+        if (currentLocal) {
+            const fieldKeys = this.getFieldKeys(conflict.type);
+            const choices: FieldChoices = resolution.strategy === 'merge'
+                ? resolution.fieldChoices
+                : Object.fromEntries(fieldKeys.map(key => [key, resolution.strategy === 'keep-remote' ? 'remote' : 'local']));
+
+            const updates: ConflictFieldValues & { modifiedTime?: string } = {};
+            for (const key of fieldKeys) {
+                const source = choices[key] === 'remote' ? conflict.remote : currentLocal;
+                updates[key] = getFieldValue(source, key);
+            }
+
+            // If the result is identical to the remote version, adopt its timestamp so the item is in sync.
+            // Otherwise, a fresh timestamp marks the local item as changed so it gets uploaded.
+            const matchesRemote = this.getDifferingFields(conflict.type, updates as Lesson | Figure, conflict.remote).length === 0;
+            updates.modifiedTime = matchesRemote ? conflict.remoteModifiedTime : new Date().toISOString();
+
+            const storageFields = this.getStorageFields(currentLocal, conflict.remote, conflict.remoteFileId);
+            if (conflict.type === 'lesson') {
+                await this.dataSvc.updateLesson(conflict.id, { ...storageFields, ...updates } as Partial<Lesson>);
+            } else {
+                await this.dataSvc.updateFigure(conflict.id, { ...storageFields, ...updates } as Partial<Figure>);
+            }
+        } else {
+            logger.warn(`Local ${conflict.type} ${conflict.id} no longer exists. Dropping conflict.`);
+        }
+
+        await this.localDB.saveSyncBaseVersions([{ id: conflict.id, type: conflict.type, remoteModifiedTime: conflict.remoteModifiedTime, remoteFileId: conflict.remoteFileId, snapshot: conflict.remote }]);
+        await this.localDB.deleteSyncConflict(conflict.id);
+        this.conflicts = this.conflicts.filter(c => c.id !== conflict.id);
+        this.notify();
+        return conflict;
+    }
+
+    public clearConflicts = async (): Promise<void> => {
+        const storedConflicts = await this.localDB.getSyncConflicts();
+        await Promise.all(storedConflicts.map(conflict => this.localDB.deleteSyncConflict(conflict.id)));
+        this.conflicts = [];
+        this.notify();
+    }
+
+    // --- Private Methods ---
+    private notify = (): void => this.listeners.forEach(listener => listener());
+
+    private updateItem = (type: 'lesson' | 'figure', itemId: string, updates: Partial<Lesson & Figure>): Promise<unknown> =>
+        type === 'lesson' ? this.dataSvc.updateLesson(itemId, updates) : this.dataSvc.updateFigure(itemId, updates);
+
+    private saveRemoteAsBase = (type: 'lesson' | 'figure', itemId: string, remote: Lesson | Figure, remoteFile: RemoteFile): Promise<void> =>
+        this.localDB.saveSyncBaseVersions([{ id: itemId, type, remoteModifiedTime: remoteFile.modifiedTime, remoteFileId: remoteFile.id, snapshot: remote }]);
+
+    private loadConflicts = async (): Promise<void> => {
+        try {
+            const storedConflicts = await this.localDB.getSyncConflicts();
+            const storedIds = new Set(storedConflicts.map(c => c.id));
+            this.conflicts = [...storedConflicts, ...this.conflicts.filter(c => !storedIds.has(c.id))];
+            this.notify();
+        } catch (e) {
+            logger.error('Failed to load sync conflicts.', e);
+        }
+    }
+}
+
+// --- Singleton Instance ---
+export const syncConflictService: SyncConflictService = new SyncConflictServiceImpl(localDatabaseService, dataService);
@@ -0,0 +1,123 @@
+import type { Lesson, Figure } from '../types';
+import type { LocalDatabaseService } from './LocalDatabaseService';
+import { localDatabaseService } from './LocalDatabaseService';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('SyncHistory');
+
+// --- Constants ---
+const MAX_LOG_ENTRIES = 2000;
+
+// --- Types and Interface ---
+export type SyncLogAction = 'upload' | 'download' | 'delete-remote' | 'delete-local' | 'merge' | 'conflict' | 'skip' | 'fail';
+
+export type SyncLogReason =
+  | 'local-change'
+  | 'remote-change'
+  | 'deleted-locally'
+  | 'deleted-remotely'
+  | 'merged-automatically'
+  | 'both-changed'
+  | 'unresolved-conflict'
+  | 'not-approved'
+  | 'download-incomplete'
+  | 'grouping-config-changed'
+  | 'excluded-by-sync-rules'
+  | 'sync-rule-matched'
+  | 'cancelled'
+  | 'waiting-for-wifi'
+  | 'orphaned'
+  | 'storage-full'
+  | 'awaiting-lesson'
+  | 'video-not-on-device'
+  | 'error';
+
+export interface SyncLogEntry {
+  id: string;
+  timestamp: string; // ISO 8601 string
+  type: 'lesson' | 'figure';
+  itemId: string | null; // null for entries about the whole gallery, e.g. its grouping config
+  itemName: string | null;
+  action: SyncLogAction;
+  reason: SyncLogReason;
+  detail?: string; // e.g. the error message of a failure
+  provider: string; // The remote storage backend that was synced with
+}
+
+export type NewSyncLogEntry = Omit<SyncLogEntry, 'id' | 'timestamp'>;
+
+export interface SyncHistoryService {
+    getEntries(): SyncLogEntry[];
+    subscribe(listener: () => void): () => void;
+    record(entry: NewSyncLogEntry): Promise<void>;
+    clear(): Promise<void>;
+}
+
+// --- Helper Functions ---
+const generateId = (): string => `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+// Lessons have no name, so they are identified by their description or date, as in the gallery.
+export const getSyncItemName = (item: Lesson | Figure | null | undefined): string | null => {
+    if (!item) return null;
+    if ('name' in item) return item.name;
+    return item.description || item.uploadDate.substring(0, 10);
+};
+
+// --- Implementation ---
+class SyncHistoryServiceImpl implements SyncHistoryService {
+    private localDB: LocalDatabaseService;
+    private entries: SyncLogEntry[] = [];
+    private listeners: Set<() => void> = new Set();
+
+    constructor(localDB: LocalDatabaseService) {
+        this.localDB = localDB;
+        this.loadEntries();
+    }
+
+    // --- Public Interface ---
+
+    // Newest first.
+    public getEntries = (): SyncLogEntry[] => this.entries;
+
+    public subscribe = (listener: () => void): () => void => {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    public record = async (newEntry: NewSyncLogEntry): Promise<void> => {
+        const entry: SyncLogEntry = { ...newEntry, id: generateId(), timestamp: new Date().toISOString() };
+        this.entries = [entry, ...this.entries].slice(0, MAX_LOG_ENTRIES);
+        this.notify();
+        try {
+            await this.localDB.addSyncLogEntries([entry], MAX_LOG_ENTRIES);
+        } catch (e) {
+            // The log is diagnostic only and must never break a sync.
+            logger.error('Failed to persist a sync log entry.', e);
+        }
+    }
+
+    public clear = async (): Promise<void> => {
+        await this.localDB.clearSyncLog();
+        this.entries = [];
+        this.notify();
+    }
+
+    // --- Private Methods ---
+    private notify = (): void => this.listeners.forEach(listener => listener());
+
+    private loadEntries = async (): Promise<void> => {
+        try {
+            const storedEntries = await this.localDB.getSyncLogEntries();
+            // Entries recorded before the load finished are already in memory.
+            const knownIds = new Set(this.entries.map(entry => entry.id));
+            this.entries = [...this.entries, ...storedEntries.filter(entry => !knownIds.has(entry.id))]
+                .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+            this.notify();
+        } catch (e) {
+            logger.error('Failed to load the sync log.', e);
+        }
+    }
+}
+
+// --- Singleton Instance ---
+export const syncHistoryService: SyncHistoryService = new SyncHistoryServiceImpl(localDatabaseService);
@@ -0,0 +1,189 @@
+import type { Lesson, Figure } from '../types';
+import type { AppSettings } from '../contexts/SettingsContext';
+import { localDatabaseService, type LocalDatabaseService } from './LocalDatabaseService';
+import { remoteStorageService } from './RemoteStorageService';
+import { settingsService, type SettingsService } from './SettingsService';
+import { videoEvictionService, type VideoEvictionService } from './VideoEvictionService';
+import { networkStatusService, type NetworkStatusService } from './NetworkStatusService';
+import type { SyncBaseVersion } from './SyncQueueService';
+import { isTransientRemoteError } from './RemoteTransferPolicy';
+import { GoogleDriveSyncApiImpl, type GoogleDriveSyncApi, type SyncDirectoryPlan } from '../api/GoogleDriveSyncApi';
+import type { RemoteStorageProvider, RemoteFile } from '../api/RemoteStorageProvider';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('SyncPlan');
+
+// --- Constants ---
+export const FOLDERS = {
+    lessons: 'lessons',
+    figures: 'figures',
+    videos: 'videos',
+    thumbnails: 'thumbnails',
+};
+const UNCATEGORIZED_ID = '__uncategorized__';
+const UNASSIGNED_ID = '__unassigned__';
+
+// --- Types and Interface ---
+export type SyncPreviewAction = 'upload' | 'download' | 'delete-remote' | 'delete-local' | 'merge';
+
+// The result of comparing one gallery with its remote folder, before anything is changed.
+export interface GallerySyncPlan {
+    type: 'lesson' | 'figure';
+    plan: SyncDirectoryPlan;
+    localItems: (Lesson | Figure)[];
+    remoteFiles: RemoteFile[];
+    baseVersions: SyncBaseVersion[];
+    newChangeToken: string | null;
+    itemId?: string; // Set when only this item is synced rather than the whole gallery
+    unresolvedConflictNames: Set<string>;
+    shouldDownloadVideo: (lesson: Lesson) => boolean;
+    videosToBackfill: Lesson[]; // Local lessons whose video is only in the cloud but now matches the sync rules
+    deferVideoTransfers: boolean; // Metadata syncs, but videos wait for an unmetered connection
+}
+
+/**
+ * Works out what a sync of one gallery would do, without changing anything.
+ * The sync queue executes the plan; the sync preview shows it to the user first.
+ */
+export interface SyncPlanService {
+    // With an item id, the plan covers just that item: its remote file is looked up directly and the changes feed is left alone.
+    planGallerySync(type: 'lesson' | 'figure', itemId?: string): Promise<GallerySyncPlan>;
+}
+
+// --- Helper Functions ---
+
+// Identifies one planned change, e.g. "lesson:upload:123". A sync limited to what the user approved carries these keys.
+export const getSyncPreviewKey = (type: 'lesson' | 'figure', action: SyncPreviewAction, itemId: string): string => `${type}:${action}:${itemId}`;
+
+/**
+ * Decides whether this device keeps a local copy of a lesson's video.
+ * Metadata always syncs; lessons that don't match stay "cloud only". Empty lists match everything.
+ */
+export const matchesVideoSyncRules = (lesson: Lesson, settings: AppSettings, now: Date = new Date()): boolean => {
+    if (settings.videoSync_pinnedLessonIds.includes(lesson.id)) return true;
+    if (settings.videoSync_onDemand) return false;
+    if (settings.videoSync_maxAgeMonths !== null) {
+        const cutoff = new Date(now);
+        cutoff.setMonth(cutoff.getMonth() - settings.videoSync_maxAgeMonths);
+        if (new Date(lesson.uploadDate) < cutoff) return false;
+    }
+    if (settings.videoSync_categoryIds.length > 0 && !settings.videoSync_categoryIds.includes(lesson.categoryId || UNCATEGORIZED_ID)) {
+        return false;
+    }
+    if (settings.videoSync_schoolIds.length > 0 && !settings.videoSync_schoolIds.includes(lesson.schoolId || UNASSIGNED_ID)) {
+        return false;
+    }
+    return true;
+};
+
+// With "Wi-Fi only" on, videos wait while the connection is metered. Where the browser cannot tell, the user says so.
+export const shouldDeferVideoTransfers = (settings: AppSettings, isMeteredConnection: boolean | null): boolean =>
+    settings.videoSync_wifiOnly && (isMeteredConnection ?? settings.videoSync_onMobileData);
+
+// --- Implementation ---
+class SyncPlanServiceImpl implements SyncPlanService {
+    private localDB: LocalDatabaseService;
+    private remoteStorage: RemoteStorageProvider;
+    private settingsSvc: SettingsService;
+    private evictionSvc: VideoEvictionService;
+    private networkSvc: NetworkStatusService;
+    private syncApi: GoogleDriveSyncApi;
+
+    constructor(localDB: LocalDatabaseService, remoteStorage: RemoteStorageProvider, settingsSvc: SettingsService, evictionSvc: VideoEvictionService, networkSvc: NetworkStatusService, syncApi: GoogleDriveSyncApi) {
+        this.localDB = localDB;
+        this.remoteStorage = remoteStorage;
+        this.settingsSvc = settingsSvc;
+        this.evictionSvc = evictionSvc;
+        this.networkSvc = networkSvc;
+        this.syncApi = syncApi;
+    }
+
+    // --- Public Interface ---
+
+    public planGallerySync = async (type: 'lesson' | 'figure', itemId?: string): Promise<GallerySyncPlan> => {
+        const folderName = type === 'lesson' ? FOLDERS.lessons : FOLDERS.figures;
+        
+        const [allLocalItems, tombstones, allBaseVersions, changeToken, conflicts, settings] = await Promise.all([
+            type === 'lesson' ? this.localDB.getLessons() : this.localDB.getFigures(),
+            this.localDB.getTombstones(),
+            this.localDB.getSyncBaseVersions(),
+            this.localDB.getSyncChangeToken(type),
+            this.localDB.getSyncConflicts(),
+            this.settingsSvc.getSettings(),
+        ]);
+        const isInScope = (id: string) => !itemId || id === itemId;
+        const localItems = allLocalItems.filter(item => isInScope(item.id));
+        const baseVersions = allBaseVersions.filter(version => version.type === type && isInScope(version.id));
+        let remoteFiles: RemoteFile[];
+        let newChangeToken: string | null = null;
+        if (itemId) {
+            const remoteFile = await this.remoteStorage.getFile(`/${folderName}/${itemId}.json`);
+            remoteFiles = remoteFile ? [remoteFile] : [];
+        } else {
+            ({ files: remoteFiles, newChangeToken } = await this.listRemoteGalleryFiles(folderName, baseVersions, changeToken));
+        }
+        
+        const localFilesForPlan = localItems.map(item => ({
+            name: `${item.id}.json`,
+            modifiedTime: item.modifiedTime || '1970-01-01T00:00:00.000Z'
+        }));
+        const baseVersionMap = new Map(baseVersions.map(version => [`${version.id}.json`, version.remoteModifiedTime]));
+        // Items waiting for the user to resolve a conflict must not be overwritten in either direction.
+        const unresolvedConflictNames = new Set(conflicts.filter(c => c.type === type).map(c => `${c.id}.json`));
+        
+        const plan = this.syncApi.planDirectorySync(localFilesForPlan, remoteFiles, tombstones, baseVersionMap);
+        const shouldDownloadVideo = (lesson: Lesson) => matchesVideoSyncRules(lesson, settings);
+        const deferVideoTransfers = shouldDeferVideoTransfers(settings, this.networkSvc.isMeteredConnection());
+
+        // The rules may have been widened since these lessons were synced without their videos.
+        // Evicted videos only come back on demand, unless they are pinned.
+        let videosToBackfill: Lesson[] = [];
+        if (type === 'lesson' && !itemId) {
+            const [storedVideoIds, evictedLessonIds] = await Promise.all([this.localDB.getStoredVideoIds(), this.evictionSvc.getEvictedLessonIds()]);
+            const storedIds = new Set(storedVideoIds);
+            const namesBeingSynced = new Set([...plan.filesToDownload, ...plan.filesInConflict, ...plan.filesDeletedRemotely].map(file => file.name));
+            videosToBackfill = (localItems as Lesson[]).filter(lesson => {
+                const name = `${lesson.id}.json`;
+                const isEvicted = evictedLessonIds.has(lesson.id) && !settings.videoSync_pinnedLessonIds.includes(lesson.id);
+                return lesson.videoDriveId && !storedIds.has(lesson.videoId) && !isEvicted && !namesBeingSynced.has(name) && !unresolvedConflictNames.has(name) && shouldDownloadVideo(lesson);
+            });
+        }
+        return { type, plan, localItems, remoteFiles, baseVersions, newChangeToken, itemId, unresolvedConflictNames, shouldDownloadVideo, videosToBackfill, deferVideoTransfers };
+    }
+
+    // --- Private Methods ---
+    private async listRemoteGalleryFiles(folderName: string, baseVersions: SyncBaseVersion[], changeToken: string | null): Promise<{ files: RemoteFile[]; newChangeToken: string | null }> {
+        const provider = this.remoteStorage;
+        if (!provider.listFolderChanges || !provider.getChangesStartPageToken) {
+            return { files: await provider.listFiles(`/${folderName}`), newChangeToken: null };
+        }
+        if (changeToken && baseVersions.every(version => version.remoteFileId)) {
+            try {
+                const changes = await provider.listFolderChanges(`/${folderName}`, changeToken);
+                logger.info(`Using the changes feed for /${folderName}: ${changes.changedFiles.length} changed, ${changes.removedFileIds.length} removed.`);
+                // Start from the remote state at the last sync and apply the changes on top of it.
+                const removedIds = new Set(changes.removedFileIds);
+                const filesByName = new Map<string, RemoteFile>();
+                for (const version of baseVersions) {
+                    if (removedIds.has(version.remoteFileId!)) continue;
+                    const name = `${version.id}.json`;
+                    filesByName.set(name, { id: version.remoteFileId!, name, modifiedTime: version.remoteModifiedTime });
+                }
+                for (const file of changes.changedFiles) {
+                    filesByName.set(file.name, file);
+                }
+                return { files: [...filesByName.values()], newChangeToken: changes.newStartPageToken };
+            } catch (e) {
+                if (isTransientRemoteError(e)) throw e;
+                logger.warn(`Change token for /${folderName} was rejected. Falling back to a full listing.`, e);
+            }
+        }
+        // The token is taken before listing so that changes made during this sync are seen by the next one.
+        const newChangeToken = await provider.getChangesStartPageToken();
+        const files = await provider.listFiles(`/${folderName}`);
+        return { files, newChangeToken };
+    }
+}
+
+// --- Singleton Instance ---
+export const syncPlanService: SyncPlanService = new SyncPlanServiceImpl(localDatabaseService, remoteStorageService, settingsService, videoEvictionService, networkStatusService, new GoogleDriveSyncApiImpl());
@@ -0,0 +1,138 @@
+import type { Lesson, Figure } from '../types';
+import { remoteStorageService } from './RemoteStorageService';
+import { dataService, type DataService } from './DataService';
+import { syncPlanService, getSyncPreviewKey, FOLDERS, type SyncPlanService, type SyncPreviewAction, type GallerySyncPlan } from './SyncPlanService';
+import { syncProviderBindingService, type SyncProviderBindingService } from './SyncProviderBindingService';
+import { syncQueueService, type SyncQueueService } from './SyncQueueService';
+import type { RemoteStorageProvider } from '../api/RemoteStorageProvider';
+
+// --- Types and Interface ---
+
+// One planned change, resolved to the item it affects so it can be shown to the user.
+export interface SyncPreviewItem {
+  key: string; // Unique within a preview, e.g. "lesson:upload:123"
+  type: 'lesson' | 'figure';
+  itemId: string;
+  action: SyncPreviewAction;
+  item: Lesson | Figure | null; // The local version for uploads and merges, the remote one otherwise
+  dataBytes: number; // Size of the JSON file to transfer
+  videoBytes: number; // Size of the video to transfer, 0 when none is
+}
+
+export interface SyncPreview {
+  items: SyncPreviewItem[];
+  inSyncCount: number;
+  createdAt: number;
+}
+
+export interface SyncPreviewService {
+    previewSync(): Promise<SyncPreview>;
+    // Queues a sync of each gallery that only acts on the items the user did not skip.
+    applySyncPreview(preview: SyncPreview, skippedKeys: string[]): void;
+}
+
+// --- Implementation ---
+class SyncPreviewServiceImpl implements SyncPreviewService {
+    private remoteStorage: RemoteStorageProvider;
+    private dataSvc: DataService;
+    private planSvc: SyncPlanService;
+    private bindingSvc: SyncProviderBindingService;
+    private queueSvc: SyncQueueService;
+
+    constructor(remoteStorage: RemoteStorageProvider, dataSvc: DataService, planSvc: SyncPlanService, bindingSvc: SyncProviderBindingService, queueSvc: SyncQueueService) {
+        this.remoteStorage = remoteStorage;
+        this.dataSvc = dataSvc;
+        this.planSvc = planSvc;
+        this.bindingSvc = bindingSvc;
+        this.queueSvc = queueSvc;
+    }
+
+    // --- Public Interface ---
+
+    public previewSync = async (): Promise<SyncPreview> => {
+        if (!this.remoteStorage.isAvailable()) throw new Error("Remote storage is not available");
+        // Until the queue has reset the sync state for a newly chosen backend, a plan would compare against the previous one.
+        if (!this.bindingSvc.isBound()) throw new Error("Sync once with the newly chosen remote storage before previewing.");
+        const items: SyncPreviewItem[] = [];
+        let inSyncCount = 0;
+        for (const type of ['lesson', 'figure'] as const) {
+            const galleryPlan = await this.planSvc.planGallerySync(type);
+            items.push(...await this.describeGalleryPlan(galleryPlan));
+            inSyncCount += galleryPlan.plan.filesInSync.length;
+        }
+        return { items, inSyncCount, createdAt: Date.now() };
+    }
+
+    public applySyncPreview = (preview: SyncPreview, skippedKeys: string[]): void => {
+        const skipped = new Set(skippedKeys);
+        for (const type of ['lesson', 'figure'] as const) {
+            const galleryItems = preview.items.filter(item => item.type === type);
+            if (galleryItems.length === 0) continue;
+            const approvedKeys = galleryItems.filter(item => !skipped.has(item.key)).map(item => item.key);
+            // Skipped items are left for a later sync; the task only acts on what the user approved.
+            this.queueSvc.addTask('sync-gallery', { type, approvedKeys }, true);
+        }
+    }
+
+    // --- Private Methods ---
+    private async describeGalleryPlan(galleryPlan: GallerySyncPlan): Promise<SyncPreviewItem[]> {
+        const { type, plan, localItems, remoteFiles, unresolvedConflictNames, shouldDownloadVideo, videosToBackfill } = galleryPlan;
+        const items: SyncPreviewItem[] = [];
+        const jsonBytes = (item: Lesson | Figure) => new Blob([JSON.stringify(item)]).size;
+        const describe = (action: SyncPreviewAction, itemId: string, item: Lesson | Figure | null, dataBytes: number, videoBytes = 0) =>
+            items.push({ key: getSyncPreviewKey(type, action, itemId), type, itemId, action, item, dataBytes, videoBytes });
+
+        for (const file of plan.filesToDelete) {
+            const remoteItem = await this.remoteStorage.readJsonFileById<Lesson | Figure>(file.id);
+            describe('delete-remote', file.name.replace('.json', ''), remoteItem, 0);
+        }
+
+        for (const file of plan.filesDeletedRemotely) {
+            if (unresolvedConflictNames.has(file.name)) continue;
+            const localItem = localItems.find(item => `${item.id}.json` === file.name) ?? null;
+            describe('delete-local', file.name.replace('.json', ''), localItem, 0);
+        }
+
+        for (const file of plan.filesToDownload) {
+            if (unresolvedConflictNames.has(file.name)) continue;
+            const itemId = file.name.replace('.json', '');
+            const remoteItem = await this.remoteStorage.readJsonFileById<Lesson | Figure>(file.id);
+            const remoteSize = remoteFiles.find(f => f.id === file.id)?.size;
+            let videoBytes = 0;
+            // Only lessons that are new to this device and match the sync rules fetch their video; see the sync queue's downloadLesson.
+            const remoteLesson = type === 'lesson' ? remoteItem as Lesson | null : null;
+            if (remoteLesson?.videoDriveId && !localItems.some(item => item.id === itemId) && shouldDownloadVideo(remoteLesson)) {
+                const videoFile = await this.remoteStorage.getFile(`/${FOLDERS.videos}/${itemId}.mp4`);
+                videoBytes = videoFile?.size ?? 0;
+            }
+            describe('download', itemId, remoteItem, remoteSize ?? (remoteItem ? jsonBytes(remoteItem) : 0), videoBytes);
+        }
+
+        for (const lesson of videosToBackfill) {
+            const videoFile = await this.remoteStorage.getFile(`/${FOLDERS.videos}/${lesson.id}.mp4`);
+            describe('download', lesson.id, lesson, 0, videoFile?.size ?? 0);
+        }
+
+        for (const file of plan.filesToUpload) {
+            if (unresolvedConflictNames.has(file.name)) continue;
+            const localItem = localItems.find(item => `${item.id}.json` === file.name);
+            if (!localItem) continue;
+            let videoBytes = 0;
+            if (type === 'lesson' && !(localItem as Lesson).videoDriveId) {
+                const videoFile = await this.dataSvc.getVideoFile(localItem.id);
+                videoBytes = videoFile?.size ?? 0;
+            }
+            describe('upload', localItem.id, localItem, jsonBytes(localItem), videoBytes);
+        }
+
+        for (const file of plan.filesInConflict) {
+            const localItem = localItems.find(item => `${item.id}.json` === file.name) ?? null;
+            describe('merge', file.name.replace('.json', ''), localItem, localItem ? jsonBytes(localItem) : 0);
+        }
+
+        return items;
+    }
+}
+
+// --- Singleton Instance ---
+export const syncPreviewService: SyncPreviewService = new SyncPreviewServiceImpl(remoteStorageService, dataService, syncPlanService, syncProviderBindingService, syncQueueService);
@@ -0,0 +1,117 @@
+import type { Lesson } from '../types';
+import { localDatabaseService, type LocalDatabaseService } from './LocalDatabaseService';
+import { remoteStorageService, findConnectedProvider } from './RemoteStorageService';
+import { settingsService, type SettingsService } from './SettingsService';
+import { syncConflictService, type SyncConflictService } from './SyncConflictService';
+import { videoEvictionService, type VideoEvictionService } from './VideoEvictionService';
+import { networkStatusService, type NetworkStatusService } from './NetworkStatusService';
+import { matchesVideoSyncRules, shouldDeferVideoTransfers } from './SyncPlanService';
+import type { RemoteStorageProvider } from '../api/RemoteStorageProvider';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('SyncProviderBinding');
+const LOCAL_STORAGE_BOUND_PROVIDER_KEY = 'sync_bound_provider';
+// Data synced before backends were pluggable was always synced with Google Drive.
+const LEGACY_PROVIDER_NAME = 'google-drive';
+
+// --- Types and Interface ---
+
+// Fetches one lesson's video from the previous backend. The sync queue runs it as a transfer of its current task.
+export type PreviousProviderVideoFetcher = (provider: RemoteStorageProvider, lesson: Lesson) => Promise<void>;
+
+export type ProviderBindingResult =
+  | { isBound: true }
+  | { isBound: false; videosWaitingForWifi: number };
+
+/**
+ * Ties the local sync state to one remote storage backend. Remote ids, base versions and tombstones
+ * of one backend mean nothing to another, so they are reset when the user switches.
+ */
+export interface SyncProviderBindingService {
+    // Whether the sync state belongs to the active backend.
+    isBound(): boolean;
+    // Resets the sync state for the active backend. Only the sync queue calls this, between tasks.
+    bind(fetchVideo: PreviousProviderVideoFetcher): Promise<ProviderBindingResult>;
+}
+
+// --- Implementation ---
+class SyncProviderBindingServiceImpl implements SyncProviderBindingService {
+    private localDB: LocalDatabaseService;
+    private remoteStorage: RemoteStorageProvider;
+    private settingsSvc: SettingsService;
+    private conflictSvc: SyncConflictService;
+    private evictionSvc: VideoEvictionService;
+    private networkSvc: NetworkStatusService;
+    private findProvider: (name: string) => RemoteStorageProvider | null;
+
+    constructor(localDB: LocalDatabaseService, remoteStorage: RemoteStorageProvider, settingsSvc: SettingsService, conflictSvc: SyncConflictService, evictionSvc: VideoEvictionService, networkSvc: NetworkStatusService, findProvider: (name: string) => RemoteStorageProvider | null) {
+        this.localDB = localDB;
+        this.remoteStorage = remoteStorage;
+        this.settingsSvc = settingsSvc;
+        this.conflictSvc = conflictSvc;
+        this.evictionSvc = evictionSvc;
+        this.networkSvc = networkSvc;
+        this.findProvider = findProvider;
+    }
+
+    // --- Public Interface ---
+
+    public isBound = (): boolean => this.getBoundProviderName() === this.remoteStorage.name;
+
+    public bind = async (fetchVideo: PreviousProviderVideoFetcher): Promise<ProviderBindingResult> => {
+        const boundProvider = this.getBoundProviderName();
+        if (boundProvider === this.remoteStorage.name) return { isBound: true };
+
+        logger.info(`Remote storage changed from ${boundProvider} to ${this.remoteStorage.name}. Resetting sync state.`);
+        const videosWaitingForWifi = await this.downloadVideosFromProvider(boundProvider, fetchVideo);
+        if (videosWaitingForWifi > 0) return { isBound: false, videosWaitingForWifi };
+        await this.localDB.resetSyncState();
+        await this.conflictSvc.clearConflicts();
+        localStorage.setItem(LOCAL_STORAGE_BOUND_PROVIDER_KEY, this.remoteStorage.name);
+        return { isBound: true };
+    }
+
+    // --- Private Methods ---
+    private getBoundProviderName = (): string => localStorage.getItem(LOCAL_STORAGE_BOUND_PROVIDER_KEY) || LEGACY_PROVIDER_NAME;
+
+    // Videos kept only in the previous backend are lost to this device with the reset, so the ones the video sync
+    // rules keep on this device are fetched while that backend is still connected. Like any other download, they wait
+    // for Wi-Fi when the settings ask for it, and may evict other videos to make room.
+    // A video that cannot be fetched leaves its lesson out of uploads, which the next lesson sync reports.
+    // Returns how many videos wait for Wi-Fi; the switch waits with them.
+    private async downloadVideosFromProvider(providerName: string, fetchVideo: PreviousProviderVideoFetcher): Promise<number> {
+        const settings = await this.settingsSvc.getSettings();
+        const [lessons, storedVideoIds, evictedLessonIds] = await Promise.all([this.localDB.getLessons(), this.localDB.getStoredVideoIds(), this.evictionSvc.getEvictedLessonIds()]);
+        const storedIds = new Set(storedVideoIds);
+        const lessonsWithRemoteVideo = lessons.filter(lesson => {
+            const isEvicted = evictedLessonIds.has(lesson.id) && !settings.videoSync_pinnedLessonIds.includes(lesson.id);
+            return lesson.videoDriveId && !storedIds.has(lesson.videoId) && !isEvicted && matchesVideoSyncRules(lesson, settings);
+        });
+        if (lessonsWithRemoteVideo.length === 0) return 0;
+        const provider = this.findProvider(providerName);
+        if (!provider) {
+            logger.warn(`${lessonsWithRemoteVideo.length} video(s) are only kept in ${providerName}, which is no longer connected.`);
+            return 0;
+        }
+        if (shouldDeferVideoTransfers(settings, this.networkSvc.isMeteredConnection())) {
+            logger.info(`Switching to ${this.remoteStorage.name} waits for Wi-Fi to download ${lessonsWithRemoteVideo.length} video(s) from ${providerName}.`);
+            return lessonsWithRemoteVideo.length;
+        }
+        logger.info(`Downloading ${lessonsWithRemoteVideo.length} video(s) from ${providerName} before switching to ${this.remoteStorage.name}.`);
+        for (const lesson of lessonsWithRemoteVideo) {
+            await fetchVideo(provider, lesson);
+        }
+        return 0;
+    }
+}
+
+// --- Singleton Instance ---
+export const syncProviderBindingService: SyncProviderBindingService = new SyncProviderBindingServiceImpl(
+    localDatabaseService,
+    remoteStorageService,
+    settingsService,
+    syncConflictService,
+    videoEvictionService,
+    networkStatusService,
+    findConnectedProvider
+);
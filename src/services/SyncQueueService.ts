@@ -1,33 +1,65 @@
 import type { Lesson, Figure } from '../types';
 import type { LocalDatabaseService } from './LocalDatabaseService';
 import { localDatabaseService } from './LocalDatabaseService';
-import { dataService } from './DataService';
-import { googleDriveService, GoogleDriveService } from './GoogleDriveService';
+import { dataService, DataService } from './DataService';
+import { remoteStorageService } from './RemoteStorageService';
 import { settingsService, SettingsService, RemoteGroupingConfig } from './SettingsService';
+import { syncConflictService, SyncConflictService } from './SyncConflictService';
+import { syncHistoryService, SyncHistoryService, getSyncItemName, type NewSyncLogEntry } from './SyncHistoryService';
+import { videoEvictionService, VideoEvictionService } from './VideoEvictionService';
+import { networkStatusService, NetworkStatusService } from './NetworkStatusService';
+import { syncPlanService, SyncPlanService, FOLDERS, getSyncPreviewKey, shouldDeferVideoTransfers, type GallerySyncPlan, type SyncPreviewAction } from './SyncPlanService';
+import { syncProviderBindingService, SyncProviderBindingService } from './SyncProviderBindingService';
 import { createLogger } from '../utils/logger';
 import { GoogleDriveSyncApiImpl, GoogleDriveSyncApi } from '../api/GoogleDriveSyncApi';
-import { GoogleDriveApi, DriveFile } from '../api/GoogleDriveApi';
-import { GoogleDriveApiImpl } from '../api/GoogleDriveApi';
+import { RemoteStorageProvider, RemoteFile, RemoteFileWrite, RemoteBatchResult, TransferOptions, isAbortError } from '../api/RemoteStorageProvider';
+import { settleEach, isTransientRemoteError, isReauthenticationRequiredError, isStorageQuotaExceededError, getRetryAfterMs } from './RemoteTransferPolicy';
 
 
 const logger = createLogger('SyncQueue');
 const generateId = (): string => `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
 // --- Constants ---
-const FOLDERS = {
-    lessons: 'lessons',
-    figures: 'figures',
-    videos: 'videos'
-};
 const FILES = {
     lessonGroupingConfig: 'lesson_grouping_config.json',
     figureGroupingConfig: 'figure_grouping_config.json',
 };
+// Progress arrives with every received chunk; listeners are told at most this often.
+const PROGRESS_NOTIFY_INTERVAL_MS = 250;
+// Returned instead of a result when the user cancelled one item's transfer, so the sync moves on.
+const TRANSFER_CANCELLED = Symbol('transfer-cancelled');
+// Items without a video to transfer are uploaded and deleted this many at a time.
+const ITEM_BATCH_SIZE = 50;
+const ITEM_TASK_TYPES: SyncTaskType[] = ['upload-lesson', 'upload-figure', 'delete-remote', 'download-item'];
 
 // --- Types and Interface (Encapsulated) ---
 export type SyncTaskType = 
   | 'sync-gallery'
-  | 'sync-grouping-config';
+  | 'sync-grouping-config'
+  | SyncItemTaskType;
+
+// Tasks for one lesson or figure, with a payload of `{ type, itemId }`. Each reconciles just that item in
+// whichever direction it needs; the type records why it was queued. Gallery syncs catch anything they miss.
+export type SyncItemTaskType =
+  | 'upload-lesson'
+  | 'upload-figure'
+  | 'delete-remote'
+  | 'download-item';
+
+export interface SyncTaskError {
+  message: string;
+  occurredAt: number;
+}
+
+// The file a running task is transferring. Kept in memory only.
+export interface SyncTaskProgress {
+  itemName: string | null;
+  direction: 'upload' | 'download';
+  transferredBytes: number;
+  totalBytes: number;
+  startedAt: number; // When this transfer started, to work out its rate
+  startedAtBytes: number; // Bytes already there when it started, e.g. of a resumed upload
+}
 
 export interface SyncTask {
   id: string;
@@ -36,9 +68,42 @@ export interface SyncTask {
   status: 'pending' | 'in-progress' | 'error';
   createdAt: number;
   error?: string;
+  errorHistory?: SyncTaskError[];
   priority: number;
+  retryCount: number;
+  nextAttemptAt?: number;
+  progress?: SyncTaskProgress;
+}
+
+// The state of an item at the moment it was last known to be identical on both sides.
+export interface SyncBaseVersion {
+  id: string; // The lesson or figure id
+  type: 'lesson' | 'figure';
+  remoteModifiedTime: string;
+  remoteFileId?: string; // The Drive id of the item's JSON file, used to apply the changes feed
+  snapshot?: Lesson | Figure; // The last synced JSON, used as the common ancestor for three-way merges
 }
 
+// A remote file deleted on this device, kept until the deletion reaches the remote storage.
+export interface SyncTombstone {
+  id: string;
+  deletedAt?: string; // ISO 8601 string; missing on tombstones written by older versions
+}
+
+export interface SyncRetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitterRatio: number; // 0..1, fraction of the delay that is randomized
+}
+
+export const DEFAULT_SYNC_RETRY_POLICY: SyncRetryPolicy = {
+  maxRetries: 5,
+  baseDelayMs: 2000,
+  maxDelayMs: 5 * 60 * 1000,
+  jitterRatio: 0.3,
+};
+
 export interface SyncQueueService {
     getQueue(): SyncTask[];
     getIsActive(): boolean;
@@ -46,36 +111,107 @@ export interface SyncQueueService {
     startProcessing(): void;
     stopProcessing(): void;
     addTask(type: SyncTaskType, payload?: any, isPriority?: boolean): void;
+    // Cancels the file transfer of the running task; the rest of its sync continues.
+    cancelTransfer(): void;
+    // Removes a queued task, or stops the running one at its current step.
+    cancelTask(taskId: string): void;
+    cancelAllTasks(): void;
+    // Lesson videos the last sync left for an unmetered connection.
+    getVideosWaitingForWifi(): number;
+    // New lessons the last sync could not upload because their video is not on this device,
+    // e.g. it was only kept in a previously connected remote storage.
+    getLessonsWithoutVideo(): number;
+    // Whether the last upload was refused because the remote storage is full. Cleared by the next task that succeeds.
+    isRemoteStorageFull(): boolean;
 }
 
+// Returned instead of a base version when a figure's lesson is still to be downloaded.
+interface AwaitingLesson {
+    lessonId: string;
+    itemName: string | null;
+}
+
+interface RemoteItemDeletion {
+    itemId: string;
+    itemName: string | null;
+    jsonFile: RemoteFile;
+}
+
+// --- Helper Functions ---
+
+// Thumbnails are uploaded so that devices without the video can still show them.
+export const getThumbnailPath = (type: 'lesson' | 'figure', itemId: string): string => `/${FOLDERS.thumbnails}/${type}-${itemId}.jpg`;
+
+const isItemTask = (type: SyncTaskType): boolean => ITEM_TASK_TYPES.includes(type);
+
+// Tasks with the same key do the same work. Item tasks of any type share a key, as each reconciles the whole item.
+// A gallery sync limited to what the user approved in a preview only matches one with the same approvals.
+const getTaskKey = (type: SyncTaskType, payload: any): string => {
+    if (isItemTask(type)) return `item:${payload?.type}:${payload?.itemId}`;
+    const approvedKeys: string[] | undefined = payload?.approvedKeys;
+    return approvedKeys ? `${type}:${payload?.type}:approved:${[...approvedKeys].sort().join(',')}` : `${type}:${payload?.type}`;
+};
+
+const toBatches = <T>(items: T[], batchSize: number): T[][] => {
+    const batches: T[][] = [];
+    for (let start = 0; start < items.length; start += batchSize) {
+        batches.push(items.slice(start, start + batchSize));
+    }
+    return batches;
+};
+
 
 // --- Implementation ---
 class SyncQueueServiceImpl implements SyncQueueService {
     private queue: SyncTask[] = [];
     private listeners: Set<() => void> = new Set();
     private isProcessing = false;
+    private isRestored = false;
+    private persistChain: Promise<void> = Promise.resolve();
+    private retryTimer: ReturnType<typeof setTimeout> | null = null;
+    private taskAbortController: AbortController | null = null;
+    private transferAbortController: AbortController | null = null;
+    private isStopping = false;
+    private lastProgressNotifyAt = 0;
+    private videosWaitingForWifi = 0;
+    private lessonsWithoutVideo = 0;
+    // Set while a change of remote storage waits for Wi-Fi to fetch the videos kept only in the previous backend.
+    private isProviderSwitchWaitingForWifi = false;
+    private remoteStorageFull = false;
+    private retryPolicy: SyncRetryPolicy;
     private localDB: LocalDatabaseService;
-    private driveService: GoogleDriveService;
+    private remoteStorage: RemoteStorageProvider;
     private settingsSvc: SettingsService;
+    private conflictSvc: SyncConflictService;
+    private historySvc: SyncHistoryService;
+    private evictionSvc: VideoEvictionService;
+    private networkSvc: NetworkStatusService;
+    private dataSvc: DataService;
     private syncApi: GoogleDriveSyncApi;
-    private gdriveApi: GoogleDriveApi | null = null;
+    private planSvc: SyncPlanService;
+    private bindingSvc: SyncProviderBindingService;
+    private loggedErrors: WeakSet<object> = new WeakSet();
 
-    constructor(localDB: LocalDatabaseService, driveService: GoogleDriveService, settingsSvc: SettingsService) {
+    constructor(localDB: LocalDatabaseService, remoteStorage: RemoteStorageProvider, dataSvc: DataService, settingsSvc: SettingsService, conflictSvc: SyncConflictService, historySvc: SyncHistoryService, evictionSvc: VideoEvictionService, networkSvc: NetworkStatusService, syncApi: GoogleDriveSyncApi, planSvc: SyncPlanService, bindingSvc: SyncProviderBindingService, retryPolicy: SyncRetryPolicy = DEFAULT_SYNC_RETRY_POLICY) {
         this.localDB = localDB;
-        this.driveService = driveService;
+        this.remoteStorage = remoteStorage;
+        this.dataSvc = dataSvc;
         this.settingsSvc = settingsSvc;
-        this.syncApi = new GoogleDriveSyncApiImpl();
+        this.conflictSvc = conflictSvc;
+        this.historySvc = historySvc;
+        this.evictionSvc = evictionSvc;
+        this.networkSvc = networkSvc;
+        this.syncApi = syncApi;
+        this.planSvc = planSvc;
+        this.bindingSvc = bindingSvc;
+        this.retryPolicy = retryPolicy;
+        this.restoreQueue();
 
-        this.driveService.onAuthStateChanged(state => {
-            if (state.isSignedIn) {
-                const storedToken = localStorage.getItem('google_access_token');
-                if (storedToken) {
-                    this.gdriveApi = new GoogleDriveApiImpl(storedToken);
-                }
-            } else {
-                this.gdriveApi = null;
-            }
+        this.remoteStorage.onAvailabilityChanged(isAvailable => {
+            if (isAvailable) this.processNext();
         });
+        this.networkSvc.subscribe(this.resumeDeferredVideos);
+        this.settingsSvc.subscribe(this.resumeDeferredVideos);
     }
 
     // --- Public Interface ---
@@ -89,96 +225,294 @@ class SyncQueueServiceImpl implements SyncQueueService {
     }
 
     public startProcessing = (): void => {
-        const token = localStorage.getItem('google_access_token');
-        if (token) {
-            this.gdriveApi = new GoogleDriveApiImpl(token);
-        }
         this.processNext();
     }
 
     public stopProcessing = (): void => {
-        this.isProcessing = false;
+        // The running task stops at its current step and goes back to the queue; processNext clears isProcessing.
+        if (this.taskAbortController) {
+            this.isStopping = true;
+            this.taskAbortController.abort();
+        }
         this.queue = this.queue.map(task => 
             task.status === 'in-progress' ? { ...task, status: 'pending' } : task
         );
-        this.gdriveApi = null;
+        if (this.retryTimer) clearTimeout(this.retryTimer);
+        this.retryTimer = null;
+        this.persistQueue();
         this.notify();
     }
 
     public addTask = (type: SyncTaskType, payload?: any, isPriority = false): void => {
-        const uniquePayloadIdentifier = payload?.type;
-        if (this.isDuplicate(type, uniquePayloadIdentifier)) {
+        if (this.isDuplicate(type, payload)) {
             logger.info(`Skipping duplicate task: ${type}`, payload);
             return;
         }
         
         logger.info(`Adding task to queue: ${type}`, payload);
         const newTask: SyncTask = {
-            id: generateId(), type, payload, status: 'pending', createdAt: Date.now(), priority: isPriority ? 1 : 0
+            id: generateId(), type, payload, status: 'pending', createdAt: Date.now(), priority: isPriority ? 1 : 0, retryCount: 0
         };
 
         this.queue.push(newTask);
-        
-        this.queue.sort((a, b) => {
-            if (a.priority !== b.priority) {
-                return b.priority - a.priority; // Higher priority first
-            }
-            return a.createdAt - b.createdAt; // Then older tasks first
-        });
+        this.sortQueue();
 
+        this.persistQueue();
         this.notify();
         this.processNext();
     }
     
+    public cancelTransfer = (): void => {
+        if (!this.transferAbortController) return;
+        logger.info('Cancelling the current transfer.');
+        this.transferAbortController.abort();
+    }
+
+    public cancelTask = (taskId: string): void => {
+        const task = this.queue.find(t => t.id === taskId);
+        if (!task) return;
+        if (task.status === 'in-progress') {
+            // processNext removes the task once it has stopped.
+            logger.info(`Cancelling running task: ${task.type}`, task.payload);
+            this.taskAbortController?.abort();
+            return;
+        }
+        logger.info(`Cancelling queued task: ${task.type}`, task.payload);
+        this.removeTask(taskId);
+    }
+
+    public getVideosWaitingForWifi = (): number => this.videosWaitingForWifi;
+
+    public getLessonsWithoutVideo = (): number => this.lessonsWithoutVideo;
+
+    public isRemoteStorageFull = (): boolean => this.remoteStorageFull;
+
+    public cancelAllTasks = (): void => {
+        logger.info('Cancelling all sync tasks.');
+        this.queue = this.queue.filter(task => task.status === 'in-progress');
+        this.taskAbortController?.abort();
+        this.persistQueue();
+        this.notify();
+    }
+
     // --- Task Implementations ---
-    private async syncGallery(type: 'lesson' | 'figure'): Promise<void> {
-        if (!this.gdriveApi) throw new Error("Not authenticated");
+    private async syncGallery(type: 'lesson' | 'figure', approvedKeys?: string[]): Promise<void> {
+        if (!this.remoteStorage.isAvailable()) throw new Error("Remote storage is not available");
         logger.info(`--- Syncing Gallery: ${type.toUpperCase()} ---`);
-        
-        const folderName = type === 'lesson' ? FOLDERS.lessons : FOLDERS.figures;
-        
-        const [remoteJsonFiles, localItems, tombstones] = await Promise.all([
-            this.driveService.listFiles(`/${folderName}`),
-            type === 'lesson' ? this.localDB.getLessons() : this.localDB.getFigures(),
-            this.localDB.getTombstones()
-        ]);
-        
-        const localFilesForPlan = localItems.map(item => ({
-            name: `${item.id}.json`,
-            modifiedTime: item.modifiedTime || '1970-01-01T00:00:00.000Z'
-        }));
-        
-        const plan = this.syncApi.planDirectorySync(localFilesForPlan, remoteJsonFiles, tombstones);
+        const galleryPlan = await this.planSvc.planGallerySync(type);
+        await this.executeGallerySync(galleryPlan, approvedKeys ? new Set(approvedKeys) : null);
+        logger.info(`--- Gallery Sync Complete: ${type.toUpperCase()} ---`);
+    }
+
+    private async syncItem(type: 'lesson' | 'figure', itemId: string): Promise<void> {
+        if (!this.remoteStorage.isAvailable()) throw new Error("Remote storage is not available");
+        logger.info(`Syncing ${type} ${itemId}.`);
+        const itemPlan = await this.planSvc.planGallerySync(type, itemId);
+        await this.executeGallerySync(itemPlan, null);
+    }
+
+    private async executeGallerySync(galleryPlan: GallerySyncPlan, approvedKeys: Set<string> | null): Promise<void> {
+        const { type, plan, localItems, remoteFiles, baseVersions, newChangeToken, itemId: syncedItemId, unresolvedConflictNames, shouldDownloadVideo, videosToBackfill, deferVideoTransfers } = galleryPlan;
+        const isApproved = (action: SyncPreviewAction, itemId: string) => !approvedKeys || approvedKeys.has(getSyncPreviewKey(type, action, itemId));
+        const localNameOf = (itemId: string) => getSyncItemName(localItems.find(item => item.id === itemId));
+        // A new lesson whose video is deferred is saved as cloud only; the backfill fetches the video later.
+        const shouldDownloadVideoNow = (lesson: Lesson) => !deferVideoTransfers && shouldDownloadVideo(lesson);
+        let hasIncompleteDownloads = false;
+        let videosWaitingForWifi = 0;
+        let lessonsWithoutVideo = 0;
+        // A figure is uploaded only after its lesson, so other devices never see it without one.
+        const unuploadedLessonIds = type === 'figure'
+            ? new Set((await this.localDB.getLessons()).filter(lesson => !lesson.driveId).map(lesson => lesson.id))
+            : new Set<string>();
+        const storedVideoIds = type === 'lesson' && plan.filesToUpload.length > 0 ? new Set(await this.localDB.getStoredVideoIds()) : new Set<string>();
 
         // Execute Plan
+        const deletions: RemoteItemDeletion[] = [];
         for (const file of plan.filesToDelete) {
-            logger.info(`Deleting remote item by ID: ${file.id}`);
-            await this.deleteItemByJsonId(file.id, type);
-            await this.localDB.removeTombstones([file.id]);
+            const itemId = file.name.replace('.json', '');
+            // The item is gone locally; the last synced snapshot is the only place its name is known.
+            const itemName = getSyncItemName(baseVersions.find(v => v.remoteFileId === file.id)?.snapshot);
+            if (!isApproved('delete-remote', itemId)) {
+                await this.recordHistory({ type, itemId, itemName, action: 'skip', reason: 'not-approved' });
+                continue;
+            }
+            deletions.push({ itemId, itemName, jsonFile: remoteFiles.find(f => f.id === file.id) ?? { id: file.id, name: file.name, modifiedTime: '' } });
+        }
+        for (const batch of toBatches(deletions, ITEM_BATCH_SIZE)) {
+            this.throwIfTaskCancelled();
+            await this.deleteItemsInBatch(type, batch, baseVersions);
+        }
+
+        for (const file of plan.filesDeletedRemotely) {
+            const itemId = file.name.replace('.json', '');
+            const itemName = localNameOf(itemId);
+            if (unresolvedConflictNames.has(file.name)) {
+                await this.recordHistory({ type, itemId, itemName, action: 'skip', reason: 'unresolved-conflict' });
+                continue;
+            }
+            if (!isApproved('delete-local', itemId)) {
+                // The changes feed would not report the deletion again.
+                hasIncompleteDownloads = true;
+                await this.recordHistory({ type, itemId, itemName, action: 'skip', reason: 'not-approved' });
+                continue;
+            }
+            logger.info(`Deleting local item ${file.name}, which was deleted on another device.`);
+            await this.withFailureLogged({ type, itemId, itemName }, () => this.deleteLocalItem(type, itemId));
+            await this.recordHistory({ type, itemId, itemName, action: 'delete-local', reason: 'deleted-remotely' });
         }
 
         for (const file of plan.filesToDownload) {
+            const itemId = file.name.replace('.json', '');
+            if (unresolvedConflictNames.has(file.name)) {
+                await this.recordHistory({ type, itemId, itemName: localNameOf(itemId), action: 'skip', reason: 'unresolved-conflict' });
+                continue;
+            }
+            if (!isApproved('download', itemId)) {
+                // The changes feed would not report a skipped download again.
+                hasIncompleteDownloads = true;
+                await this.recordHistory({ type, itemId, itemName: localNameOf(itemId), action: 'skip', reason: 'not-approved' });
+                continue;
+            }
             logger.info(`Downloading remote item: ${file.name}`);
-            if (type === 'lesson') await this.downloadLesson(file.id);
-            else await this.downloadFigure(file.id);
+            const baseVersion = await this.transferItem({ type, itemId, itemName: localNameOf(itemId) },
+                () => type === 'lesson' ? this.downloadLesson(file.id, shouldDownloadVideoNow) : this.downloadFigure(file.id));
+            if (baseVersion === TRANSFER_CANCELLED) {
+                hasIncompleteDownloads = true;
+            } else if (baseVersion && 'lessonId' in baseVersion) {
+                hasIncompleteDownloads = true;
+                await this.recordHistory({ type, itemId, itemName: baseVersion.itemName, action: 'skip', reason: 'awaiting-lesson' });
+                // Lesson tasks run first, so the figure's own task finds its lesson. That task does not queue
+                // another round if the lesson still fails to download; the next gallery sync tries again.
+                if (!syncedItemId) {
+                    this.addTask('download-item', { type: 'lesson', itemId: baseVersion.lessonId }, true);
+                    this.addTask('download-item', { type, itemId, lessonId: baseVersion.lessonId }, true);
+                }
+            } else if (baseVersion) {
+                await this.localDB.saveSyncBaseVersions([baseVersion]);
+                await this.recordHistory({ type, itemId, itemName: getSyncItemName(baseVersion.snapshot), action: 'download', reason: 'remote-change' });
+                const isNewCloudOnlyLesson = type === 'lesson' && !localItems.some(item => item.id === itemId) && !shouldDownloadVideoNow(baseVersion.snapshot as Lesson);
+                if (isNewCloudOnlyLesson && shouldDownloadVideo(baseVersion.snapshot as Lesson)) {
+                    videosWaitingForWifi++;
+                    await this.recordHistory({ type, itemId, itemName: getSyncItemName(baseVersion.snapshot), action: 'skip', reason: 'waiting-for-wifi' });
+                } else if (isNewCloudOnlyLesson) {
+                    await this.recordHistory({ type, itemId, itemName: getSyncItemName(baseVersion.snapshot), action: 'skip', reason: 'excluded-by-sync-rules' });
+                }
+            } else {
+                hasIncompleteDownloads = true;
+                await this.recordHistory({ type, itemId, itemName: localNameOf(itemId), action: 'fail', reason: 'download-incomplete' });
+            }
+        }
+
+        for (const lesson of videosToBackfill) {
+            const itemName = getSyncItemName(lesson);
+            if (!isApproved('download', lesson.id)) {
+                await this.recordHistory({ type, itemId: lesson.id, itemName, action: 'skip', reason: 'not-approved' });
+                continue;
+            }
+            if (deferVideoTransfers) {
+                videosWaitingForWifi++;
+                await this.recordHistory({ type, itemId: lesson.id, itemName, action: 'skip', reason: 'waiting-for-wifi' });
+                continue;
+            }
+            logger.info(`Downloading video of lesson ${lesson.id}, which now matches the sync rules.`);
+            const isDownloaded = await this.transferItem({ type, itemId: lesson.id, itemName }, () => this.downloadLessonVideo(lesson));
+            if (isDownloaded === TRANSFER_CANCELLED) continue;
+            await this.recordHistory(isDownloaded
+                ? { type, itemId: lesson.id, itemName, action: 'download', reason: 'sync-rule-matched' }
+                : { type, itemId: lesson.id, itemName, action: 'fail', reason: 'download-incomplete' });
         }
 
+        const batchedUploadIds: string[] = [];
         for (const file of plan.filesToUpload) {
-            logger.info(`Uploading local item: ${file.name}`);
             const localId = file.name.replace('.json', '');
-            if (type === 'lesson') await this.uploadLesson(localId);
-            else await this.uploadFigure(localId);
+            if (unresolvedConflictNames.has(file.name)) {
+                await this.recordHistory({ type, itemId: localId, itemName: localNameOf(localId), action: 'skip', reason: 'unresolved-conflict' });
+                continue;
+            }
+            if (!isApproved('upload', localId)) {
+                await this.recordHistory({ type, itemId: localId, itemName: localNameOf(localId), action: 'skip', reason: 'not-approved' });
+                continue;
+            }
+            const parentLessonId = type === 'figure' ? (localItems.find(item => item.id === localId) as Figure | undefined)?.lessonId : undefined;
+            if (parentLessonId && unuploadedLessonIds.has(parentLessonId)) {
+                await this.recordHistory({ type, itemId: localId, itemName: localNameOf(localId), action: 'skip', reason: 'awaiting-lesson' });
+                continue;
+            }
+            // Other devices cannot use a lesson without its video, so a new lesson is uploaded together with it.
+            const localLesson = type === 'lesson' ? localItems.find(item => item.id === localId) as Lesson | undefined : undefined;
+            const needsVideoUpload = type === 'lesson' && !localLesson?.videoDriveId;
+            if (needsVideoUpload && localLesson && !storedVideoIds.has(localLesson.videoId)) {
+                lessonsWithoutVideo++;
+                await this.recordHistory({ type, itemId: localId, itemName: localNameOf(localId), action: 'skip', reason: 'video-not-on-device' });
+                continue;
+            }
+            if (deferVideoTransfers && needsVideoUpload) {
+                videosWaitingForWifi++;
+                await this.recordHistory({ type, itemId: localId, itemName: localNameOf(localId), action: 'skip', reason: 'waiting-for-wifi' });
+                continue;
+            }
+            if (!needsVideoUpload) {
+                batchedUploadIds.push(localId);
+                continue;
+            }
+            logger.info(`Uploading local item: ${file.name}`);
+            const baseVersion = await this.transferItem({ type, itemId: localId, itemName: localNameOf(localId) },
+                () => type === 'lesson' ? this.uploadLesson(localId) : this.uploadFigure(localId));
+            if (baseVersion === TRANSFER_CANCELLED) continue;
+            await this.localDB.saveSyncBaseVersions([baseVersion]);
+            await this.recordHistory({ type, itemId: localId, itemName: localNameOf(localId), action: 'upload', reason: 'local-change' });
+        }
+        for (const batch of toBatches(batchedUploadIds, ITEM_BATCH_SIZE)) {
+            this.throwIfTaskCancelled();
+            await this.uploadItemsInBatch(type, batch);
+        }
+
+        for (const file of plan.filesInConflict) {
+            this.throwIfTaskCancelled();
+            const itemId = file.name.replace('.json', '');
+            if (!isApproved('merge', itemId)) {
+                hasIncompleteDownloads = true;
+                await this.recordHistory({ type, itemId, itemName: localNameOf(itemId), action: 'skip', reason: 'not-approved' });
+                continue;
+            }
+            logger.info(`Both sides of ${file.name} changed since the last sync. Checking for a conflict.`);
+            await this.withFailureLogged({ type, itemId, itemName: localNameOf(itemId) }, () => this.handleConflict(file.id, itemId, type));
+        }
+
+        // A single item cannot tell how many videos the rest of the gallery is waiting with.
+        if (type === 'lesson' && !syncedItemId && (videosWaitingForWifi !== this.videosWaitingForWifi || lessonsWithoutVideo !== this.lessonsWithoutVideo)) {
+            this.videosWaitingForWifi = videosWaitingForWifi;
+            this.lessonsWithoutVideo = lessonsWithoutVideo;
+            this.notify();
+        }
+
+        // Items that were synced before base versions existed get their base recorded now.
+        const baseVersionsWithFileId = new Set(baseVersions.filter(v => v.remoteFileId).map(v => `${v.id}.json`));
+        const missingBaseVersions: SyncBaseVersion[] = [];
+        for (const file of plan.filesInSync) {
+            const remoteFile = remoteFiles.find(f => f.name === file.name);
+            const localItem = localItems.find(item => `${item.id}.json` === file.name);
+            if (remoteFile && localItem && !baseVersionsWithFileId.has(file.name)) {
+                missingBaseVersions.push({ id: localItem.id, type, remoteModifiedTime: remoteFile.modifiedTime, remoteFileId: remoteFile.id, snapshot: localItem });
+            }
+        }
+        await this.localDB.saveSyncBaseVersions(missingBaseVersions);
+
+        // Items that failed to download have no base version, so the changes feed would never report them again.
+        if (syncedItemId) return;
+        if (hasIncompleteDownloads) {
+            logger.warn(`Some ${type} items were not downloaded. Keeping the previous change token.`);
+        } else {
+            await this.localDB.saveSyncChangeToken(type, newChangeToken);
         }
-        
-        logger.info(`--- Gallery Sync Complete: ${type.toUpperCase()} ---`);
     }
 
     private async syncGroupingConfig(type: 'lesson' | 'figure'): Promise<void> {
-        if (!this.gdriveApi) throw new Error("Not authenticated");
+        if (!this.remoteStorage.isAvailable()) throw new Error("Remote storage is not available");
         logger.info(`--- Syncing Grouping Config: ${type.toUpperCase()} ---`);
         
         const configFileName = type === 'lesson' ? FILES.lessonGroupingConfig : FILES.figureGroupingConfig;
-        const remoteFile = await this.driveService.readJsonFileWithMetadata<RemoteGroupingConfig>(`/${configFileName}`).then(r => r?.metadata || null);
+        const remoteFile = await this.remoteStorage.getFile(`/${configFileName}`);
         const { content, modifiedTime } = await this.settingsSvc.getGroupingConfigForUpload(type);
         
         const localFile = {
@@ -187,89 +521,308 @@ class SyncQueueServiceImpl implements SyncQueueService {
             modifiedTime: modifiedTime,
         };
         
-        const result = await this.syncApi.syncFile(localFile, remoteFile, this.gdriveApi, 'appDataFolder');
+        const result = await this.syncApi.syncFile(localFile, remoteFile, this.remoteStorage, `/${configFileName}`);
 
         if (result.outcome === 'downloaded' && result.downloadedContent && result.newTimestamp) {
             logger.info(`Downloaded newer grouping config for ${type}. Applying.`);
             const remoteContent = JSON.parse(await result.downloadedContent.text());
             const remoteConfig: RemoteGroupingConfig = remoteContent;
             await this.settingsSvc.applyRemoteGroupingConfig(type, remoteConfig, result.newTimestamp);
+            await this.recordHistory({ type, itemId: null, itemName: null, action: 'download', reason: 'grouping-config-changed' });
         } else if (result.outcome === 'uploaded' && result.newTimestamp) {
             logger.info(`Uploaded local grouping config for ${type}.`);
             const key = type === 'lesson' ? 'lessonGroupingConfig_modifiedTime' : 'figureGroupingConfig_modifiedTime';
             await this.settingsSvc.updateSettings({ [key]: result.newTimestamp });
+            await this.recordHistory({ type, itemId: null, itemName: null, action: 'upload', reason: 'grouping-config-changed' });
         } else {
             logger.info(`Grouping config for ${type} is in sync.`);
         }
     }
 
     // --- Private Domain Logic Helpers ---
-    private async deleteItemByJsonId(jsonId: string, type: 'lesson' | 'figure'): Promise<void> {
+    // Returns false while the switch to another backend waits for Wi-Fi.
+    // Only called from processNext, so the reset never runs alongside a task.
+    private async ensureProviderBinding(): Promise<boolean> {
+        const result = await this.bindingSvc.bind(this.fetchVideoFromPreviousProvider);
+        if (!result.isBound) {
+            this.isProviderSwitchWaitingForWifi = true;
+            this.videosWaitingForWifi = result.videosWaitingForWifi;
+            this.notify();
+        }
+        return result.isBound;
+    }
+
+    // A video that cannot be fetched is logged and skipped, so the switch goes ahead without it.
+    private fetchVideoFromPreviousProvider = async (provider: RemoteStorageProvider, lesson: Lesson): Promise<void> => {
+        const itemName = getSyncItemName(lesson);
+        try {
+            await this.transferItem({ type: 'lesson', itemId: lesson.id, itemName }, async () => {
+                const videoBlob = await provider.readBinaryFileById(lesson.videoDriveId!, this.transferOptions(itemName, 'download'));
+                if (!videoBlob) return;
+                await this.evictionSvc.ensureSpaceFor(videoBlob.size);
+                await this.dataSvc.saveDownloadedLesson(lesson, videoBlob);
+            });
+        } catch (e) {
+            this.throwIfTaskCancelled();
+            logger.warn(`Could not download the video of lesson ${lesson.id} from ${provider.name}.`, e);
+        }
+    }
+
+    private recordHistory = (entry: Omit<NewSyncLogEntry, 'provider'>): Promise<void> =>
+        this.historySvc.record({ ...entry, provider: this.remoteStorage.name });
+
+    // Records a failed item operation in the sync log before the error fails the task.
+    private async withFailureLogged<T>(item: Pick<NewSyncLogEntry, 'type' | 'itemId' | 'itemName'>, operation: () => Promise<T>): Promise<T> {
+        try {
+            return await operation();
+        } catch (e: any) {
+            // The task is paused, not failed; the item is synced once the user signs in again.
+            if (isReauthenticationRequiredError(e)) throw e;
+            await this.recordItemFailure(item, e);
+            throw e;
+        }
+    }
+
+    private recordItemFailure = async (item: Pick<NewSyncLogEntry, 'type' | 'itemId' | 'itemName'>, e: any): Promise<void> => {
+        await this.recordHistory(isAbortError(e)
+            ? { ...item, action: 'skip', reason: 'cancelled' }
+            : { ...item, action: 'fail', reason: isStorageQuotaExceededError(e) ? 'storage-full' : 'error', detail: e?.message });
+        if (e && typeof e === 'object') this.loggedErrors.add(e);
+    }
+
+    // The items that succeeded are kept; the first failure then fails the task, as a single item's failure would.
+    private throwFirstItemFailure = async (type: 'lesson' | 'figure', failures: Map<string, unknown>, itemNames: Map<string, string | null>): Promise<void> => {
+        for (const [itemId, e] of failures) {
+            await this.recordItemFailure({ type, itemId, itemName: itemNames.get(itemId) ?? null }, e);
+        }
+        const [firstFailure] = failures.values();
+        if (failures.size > 0) throw firstFailure;
+    }
+
+    // Providers without batch support get the same per-file results from one request per file.
+    private writeRemoteFiles = (files: RemoteFileWrite[]): Promise<RemoteBatchResult<RemoteFile>[]> =>
+        this.remoteStorage.writeFiles
+            ? this.remoteStorage.writeFiles(files, this.taskAbortController?.signal)
+            : settleEach(files, file => this.remoteStorage.writeFile(file.filePath, file.content, file.mimeType));
+
+    private deleteRemoteFiles = (filePaths: string[]): Promise<RemoteBatchResult<void>[]> =>
+        this.remoteStorage.deleteFiles
+            ? this.remoteStorage.deleteFiles(filePaths, this.taskAbortController?.signal)
+            : settleEach(filePaths, filePath => this.remoteStorage.deleteFile(filePath));
+
+    private deleteRemoteFilesById = (fileIds: string[]): Promise<RemoteBatchResult<void>[]> =>
+        this.remoteStorage.deleteFilesById
+            ? this.remoteStorage.deleteFilesById(fileIds, this.taskAbortController?.signal)
+            : settleEach(fileIds, fileId => this.remoteStorage.deleteFileById(fileId));
+
+    // Runs one item's step with its own abort signal, so that cancelling its transfer only skips the item.
+    private async transferItem<T>(item: Pick<NewSyncLogEntry, 'type' | 'itemId' | 'itemName'>, operation: () => Promise<T>): Promise<T | typeof TRANSFER_CANCELLED> {
+        this.throwIfTaskCancelled();
+        const taskSignal = this.taskAbortController?.signal;
+        const controller = new AbortController();
+        const abortTransfer = () => controller.abort();
+        taskSignal?.addEventListener('abort', abortTransfer, { once: true });
+        this.transferAbortController = controller;
+        try {
+            return await this.withFailureLogged(item, operation);
+        } catch (e) {
+            if (isAbortError(e) && !taskSignal?.aborted) {
+                logger.info(`Transfer of ${item.type} ${item.itemId} was cancelled. Continuing with the next item.`);
+                return TRANSFER_CANCELLED;
+            }
+            throw e;
+        } finally {
+            taskSignal?.removeEventListener('abort', abortTransfer);
+            this.transferAbortController = null;
+            this.setTaskProgress(undefined);
+        }
+    }
+
+    private throwIfTaskCancelled = (): void => {
+        this.taskAbortController?.signal.throwIfAborted();
+    }
+
+    private transferOptions = (itemName: string | null, direction: SyncTaskProgress['direction']): TransferOptions => ({
+        signal: this.transferAbortController?.signal,
+        onProgress: (transferredBytes, totalBytes) => {
+            const current = this.queue.find(t => t.status === 'in-progress')?.progress;
+            const isSameTransfer = current?.itemName === itemName && current?.direction === direction;
+            this.setTaskProgress({
+                itemName, direction, transferredBytes, totalBytes,
+                startedAt: isSameTransfer ? current.startedAt : Date.now(),
+                startedAtBytes: isSameTransfer ? current.startedAtBytes : transferredBytes,
+            });
+        },
+    });
+
+    private async handleConflict(jsonId: string, itemId: string, type: 'lesson' | 'figure'): Promise<void> {
+        const [result, localItem] = await Promise.all([
+            this.remoteStorage.readJsonFileWithMetadataById<Lesson | Figure>(jsonId),
+            type === 'lesson' ? this.localDB.getLesson(itemId) : this.localDB.getFigure(itemId),
+        ]);
+        // The task fails instead, so the check runs again on the next attempt rather than leaving both sides out of step.
+        if (!result?.content) throw new Error(`Could not load the remote version of ${type} ${itemId} to check for a conflict.`);
+        if (!localItem) throw new Error(`Could not load the local version of ${type} ${itemId} to check for a conflict.`);
+
+        const reconciliation = await this.conflictSvc.reconcileItem(type, localItem, result.content, result.metadata);
+        const itemName = getSyncItemName(localItem);
+        if (reconciliation.outcome === 'conflict') {
+            await this.recordHistory({ type, itemId, itemName, action: 'conflict', reason: 'both-changed', detail: reconciliation.clashingFields?.join(', ') });
+        } else if (reconciliation.outcome === 'merged') {
+            if (reconciliation.needsUpload) {
+                const baseVersion = type === 'lesson' ? await this.uploadLesson(itemId) : await this.uploadFigure(itemId);
+                await this.localDB.saveSyncBaseVersions([baseVersion]);
+            }
+            await this.recordHistory({ type, itemId, itemName, action: 'merge', reason: 'merged-automatically' });
+        }
+    }
+
+    private async deleteLocalItem(type: 'lesson' | 'figure', itemId: string): Promise<void> {
+        // The lesson's figures go with it; the device that deleted the lesson removes their remote files.
+        const figureIds = type === 'lesson'
+            ? (await this.localDB.getFigures()).filter(figure => figure.lessonId === itemId).map(figure => figure.id)
+            : [];
         if (type === 'lesson') {
-            const lessonData = await this.driveService.readJsonFileById<Lesson>(jsonId);
-            if (lessonData?.videoDriveId) {
-                await this.driveService.deleteFileById(lessonData.videoDriveId);
+            await this.dataSvc.deleteLesson(itemId);
+        } else {
+            await this.dataSvc.deleteFigure(itemId);
+        }
+        await this.localDB.deleteSyncBaseVersions([itemId, ...figureIds]);
+    }
+
+    // Videos and thumbnails go first; a JSON file is deleted only once nothing else of its item is left.
+    private async deleteItemsInBatch(type: 'lesson' | 'figure', deletions: RemoteItemDeletion[], baseVersions: SyncBaseVersion[]): Promise<void> {
+        logger.info(`Deleting ${deletions.length} remote ${type} item(s).`);
+        const failures = new Map<string, unknown>();
+        const videoDriveIds = new Map<string, string>();
+        if (type === 'lesson') {
+            for (const { itemId, jsonFile } of deletions) {
+                try {
+                    // The snapshot saves a download when the remote file has not changed since the last sync.
+                    const baseVersion = baseVersions.find(v => v.remoteFileId === jsonFile.id && v.remoteModifiedTime === jsonFile.modifiedTime);
+                    const lesson = (baseVersion?.snapshot as Lesson | undefined) ?? await this.remoteStorage.readJsonFileById<Lesson>(jsonFile.id);
+                    if (lesson?.videoDriveId) videoDriveIds.set(itemId, lesson.videoDriveId);
+                } catch (e) {
+                    if (isAbortError(e) || isReauthenticationRequiredError(e)) throw e;
+                    failures.set(itemId, e);
+                }
             }
         }
-        await this.driveService.deleteFileById(jsonId);
+
+        const readable = deletions.filter(deletion => !failures.has(deletion.itemId));
+        const withVideos = readable.filter(deletion => videoDriveIds.has(deletion.itemId));
+        const thumbnailResults = await this.deleteRemoteFiles(readable.map(deletion => getThumbnailPath(type, deletion.itemId)));
+        const videoResults = await this.deleteRemoteFilesById(withVideos.map(deletion => videoDriveIds.get(deletion.itemId)!));
+        readable.forEach((deletion, index) => { if (!thumbnailResults[index].ok) failures.set(deletion.itemId, thumbnailResults[index].error); });
+        withVideos.forEach((deletion, index) => { if (!videoResults[index].ok) failures.set(deletion.itemId, videoResults[index].error); });
+
+        const ready = readable.filter(deletion => !failures.has(deletion.itemId));
+        const jsonResults = await this.deleteRemoteFilesById(ready.map(deletion => deletion.jsonFile.id));
+        ready.forEach((deletion, index) => { if (!jsonResults[index].ok) failures.set(deletion.itemId, jsonResults[index].error); });
+
+        const deleted = ready.filter(deletion => !failures.has(deletion.itemId));
+        const deletedFileIds = new Set(deleted.map(deletion => deletion.jsonFile.id));
+        await this.localDB.removeTombstones([...deletedFileIds]);
+        await this.localDB.deleteSyncBaseVersions(baseVersions.filter(v => deletedFileIds.has(v.remoteFileId!)).map(v => v.id));
+        for (const { itemId, itemName } of deleted) {
+            await this.recordHistory({ type, itemId, itemName, action: 'delete-remote', reason: 'deleted-locally' });
+        }
+        await this.throwFirstItemFailure(type, failures, new Map(deletions.map(deletion => [deletion.itemId, deletion.itemName])));
     }
     
-    private async downloadLesson(jsonId: string): Promise<void> {
-        const result = await this.driveService.readJsonFileWithMetadataById<Lesson>(jsonId);
+    private async downloadLesson(jsonId: string, shouldDownloadVideo: (lesson: Lesson) => boolean): Promise<SyncBaseVersion | null> {
+        const result = await this.remoteStorage.readJsonFileWithMetadataById<Lesson>(jsonId);
         if (!result) {
             logger.warn(`Could not download lesson JSON and metadata for ID ${jsonId}`);
-            return;
+            return null;
         }
         const { content: lessonData, metadata } = result;
     
         if (!lessonData) {
             logger.warn(`Lesson JSON ${jsonId} downloaded but was empty.`);
-            return;
+            return null;
         }
 
         const localLesson = (await this.localDB.getLessons()).find(l => l.id === lessonData.id);
 
         if (localLesson) {
-            // Lesson exists locally, so the video blob should also exist.
-            // We only need to update the lesson's metadata, not re-download the video.
+            // Lesson exists locally. We only need to update the lesson's metadata, not re-download the video.
             logger.info(`Lesson ${lessonData.id} already exists locally. Updating metadata only.`);
-            
-            await dataService.updateLesson(lessonData.id, {
-                ...lessonData,
-                modifiedTime: metadata.modifiedTime // Ensure we use the new remote timestamp
-            });
+            const hasLocalVideo = !!(await this.localDB.getVideoBlob(localLesson.videoId));
+            if (!hasLocalVideo && lessonData.thumbTime !== localLesson.thumbTime) {
+                // Without the video, the new thumbnail can only come from the remote copy.
+                const thumbnailBlob = await this.remoteStorage.readBinaryFile(getThumbnailPath('lesson', lessonData.id));
+                await this.dataSvc.saveDownloadedLesson({ ...lessonData, modifiedTime: metadata.modifiedTime }, null, thumbnailBlob);
+            } else {
+                await this.dataSvc.updateLesson(lessonData.id, {
+                    ...lessonData,
+                    modifiedTime: metadata.modifiedTime // Ensure we use the new remote timestamp
+                });
+            }
+            return { id: lessonData.id, type: 'lesson', remoteModifiedTime: metadata.modifiedTime, remoteFileId: metadata.id, snapshot: lessonData };
+        } else if (lessonData.videoDriveId && !shouldDownloadVideo(lessonData)) {
+            // The video stays in the cloud until the sync rules include this lesson.
+            logger.info(`Lesson ${lessonData.id} is new but excluded by the sync rules. Saving metadata only.`);
+            const thumbnailBlob = await this.remoteStorage.readBinaryFile(getThumbnailPath('lesson', lessonData.id));
+            await this.dataSvc.saveDownloadedLesson({ ...lessonData, modifiedTime: metadata.modifiedTime }, null, thumbnailBlob);
+            return { id: lessonData.id, type: 'lesson', remoteModifiedTime: metadata.modifiedTime, remoteFileId: metadata.id, snapshot: lessonData };
         } else {
             // Lesson is completely new to this device. Download the video as well.
             logger.info(`Lesson ${lessonData.id} is new. Downloading video blob.`);
             if (lessonData.videoDriveId) {
-                const videoBlob = await this.driveService.readBinaryFileById(lessonData.videoDriveId);
+                const videoBlob = await this.remoteStorage.readBinaryFileById(lessonData.videoDriveId, this.transferOptions(getSyncItemName(lessonData), 'download'));
                 if (videoBlob) {
+                    await this.evictionSvc.ensureSpaceFor(videoBlob.size);
                     const lessonToSave = { ...lessonData, modifiedTime: metadata.modifiedTime };
-                    await dataService.saveDownloadedLesson(lessonToSave, videoBlob);
+                    await this.dataSvc.saveDownloadedLesson(lessonToSave, videoBlob);
+                    return { id: lessonData.id, type: 'lesson', remoteModifiedTime: metadata.modifiedTime, remoteFileId: metadata.id, snapshot: lessonData };
                 } else {
                     logger.warn(`Could not download video blob for new lesson ${lessonData.id}`);
                 }
             } else {
                 logger.warn(`New lesson JSON ${jsonId} has no videoDriveId.`);
             }
+            return null;
         }
     }
 
-    private async downloadFigure(jsonId: string): Promise<void> {
-        const result = await this.driveService.readJsonFileWithMetadataById<Figure>(jsonId);
+    private async downloadLessonVideo(lesson: Lesson): Promise<boolean> {
+        const videoBlob = await this.remoteStorage.readBinaryFileById(lesson.videoDriveId!, this.transferOptions(getSyncItemName(lesson), 'download'));
+        if (!videoBlob) {
+            logger.warn(`Could not download video blob for lesson ${lesson.id}`);
+            return false;
+        }
+        await this.evictionSvc.ensureSpaceFor(videoBlob.size);
+        // Re-read the lesson so edits made during the download are not overwritten.
+        const currentLesson = await this.localDB.getLesson(lesson.id);
+        if (!currentLesson) return false;
+        await this.dataSvc.saveDownloadedLesson(currentLesson, videoBlob);
+        return true;
+    }
+
+    private async downloadFigure(jsonId: string): Promise<SyncBaseVersion | AwaitingLesson | null> {
+        const result = await this.remoteStorage.readJsonFileWithMetadataById<Figure>(jsonId);
         if (!result) {
             logger.warn(`Could not download figure JSON and metadata for ID ${jsonId}`);
-            return;
+            return null;
         }
         const { content: figureData, metadata } = result;
     
-        if (figureData) {
-            const figureToSave = { ...figureData, modifiedTime: metadata.modifiedTime };
-            await dataService.saveDownloadedFigure(figureToSave);
+        if (!figureData) return null;
+        // A lesson that is not in the cloud either may never arrive; its figure is saved and waits in the gallery, where it can be removed.
+        if (!(await this.localDB.getLesson(figureData.lessonId)) && await this.remoteStorage.getFile(`/${FOLDERS.lessons}/${figureData.lessonId}.json`)) {
+            logger.info(`Figure ${figureData.id} belongs to lesson ${figureData.lessonId}, which is not downloaded yet.`);
+            return { lessonId: figureData.lessonId, itemName: getSyncItemName(figureData) };
         }
+        const figureToSave = { ...figureData, modifiedTime: metadata.modifiedTime };
+        // A thumbnail can be generated locally only when the parent lesson's video is here.
+        const hasParentVideo = !!(await this.dataSvc.getVideoFile(figureData.lessonId));
+        const thumbnailBlob = hasParentVideo ? null : await this.remoteStorage.readBinaryFile(getThumbnailPath('figure', figureData.id));
+        await this.dataSvc.saveDownloadedFigure(figureToSave, thumbnailBlob);
+        return { id: figureData.id, type: 'figure', remoteModifiedTime: metadata.modifiedTime, remoteFileId: metadata.id, snapshot: figureData };
     }
     
-    private async uploadLesson(lessonId: string): Promise<void> {
+    private async uploadLesson(lessonId: string): Promise<SyncBaseVersion> {
         const lesson = await this.localDB.getLessons().then(l => l.find(x => x.id === lessonId));
         if (!lesson) throw new Error(`Cannot upload lesson ${lessonId}: not found in local DB.`);
         
@@ -278,87 +831,369 @@ class SyncQueueServiceImpl implements SyncQueueService {
         // Only upload the video if it hasn't been uploaded before.
         if (!videoDriveId) {
             logger.info(`Lesson ${lessonId} has no videoDriveId. Uploading video file...`);
-            const videoFile = await dataService.getVideoFile(lesson.id);
+            const videoFile = await this.dataSvc.getVideoFile(lesson.id);
             if (!videoFile) throw new Error(`Cannot upload NEW lesson ${lessonId}: video file not found.`);
             
-            const videoDriveFile = await this.driveService.writeFile(`/${FOLDERS.videos}/${lesson.id}.mp4`, videoFile, videoFile.type);
+            // Videos read back from the file system carry no MIME type.
+            const itemName = getSyncItemName(lesson);
+            const videoDriveFile = await this.remoteStorage.writeFile(`/${FOLDERS.videos}/${lesson.id}.mp4`, videoFile, videoFile.type || 'video/mp4',
+                this.transferOptions(itemName, 'upload'));
+            this.setTaskProgress(undefined);
             videoDriveId = videoDriveFile.id;
         } else {
             logger.info(`Lesson ${lessonId} already has videoDriveId (${videoDriveId}). Skipping video upload.`);
         }
+        await this.uploadThumbnail('lesson', lesson.id);
         
         const lessonWithVideoId: Lesson = { ...lesson, videoDriveId: videoDriveId };
         const updatedLessonJson = JSON.stringify(lessonWithVideoId);
         
-        const lessonDriveFile = await this.driveService.writeFile(`/${FOLDERS.lessons}/${lesson.id}.json`, updatedLessonJson, 'application/json');
+        const lessonDriveFile = await this.remoteStorage.writeFile(`/${FOLDERS.lessons}/${lesson.id}.json`, updatedLessonJson, 'application/json');
 
-        await dataService.updateLesson(lesson.id, { 
+        await this.dataSvc.updateLesson(lesson.id, { 
             driveId: lessonDriveFile.id,
             videoDriveId: videoDriveId, 
             modifiedTime: lessonDriveFile.modifiedTime 
         });
+        if (!lesson.driveId) await this.queueFiguresOfUploadedLesson(lesson.id);
+        return { id: lesson.id, type: 'lesson', remoteModifiedTime: lessonDriveFile.modifiedTime, remoteFileId: lessonDriveFile.id, snapshot: lessonWithVideoId };
     }
 
-    private async uploadFigure(figureId: string): Promise<void> {
+    private async uploadThumbnail(type: 'lesson' | 'figure', itemId: string): Promise<void> {
+        const thumbnailBlob = await this.readThumbnailBlob(type, itemId);
+        if (!thumbnailBlob) return;
+        await this.remoteStorage.writeFile(getThumbnailPath(type, itemId), thumbnailBlob, thumbnailBlob.type || 'image/jpeg');
+    }
+
+    private readThumbnailBlob = (type: 'lesson' | 'figure', itemId: string): Promise<Blob | null | undefined> =>
+        type === 'lesson' ? this.localDB.getLessonThumbnailBlob(itemId) : this.localDB.getFigureThumbnailBlob(itemId);
+
+    // For figures and for lessons whose video is already uploaded. As in the single-item upload,
+    // an item's JSON is written only after its thumbnail.
+    private async uploadItemsInBatch(type: 'lesson' | 'figure', itemIds: string[]): Promise<void> {
+        logger.info(`Uploading ${itemIds.length} local ${type} item(s).`);
+        const localItems: (Lesson | Figure)[] = type === 'lesson' ? await this.localDB.getLessons() : await this.localDB.getFigures();
+        const failures = new Map<string, unknown>();
+        const items: (Lesson | Figure)[] = [];
+        for (const itemId of itemIds) {
+            const item = localItems.find(x => x.id === itemId);
+            if (item) items.push(item);
+            else failures.set(itemId, new Error(`Cannot upload ${type} ${itemId}: not found in local DB.`));
+        }
+
+        const thumbnails: { itemId: string; write: RemoteFileWrite }[] = [];
+        for (const item of items) {
+            const thumbnailBlob = await this.readThumbnailBlob(type, item.id);
+            if (thumbnailBlob) {
+                thumbnails.push({ itemId: item.id, write: { filePath: getThumbnailPath(type, item.id), content: thumbnailBlob, mimeType: thumbnailBlob.type || 'image/jpeg' } });
+            }
+        }
+        const thumbnailResults = await this.writeRemoteFiles(thumbnails.map(thumbnail => thumbnail.write));
+        thumbnails.forEach((thumbnail, index) => { if (!thumbnailResults[index].ok) failures.set(thumbnail.itemId, thumbnailResults[index].error); });
+
+        const ready = items.filter(item => !failures.has(item.id));
+        const folderName = type === 'lesson' ? FOLDERS.lessons : FOLDERS.figures;
+        const jsonResults = await this.writeRemoteFiles(ready.map(item => ({ filePath: `/${folderName}/${item.id}.json`, content: JSON.stringify(item), mimeType: 'application/json' })));
+
+        const baseVersions: SyncBaseVersion[] = [];
+        for (const [index, item] of ready.entries()) {
+            const result = jsonResults[index];
+            if (!result.ok) {
+                failures.set(item.id, result.error);
+                continue;
+            }
+            const driveFile = result.value;
+            if (type === 'lesson') {
+                await this.dataSvc.updateLesson(item.id, { driveId: driveFile.id, videoDriveId: (item as Lesson).videoDriveId, modifiedTime: driveFile.modifiedTime });
+                if (!item.driveId) await this.queueFiguresOfUploadedLesson(item.id);
+            } else {
+                await this.dataSvc.updateFigure(item.id, { driveId: driveFile.id, modifiedTime: driveFile.modifiedTime });
+            }
+            baseVersions.push({ id: item.id, type, remoteModifiedTime: driveFile.modifiedTime, remoteFileId: driveFile.id, snapshot: item });
+        }
+        await this.localDB.saveSyncBaseVersions(baseVersions);
+        for (const { snapshot } of baseVersions) {
+            await this.recordHistory({ type, itemId: snapshot!.id, itemName: getSyncItemName(snapshot), action: 'upload', reason: 'local-change' });
+        }
+        await this.throwFirstItemFailure(type, failures, new Map(localItems.map(item => [item.id, getSyncItemName(item)])));
+    }
+
+    private async uploadFigure(figureId: string): Promise<SyncBaseVersion> {
         const figure = await this.localDB.getFigures().then(f => f.find(x => x.id === figureId));
         if (!figure) throw new Error(`Cannot upload figure ${figureId}: not found in local DB.`);
 
+        await this.uploadThumbnail('figure', figure.id);
         const figureJson = JSON.stringify(figure);
-        const figureDriveFile = await this.driveService.writeFile(`/${FOLDERS.figures}/${figure.id}.json`, figureJson, 'application/json');
+        const figureDriveFile = await this.remoteStorage.writeFile(`/${FOLDERS.figures}/${figure.id}.json`, figureJson, 'application/json');
 
-        await dataService.updateFigure(figure.id, { driveId: figureDriveFile.id, modifiedTime: figureDriveFile.modifiedTime });
+        await this.dataSvc.updateFigure(figure.id, { driveId: figureDriveFile.id, modifiedTime: figureDriveFile.modifiedTime });
+        return { id: figure.id, type: 'figure', remoteModifiedTime: figureDriveFile.modifiedTime, remoteFileId: figureDriveFile.id, snapshot: figure };
     }
     
 
     // --- Private Queue Management Methods ---
     private notify = (): void => this.listeners.forEach(listener => listener());
 
-    private isDuplicate = (type: SyncTaskType, payloadIdentifier: any): boolean => {
-        if (!payloadIdentifier) return false;
-        
+    private sortQueue = (): void => {
+        this.queue.sort((a, b) => {
+            if (a.priority !== b.priority) {
+                return b.priority - a.priority; // Higher priority first
+            }
+            return a.createdAt - b.createdAt; // Then older tasks first
+        });
+    }
+
+    private restoreQueue = async (): Promise<void> => {
+        try {
+            const storedTasks = await this.localDB.getSyncTasks();
+            // A task that was in progress when the app was closed never finished, so it must run again.
+            const restoredTasks = storedTasks.map(task => ({
+                ...task,
+                status: task.status === 'in-progress' ? 'pending' as const : task.status,
+                retryCount: task.retryCount ?? 0,
+                progress: undefined,
+            }));
+            // Tasks added before the restore finished win over stored duplicates of the same work.
+            const newTasks = this.queue;
+            this.queue = restoredTasks.filter(stored => !newTasks.some(task =>
+                task.id === stored.id ||
+                (stored.status !== 'error' && getTaskKey(task.type, task.payload) === getTaskKey(stored.type, stored.payload))
+            ));
+            this.queue.push(...newTasks);
+            this.sortQueue();
+            logger.info(`Restored ${restoredTasks.length} persisted task(s) from the local database.`);
+        } catch (e) {
+            logger.error('Failed to restore the persisted sync queue.', e);
+        } finally {
+            this.isRestored = true;
+            this.persistQueue();
+            this.notify();
+            this.processNext();
+        }
+    }
+
+    private persistQueue = (): void => {
+        if (!this.isRestored) return;
+        const snapshot = this.queue.map(task => ({ ...task }));
+        // Writes are chained so an older snapshot can never overwrite a newer one.
+        this.persistChain = this.persistChain
+            .then(() => this.localDB.saveSyncTasks(snapshot))
+            .catch(e => logger.error('Failed to persist the sync queue.', e));
+    }
+
+    private isDuplicate = (type: SyncTaskType, payload: any): boolean => {
+        if (!payload?.type) return false;
+        const key = getTaskKey(type, payload);
+
+        if (isItemTask(type)) {
+            // A running task may have read the item before this change, so only one that has not started covers it.
+            // So does a pending sync of the item's whole gallery.
+            return this.queue.some(task =>
+                task.status === 'pending' &&
+                (getTaskKey(task.type, task.payload) === key ||
+                    (task.type === 'sync-gallery' && task.payload?.type === payload.type && !task.payload.approvedKeys))
+            );
+        }
+
         // Prevent adding a new task if an identical one is already pending or in-progress.
         return this.queue.some(task => 
-            task.type === type && 
-            task.payload?.type === payloadIdentifier &&
+            getTaskKey(task.type, task.payload) === key &&
             (task.status === 'pending' || task.status === 'in-progress')
         );
     }
     
-    private updateTaskStatus = (taskId: string, status: SyncTask['status'], error?: string): void => {
+    private updateTaskStatus = (taskId: string, status: SyncTask['status']): void => {
         const taskIndex = this.queue.findIndex(t => t.id === taskId);
         if (taskIndex > -1) {
             this.queue[taskIndex].status = status;
-            if (error) this.queue[taskIndex].error = error;
         }
+        this.persistQueue();
+        this.notify();
+    }
+
+    // Progress changes many times per task, so it is only broadcast, never persisted on its own.
+    private setTaskProgress = (progress: SyncTaskProgress | undefined): void => {
+        const task = this.queue.find(t => t.status === 'in-progress');
+        if (!task) return;
+        task.progress = progress;
+        const now = Date.now();
+        const isFinalUpdate = !progress || progress.transferredBytes >= progress.totalBytes;
+        if (!isFinalUpdate && now - this.lastProgressNotifyAt < PROGRESS_NOTIFY_INTERVAL_MS) return;
+        this.lastProgressNotifyAt = now;
+        this.notify();
+    }
+
+    private recordFailure = (taskId: string, message: string, nextAttemptAt?: number): void => {
+        const task = this.queue.find(t => t.id === taskId);
+        if (task) {
+            task.progress = undefined;
+            task.error = message;
+            task.errorHistory = [...(task.errorHistory || []), { message, occurredAt: Date.now() }];
+            if (nextAttemptAt) {
+                task.status = 'pending';
+                task.retryCount += 1;
+                task.nextAttemptAt = nextAttemptAt;
+            } else {
+                task.status = 'error';
+                task.nextAttemptAt = undefined;
+            }
+        }
+        this.persistQueue();
         this.notify();
     }
 
+    private getRetryDelay = (retryCount: number): number => {
+        const { baseDelayMs, maxDelayMs, jitterRatio } = this.retryPolicy;
+        const exponentialDelay = Math.min(maxDelayMs, baseDelayMs * 2 ** retryCount);
+        const jitter = exponentialDelay * jitterRatio * (Math.random() * 2 - 1);
+        return Math.max(0, Math.round(exponentialDelay + jitter));
+    }
+
+    // Figures refer to their lesson, so a figure syncs only once the lesson tasks that may touch its lesson have run.
+    // A figure item task knows its lesson from the payload; older queued tasks and gallery syncs wait for every lesson.
+    // Lesson tasks waiting to retry do not hold figures up, as their backoff can last minutes.
+    private isWaitingForLessons = (task: SyncTask): boolean => {
+        if (task.payload?.type !== 'figure' || task.type === 'sync-grouping-config') return false;
+        const lessonId: string | undefined = task.payload.lessonId;
+        const now = Date.now();
+        return this.queue.some(other =>
+            other.payload?.type === 'lesson' &&
+            other.type !== 'sync-grouping-config' &&
+            (other.status === 'in-progress' || (other.status === 'pending' && (!other.nextAttemptAt || other.nextAttemptAt <= now))) &&
+            (!lessonId || !other.payload.itemId || other.payload.itemId === lessonId)
+        );
+    }
+
+    // A figure is not uploaded before its lesson, so once the lesson is, its figures that were left behind follow.
+    private queueFiguresOfUploadedLesson = async (lessonId: string): Promise<void> => {
+        const figures = (await this.localDB.getFigures()).filter(figure => figure.lessonId === lessonId && !figure.driveId);
+        figures.forEach(figure => this.addTask('upload-figure', { type: 'figure', itemId: figure.id, lessonId }, true));
+    }
+
+    private scheduleRetryWakeUp = (): void => {
+        if (this.retryTimer) clearTimeout(this.retryTimer);
+        this.retryTimer = null;
+        const waitingTimes = this.queue
+            .filter(t => t.status === 'pending' && t.nextAttemptAt)
+            .map(t => t.nextAttemptAt!);
+        if (waitingTimes.length === 0) return;
+        const delay = Math.max(0, Math.min(...waitingTimes) - Date.now());
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            this.processNext();
+        }, delay);
+    }
+
     private removeTask = (taskId: string): void => {
         this.queue = this.queue.filter(t => t.id !== taskId);
+        this.persistQueue();
+        this.notify();
+    }
+
+    // Once videos may be transferred again, sync the lessons whose videos were left waiting.
+    private resumeDeferredVideos = (): void => {
+        const settings = this.settingsSvc.getSettingsSnapshot();
+        if (!settings || this.videosWaitingForWifi === 0) return;
+        if (shouldDeferVideoTransfers(settings, this.networkSvc.isMeteredConnection())) return;
+        logger.info(`Video transfers are allowed again. Syncing ${this.videosWaitingForWifi} waiting video(s).`);
+        this.videosWaitingForWifi = 0;
+        this.isProviderSwitchWaitingForWifi = false;
+        this.notify();
+        this.addTask('sync-gallery', { type: 'lesson' });
+        // Figures of new lessons wait until their lesson is uploaded with its video.
+        this.addTask('sync-gallery', { type: 'figure' });
+    }
+
+    // A stopped task runs again later; a cancelled one is dropped.
+    private handleTaskAborted = async (task: SyncTask, error: unknown): Promise<void> => {
+        if (this.isStopping) {
+            logger.info(`Task stopped: ${task.type}. It will run again when sync resumes.`);
+            this.requeueTask(task.id);
+            return;
+        }
+        logger.info(`Task cancelled: ${task.type}`, task.payload);
+        if (task.payload?.type && !(error && typeof error === 'object' && this.loggedErrors.has(error))) {
+            await this.recordHistory({ type: task.payload.type, itemId: null, itemName: null, action: 'skip', reason: 'cancelled' });
+        }
+        this.removeTask(task.id);
+    }
+
+    // Puts an interrupted task back in the queue as it was, without counting a failed attempt.
+    private requeueTask = (taskId: string): void => {
+        const task = this.queue.find(t => t.id === taskId);
+        if (task) {
+            task.status = 'pending';
+            task.progress = undefined;
+        }
+        this.persistQueue();
         this.notify();
     }
 
     private processNext = async (): Promise<void> => {
-        if (this.isProcessing || !this.driveService.getAuthState().isSignedIn || !this.gdriveApi) return;
-        const task = this.queue.find(t => t.status === 'pending');
-        if (!task) return;
+        if (this.isProcessing || !this.isRestored || !this.remoteStorage.isAvailable() || this.isProviderSwitchWaitingForWifi) return;
+        const now = Date.now();
+        const task = this.queue.find(t => t.status === 'pending' && (!t.nextAttemptAt || t.nextAttemptAt <= now) && !this.isWaitingForLessons(t));
+        if (!task) {
+            this.scheduleRetryWakeUp();
+            return;
+        }
 
         this.isProcessing = true;
         this.updateTaskStatus(task.id, 'in-progress');
+        const abortController = new AbortController();
+        this.taskAbortController = abortController;
         
         try {
             logger.info(`Processing task: ${task.type}`, task.payload);
+            if (!await this.ensureProviderBinding()) {
+                // The task runs once the previous backend's videos can be fetched.
+                this.requeueTask(task.id);
+                return;
+            }
             switch (task.type) {
-                case 'sync-gallery': await this.syncGallery(task.payload.type); break;
+                case 'sync-gallery': await this.syncGallery(task.payload.type, task.payload.approvedKeys); break;
                 case 'sync-grouping-config': await this.syncGroupingConfig(task.payload.type); break;
+                case 'upload-lesson':
+                case 'upload-figure':
+                case 'delete-remote':
+                case 'download-item': await this.syncItem(task.payload.type, task.payload.itemId); break;
                 default: logger.warn(`Unknown task type: ${task.type}`);
             }
             logger.info(`✅ Task completed: ${task.type}`);
+            this.remoteStorageFull = false;
             this.removeTask(task.id);
         } catch (e: any) {
-            logger.error(`❌ Task failed: ${task.type}`, e);
-            this.updateTaskStatus(task.id, 'error', e.message || 'An unknown error occurred.');
+            if (abortController.signal.aborted) {
+                await this.handleTaskAborted(task, e);
+                return;
+            }
+            if (isReauthenticationRequiredError(e)) {
+                logger.warn(`Task paused until the user signs in again: ${task.type}`);
+                this.requeueTask(task.id);
+                return;
+            }
+            const message = e.message || 'An unknown error occurred.';
+            const isStorageFull = isStorageQuotaExceededError(e);
+            if (task.payload?.type && !(e && typeof e === 'object' && this.loggedErrors.has(e))) {
+                await this.recordHistory({ type: task.payload.type, itemId: null, itemName: null, action: 'fail', reason: isStorageFull ? 'storage-full' : 'error', detail: message });
+            }
+            if (isStorageFull) {
+                // Retrying cannot help until the user frees up space, so the task fails and the next sync tries again.
+                logger.error(`❌ Task failed because the remote storage is full: ${task.type}`, e);
+                this.remoteStorageFull = true;
+                this.recordFailure(task.id, message);
+            } else if (isTransientRemoteError(e) && task.retryCount < this.retryPolicy.maxRetries) {
+                // A rate limited provider may ask for a longer wait than the backoff would give.
+                const delay = Math.max(this.getRetryDelay(task.retryCount), getRetryAfterMs(e) ?? 0);
+                logger.warn(`Task failed with a transient error: ${task.type}. Retrying in ${delay}ms.`, e);
+                this.recordFailure(task.id, message, Date.now() + delay);
+            } else {
+                logger.error(`❌ Task failed: ${task.type}`, e);
+                this.recordFailure(task.id, message);
+            }
         } finally {
+            this.taskAbortController = null;
+            this.isStopping = false;
             this.isProcessing = false;
             setTimeout(() => this.processNext(), 1000); // Small delay before next task
         }
@@ -366,4 +1201,4 @@ class SyncQueueServiceImpl implements SyncQueueService {
 }
 
 // --- Singleton Instance ---
-export const syncQueueService: SyncQueueService = new SyncQueueServiceImpl(localDatabaseService, googleDriveService, settingsService);
\ No newline at end of file
+export const syncQueueService: SyncQueueService = new SyncQueueServiceImpl(localDatabaseService, remoteStorageService, dataService, settingsService, syncConflictService, syncHistoryService, videoEvictionService, networkStatusService, new GoogleDriveSyncApiImpl(), syncPlanService, syncProviderBindingService);
\ No newline at end of file
@@ -0,0 +1,142 @@
+import type { AppSettings } from '../contexts/SettingsContext';
+import type { RemoteStorageProvider } from '../api/RemoteStorageProvider';
+import { remoteStorageService } from './RemoteStorageService';
+import { settingsService, SettingsService } from './SettingsService';
+import { syncQueueService, SyncQueueService, type SyncTaskType, type SyncItemTaskType } from './SyncQueueService';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('SyncScheduler');
+
+// --- Constants ---
+const GALLERY_TYPES = ['lesson', 'figure'] as const;
+// Edits made within this window of each other are synced together.
+const EDIT_DEBOUNCE_MS = 3000;
+// Returning to the tab or coming back online syncs at most this often.
+const MIN_EVENT_SYNC_INTERVAL_MS = 60 * 1000;
+
+// --- Types and Interface ---
+
+type SyncTrigger = 'start' | 'interval' | 'visible' | 'online';
+
+/**
+ * Decides when the galleries sync: on app start, on an interval, when the tab becomes
+ * visible again and when the device comes back online. Edits ask for a sync of their item
+ * through `requestItemSync`, or of a gallery through `requestSync`, so a burst of them is synced once.
+ * Item syncs are queued straight away, so an edit is not lost when the app closes right after it.
+ */
+export interface SyncSchedulerService {
+    start(): void;
+    stop(): void;
+    requestSync(type: 'lesson' | 'figure', taskType?: SyncTaskType): void;
+    // A figure's lesson id lets its task wait only for tasks of that lesson.
+    requestItemSync(taskType: SyncItemTaskType, type: 'lesson' | 'figure', itemId: string, lessonId?: string): void;
+}
+
+// --- Implementation ---
+class SyncSchedulerServiceImpl implements SyncSchedulerService {
+    private syncQueueSvc: SyncQueueService;
+    private remoteStorage: RemoteStorageProvider;
+    private settingsSvc: SettingsService;
+    private isStarted = false;
+    private intervalTimer: ReturnType<typeof setInterval> | null = null;
+    private intervalMinutes: number | null = null;
+    private debounceTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+    private lastScheduledSyncAt = 0;
+    private unsubscribeSettings: (() => void) | null = null;
+
+    constructor(syncQueueSvc: SyncQueueService, remoteStorage: RemoteStorageProvider, settingsSvc: SettingsService) {
+        this.syncQueueSvc = syncQueueSvc;
+        this.remoteStorage = remoteStorage;
+        this.settingsSvc = settingsSvc;
+    }
+
+    // --- Public Interface ---
+
+    public start = (): void => {
+        if (this.isStarted) return;
+        this.isStarted = true;
+        document.addEventListener('visibilitychange', this.handleVisibilityChange);
+        window.addEventListener('online', this.handleOnline);
+        this.unsubscribeSettings = this.settingsSvc.subscribe(this.applySettings);
+        this.syncAll('start');
+    }
+
+    public stop = (): void => {
+        if (!this.isStarted) return;
+        this.isStarted = false;
+        document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+        window.removeEventListener('online', this.handleOnline);
+        this.unsubscribeSettings?.();
+        this.unsubscribeSettings = null;
+        this.clearInterval();
+        this.debounceTimers.forEach(timer => clearTimeout(timer));
+        this.debounceTimers.clear();
+    }
+
+    public requestSync = (type: 'lesson' | 'figure', taskType: SyncTaskType = 'sync-gallery'): void => {
+        this.debounce(`${taskType}:${type}`, () => this.syncQueueSvc.addTask(taskType, { type }, true));
+    }
+
+    public requestItemSync = (taskType: SyncItemTaskType, type: 'lesson' | 'figure', itemId: string, lessonId?: string): void => {
+        // The persisted queue keeps one pending task per item, which covers every later edit or deletion of it.
+        this.syncQueueSvc.addTask(taskType, { type, itemId, lessonId }, true);
+    }
+
+    // --- Private Methods ---
+    private debounce = (key: string, addTask: () => void): void => {
+        const pending = this.debounceTimers.get(key);
+        if (pending) clearTimeout(pending);
+        this.debounceTimers.set(key, setTimeout(() => {
+            this.debounceTimers.delete(key);
+            if (!this.remoteStorage.isAvailable()) return;
+            addTask();
+        }, EDIT_DEBOUNCE_MS));
+    }
+
+    private applySettings = (settings: AppSettings): void => {
+        const intervalMinutes = settings.syncSchedule_enabled ? settings.syncSchedule_intervalMinutes : null;
+        if (intervalMinutes === this.intervalMinutes) return;
+        this.clearInterval();
+        this.intervalMinutes = intervalMinutes;
+        if (intervalMinutes === null) {
+            logger.info('Scheduled sync is disabled.');
+            return;
+        }
+        logger.info(`Syncing every ${intervalMinutes} minute(s).`);
+        this.intervalTimer = setInterval(() => {
+            // Hidden tabs catch up when they become visible again.
+            if (document.visibilityState === 'visible') this.syncAll('interval');
+        }, intervalMinutes * 60 * 1000);
+    }
+
+    private clearInterval = (): void => {
+        if (this.intervalTimer) clearInterval(this.intervalTimer);
+        this.intervalTimer = null;
+        this.intervalMinutes = null;
+    }
+
+    private handleVisibilityChange = (): void => {
+        if (document.visibilityState === 'visible') this.syncAll('visible');
+    }
+
+    private handleOnline = (): void => {
+        this.syncAll('online');
+    }
+
+    private syncAll = async (trigger: SyncTrigger): Promise<void> => {
+        const settings = await this.settingsSvc.getSettings();
+        if (!this.isStarted || !settings.syncSchedule_enabled || !this.remoteStorage.isAvailable()) return;
+        const now = Date.now();
+        const isEvent = trigger === 'visible' || trigger === 'online';
+        if (isEvent && now - this.lastScheduledSyncAt < MIN_EVENT_SYNC_INTERVAL_MS) return;
+        this.lastScheduledSyncAt = now;
+        logger.info(`Starting scheduled sync (${trigger}).`);
+        for (const type of GALLERY_TYPES) {
+            this.syncQueueSvc.addTask('sync-grouping-config', { type });
+            this.syncQueueSvc.addTask('sync-gallery', { type });
+        }
+    }
+}
+
+// --- Singleton Instance ---
+export const syncSchedulerService: SyncSchedulerService = new SyncSchedulerServiceImpl(syncQueueService, remoteStorageService, settingsService);
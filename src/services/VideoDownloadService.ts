@@ -0,0 +1,116 @@
+import type { LocalDatabaseService } from './LocalDatabaseService';
+import { localDatabaseService } from './LocalDatabaseService';
+import { dataService, DataService } from './DataService';
+import { remoteStorageService } from './RemoteStorageService';
+import { settingsService, SettingsService } from './SettingsService';
+import { videoEvictionService, VideoEvictionService } from './VideoEvictionService';
+import type { RemoteStorageProvider } from '../api/RemoteStorageProvider';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('VideoDownload');
+
+// --- Types and Interface ---
+
+export interface VideoDownloadState {
+  status: 'downloading' | 'error';
+  transferredBytes?: number;
+  totalBytes?: number;
+  error?: string;
+}
+
+/**
+ * Fetches the videos of "cloud only" lessons when they are first needed,
+ * and keeps pinned lessons available offline.
+ */
+export interface VideoDownloadService {
+    getState(lessonId: string): VideoDownloadState | null;
+    subscribe(listener: () => void): () => void;
+    // Resolves once the lesson's video is stored on this device.
+    ensureVideo(lessonId: string): Promise<void>;
+    setPinned(lessonId: string, isPinned: boolean): Promise<void>;
+}
+
+// --- Implementation ---
+class VideoDownloadServiceImpl implements VideoDownloadService {
+    private localDB: LocalDatabaseService;
+    private dataSvc: DataService;
+    private remoteStorage: RemoteStorageProvider;
+    private settingsSvc: SettingsService;
+    private evictionSvc: VideoEvictionService;
+    private states: Map<string, VideoDownloadState> = new Map();
+    private inFlight: Map<string, Promise<void>> = new Map();
+    private listeners: Set<() => void> = new Set();
+
+    constructor(localDB: LocalDatabaseService, dataSvc: DataService, remoteStorage: RemoteStorageProvider, settingsSvc: SettingsService, evictionSvc: VideoEvictionService) {
+        this.localDB = localDB;
+        this.dataSvc = dataSvc;
+        this.remoteStorage = remoteStorage;
+        this.settingsSvc = settingsSvc;
+        this.evictionSvc = evictionSvc;
+    }
+
+    // --- Public Interface ---
+
+    public getState = (lessonId: string): VideoDownloadState | null => this.states.get(lessonId) ?? null;
+
+    public subscribe = (listener: () => void): () => void => {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    public ensureVideo = (lessonId: string): Promise<void> => {
+        // Playing and editing may ask for the same video at once; both wait for one download.
+        const existing = this.inFlight.get(lessonId);
+        if (existing) return existing;
+        const download = this.downloadVideo(lessonId).finally(() => this.inFlight.delete(lessonId));
+        this.inFlight.set(lessonId, download);
+        return download;
+    }
+
+    public setPinned = async (lessonId: string, isPinned: boolean): Promise<void> => {
+        const { videoSync_pinnedLessonIds: pinnedIds } = await this.settingsSvc.getSettings();
+        const otherIds = pinnedIds.filter(id => id !== lessonId);
+        await this.settingsSvc.updateSettings({ videoSync_pinnedLessonIds: isPinned ? [...otherIds, lessonId] : otherIds });
+        if (isPinned) {
+            this.ensureVideo(lessonId).catch(e => logger.error(`Failed to download pinned lesson ${lessonId}.`, e));
+        }
+    }
+
+    // --- Private Methods ---
+    private notify = (): void => this.listeners.forEach(listener => listener());
+
+    private setState = (lessonId: string, state: VideoDownloadState | null): void => {
+        if (state) this.states.set(lessonId, state);
+        else this.states.delete(lessonId);
+        this.notify();
+    }
+
+    private downloadVideo = async (lessonId: string): Promise<void> => {
+        const lesson = await this.localDB.getLesson(lessonId);
+        if (!lesson) throw new Error(`Lesson with id "${lessonId}" not found.`);
+        if (await this.localDB.getVideoBlob(lesson.videoId)) return;
+        if (!lesson.videoDriveId) throw new Error(`The video of lesson ${lessonId} is not on this device or in the cloud.`);
+
+        this.setState(lessonId, { status: 'downloading' });
+        try {
+            if (!this.remoteStorage.isAvailable()) throw new Error("Remote storage is not available");
+            logger.info(`Downloading video of cloud-only lesson ${lessonId}.`);
+            const videoBlob = await this.remoteStorage.readBinaryFileById(lesson.videoDriveId, {
+                onProgress: (transferredBytes, totalBytes) => this.setState(lessonId, { status: 'downloading', transferredBytes, totalBytes }),
+            });
+            if (!videoBlob) throw new Error(`The video of lesson ${lessonId} was not found in the cloud.`);
+            await this.evictionSvc.ensureSpaceFor(videoBlob.size);
+            // Re-read the lesson so edits made during the download are not overwritten.
+            const currentLesson = await this.localDB.getLesson(lessonId);
+            if (!currentLesson) throw new Error(`Lesson with id "${lessonId}" was deleted during the download.`);
+            await this.dataSvc.saveDownloadedLesson(currentLesson, videoBlob);
+            this.setState(lessonId, null);
+        } catch (e: any) {
+            this.setState(lessonId, { status: 'error', error: e?.message });
+            throw e;
+        }
+    }
+}
+
+// --- Singleton Instance ---
+export const videoDownloadService: VideoDownloadService = new VideoDownloadServiceImpl(localDatabaseService, dataService, remoteStorageService, settingsService, videoEvictionService);
@@ -0,0 +1,125 @@
+import type { Lesson } from '../types';
+import type { LocalDatabaseService } from './LocalDatabaseService';
+import { localDatabaseService } from './LocalDatabaseService';
+import { dataService, DataService } from './DataService';
+import { settingsService, SettingsService } from './SettingsService';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('VideoEviction');
+
+// --- Constants ---
+// Free space kept in reserve so that thumbnails and metadata can still be written after a video.
+const STORAGE_HEADROOM_BYTES = 100 * 1024 * 1024;
+
+// --- Types and Interface ---
+
+export interface VideoUsage {
+  lessonId: string;
+  lastWatchedAt: number | null;
+  evictedAt: number | null; // Set while the video is only in the cloud because it was evicted
+}
+
+export interface EvictableVideo {
+  lesson: Lesson;
+  bytes: number;
+  lastWatchedAt: number | null;
+}
+
+export interface VideoEvictionService {
+    recordWatched(lessonId: string): Promise<void>;
+    // Uploaded, unpinned videos stored on this device, least recently watched first.
+    getEvictableVideos(): Promise<EvictableVideo[]>;
+    getEvictedLessonIds(): Promise<Set<string>>;
+    // Evicts every evictable video and returns the number of bytes freed.
+    freeUpSpace(): Promise<number>;
+    // Evicts videos, least recently watched first, until the given number of bytes fits in the quota.
+    ensureSpaceFor(bytes: number): Promise<void>;
+}
+
+// --- Implementation ---
+class VideoEvictionServiceImpl implements VideoEvictionService {
+    private localDB: LocalDatabaseService;
+    private dataSvc: DataService;
+    private settingsSvc: SettingsService;
+
+    constructor(localDB: LocalDatabaseService, dataSvc: DataService, settingsSvc: SettingsService) {
+        this.localDB = localDB;
+        this.dataSvc = dataSvc;
+        this.settingsSvc = settingsSvc;
+    }
+
+    // --- Public Interface ---
+
+    public recordWatched = async (lessonId: string): Promise<void> => {
+        try {
+            await this.localDB.saveVideoUsage({ lessonId, lastWatchedAt: Date.now(), evictedAt: null });
+        } catch (e) {
+            // Usage only orders evictions and must never block playback.
+            logger.error(`Failed to record that lesson ${lessonId} was watched.`, e);
+        }
+    }
+
+    public getEvictableVideos = async (): Promise<EvictableVideo[]> => {
+        const [lessons, storedVideoIds, usage, settings] = await Promise.all([
+            this.localDB.getLessons(),
+            this.localDB.getStoredVideoIds(),
+            this.localDB.getVideoUsage(),
+            this.settingsSvc.getSettings(),
+        ]);
+        const storedIds = new Set(storedVideoIds);
+        const lastWatched = new Map(usage.map(entry => [entry.lessonId, entry.lastWatchedAt]));
+        // A video shared by several lessons is kept for the others, so evicting one of them frees nothing.
+        const lessonCountByVideo = new Map<string, number>();
+        lessons.forEach(lesson => lessonCountByVideo.set(lesson.videoId, (lessonCountByVideo.get(lesson.videoId) ?? 0) + 1));
+        const candidates = lessons.filter(lesson =>
+            lesson.videoDriveId && storedIds.has(lesson.videoId) && lessonCountByVideo.get(lesson.videoId) === 1 && !settings.videoSync_pinnedLessonIds.includes(lesson.id));
+
+        const videos: EvictableVideo[] = [];
+        for (const lesson of candidates) {
+            const blob = await this.localDB.getVideoBlob(lesson.videoId);
+            videos.push({ lesson, bytes: blob?.size ?? 0, lastWatchedAt: lastWatched.get(lesson.id) ?? null });
+        }
+        // Videos that were never watched are ordered by their lesson date instead.
+        const recency = (video: EvictableVideo) => video.lastWatchedAt ?? new Date(video.lesson.uploadDate).getTime();
+        return videos.sort((a, b) => recency(a) - recency(b));
+    }
+
+    public getEvictedLessonIds = async (): Promise<Set<string>> => {
+        const usage = await this.localDB.getVideoUsage();
+        return new Set(usage.filter(entry => entry.evictedAt !== null).map(entry => entry.lessonId));
+    }
+
+    public freeUpSpace = async (): Promise<number> => {
+        const videos = await this.getEvictableVideos();
+        return this.evict(videos, Infinity);
+    }
+
+    public ensureSpaceFor = async (bytes: number): Promise<void> => {
+        const settings = await this.settingsSvc.getSettings();
+        if (!settings.videoEviction_auto || !navigator.storage?.estimate) return;
+        const { quota, usage } = await navigator.storage.estimate();
+        if (quota === undefined || usage === undefined) return;
+
+        const shortfall = bytes + STORAGE_HEADROOM_BYTES - (quota - usage);
+        if (shortfall <= 0) return;
+        logger.info(`Storage is low. Evicting local videos to free ${shortfall} bytes.`);
+        const freed = await this.evict(await this.getEvictableVideos(), shortfall);
+        if (freed < shortfall) {
+            logger.warn(`Only ${freed} of ${shortfall} bytes could be freed by evicting videos.`);
+        }
+    }
+
+    // --- Private Methods ---
+    private evict = async (videos: EvictableVideo[], targetBytes: number): Promise<number> => {
+        let freed = 0;
+        for (const video of videos) {
+            if (freed >= targetBytes) break;
+            await this.dataSvc.evictVideo(video.lesson.id);
+            freed += video.bytes;
+        }
+        return freed;
+    }
+}
+
+// --- Singleton Instance ---
+export const videoEvictionService: VideoEvictionService = new VideoEvictionServiceImpl(localDatabaseService, dataService, settingsService);
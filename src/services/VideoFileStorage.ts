@@ -0,0 +1,106 @@
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('VideoFileStorage');
+
+// --- Constants ---
+const VIDEOS_DIRECTORY = 'videos';
+
+// --- Types and Interface ---
+
+/**
+ * Stores lesson videos as files in the Origin Private File System.
+ * Files read from here are backed by disk, so playing, uploading or exporting
+ * a video streams it instead of loading the whole blob into memory.
+ */
+export interface VideoFileStorage {
+    isSupported(): boolean;
+    readFile(videoId: string): Promise<File | undefined>;
+    writeFile(videoId: string, data: Blob): Promise<void>;
+    deleteFile(videoId: string): Promise<void>;
+    // Size in bytes of every stored video, keyed by video id.
+    getFileSizes(): Promise<Map<string, number>>;
+    clear(): Promise<void>;
+}
+
+// --- Implementation ---
+class OpfsVideoFileStorage implements VideoFileStorage {
+    private directory: Promise<FileSystemDirectoryHandle> | null = null;
+
+    // --- Public Interface ---
+
+    public isSupported = (): boolean =>
+        typeof navigator !== 'undefined'
+        && !!navigator.storage?.getDirectory
+        && typeof FileSystemFileHandle !== 'undefined'
+        && 'createWritable' in FileSystemFileHandle.prototype;
+
+    public readFile = async (videoId: string): Promise<File | undefined> => {
+        const directory = await this.getDirectory();
+        try {
+            const handle = await directory.getFileHandle(videoId);
+            return await handle.getFile();
+        } catch (e) {
+            if (isNotFoundError(e)) return undefined;
+            throw e;
+        }
+    }
+
+    public writeFile = async (videoId: string, data: Blob): Promise<void> => {
+        const directory = await this.getDirectory();
+        const handle = await directory.getFileHandle(videoId, { create: true });
+        // The writable stream writes to a swap file that replaces the video only when closed,
+        // so an interrupted write never leaves a truncated video behind.
+        const writable = await handle.createWritable();
+        await data.stream().pipeTo(writable);
+    }
+
+    public deleteFile = async (videoId: string): Promise<void> => {
+        const directory = await this.getDirectory();
+        try {
+            await directory.removeEntry(videoId);
+        } catch (e) {
+            if (!isNotFoundError(e)) throw e;
+        }
+    }
+
+    public getFileSizes = async (): Promise<Map<string, number>> => {
+        const directory = await this.getDirectory();
+        const sizes = new Map<string, number>();
+        for await (const videoId of directory.keys()) {
+            const file = await (await directory.getFileHandle(videoId)).getFile();
+            sizes.set(videoId, file.size);
+        }
+        return sizes;
+    }
+
+    public clear = async (): Promise<void> => {
+        if (!this.isSupported()) return;
+        const root = await navigator.storage.getDirectory();
+        try {
+            await root.removeEntry(VIDEOS_DIRECTORY, { recursive: true });
+        } catch (e) {
+            if (!isNotFoundError(e)) throw e;
+        }
+        this.directory = null;
+        logger.info('Removed all video files.');
+    }
+
+    // --- Private Methods ---
+    private getDirectory = (): Promise<FileSystemDirectoryHandle> => {
+        if (!this.isSupported()) {
+            return Promise.reject(new Error('The Origin Private File System is not supported by this browser.'));
+        }
+        if (!this.directory) {
+            this.directory = navigator.storage.getDirectory()
+                .then(root => root.getDirectoryHandle(VIDEOS_DIRECTORY, { create: true }));
+            this.directory.catch(() => { this.directory = null; });
+        }
+        return this.directory;
+    }
+}
+
+// --- Helper Functions ---
+const isNotFoundError = (e: unknown): boolean => e instanceof DOMException && e.name === 'NotFoundError';
+
+// --- Singleton Instance ---
+export const videoFileStorage: VideoFileStorage = new OpfsVideoFileStorage();
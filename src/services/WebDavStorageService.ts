@@ -0,0 +1,218 @@
+import type { RemoteStorageProvider, RemoteFile, RemoteAvailabilityListener, TransferOptions } from '../api/RemoteStorageProvider';
+import { WebDavApiImpl, WebDavApiError, toBasicAuthorization } from '../api/WebDavApi';
+import type { WebDavApi, WebDavResource } from '../api/WebDavApi';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('WebDavStorage');
+const LOCAL_STORAGE_CONFIG_KEY = 'webdav_config';
+
+// --- Types and Interface ---
+
+export interface WebDavConfig {
+  serverUrl: string;
+  username: string;
+  password: string;
+}
+
+// What is kept on the device between visits. The password is not, only the header derived from it.
+export interface WebDavSession {
+  serverUrl: string;
+  username: string;
+  authorization: string;
+}
+
+export interface WebDavState {
+  isConnected: boolean;
+  isConnecting: boolean;
+  serverUrl: string | null;
+  username: string | null;
+  error: string | null;
+}
+
+export type WebDavStateListener = (state: WebDavState) => void;
+
+export type WebDavApiFactory = (session: WebDavSession) => WebDavApi;
+
+export interface WebDavStorageService extends RemoteStorageProvider {
+  getState(): WebDavState;
+  onStateChanged(listener: WebDavStateListener): () => void;
+  connect(config: WebDavConfig): Promise<void>;
+  disconnect(): void;
+}
+
+// --- Implementation ---
+
+class WebDavStorageServiceImpl implements WebDavStorageService {
+  public readonly name = 'webdav';
+  private apiFactory: WebDavApiFactory;
+  private api: WebDavApi | null = null;
+  private listeners: Set<WebDavStateListener> = new Set();
+  private knownFolders: Set<string> = new Set();
+  private state: WebDavState = {
+    isConnected: false,
+    isConnecting: false,
+    serverUrl: null,
+    username: null,
+    error: null,
+  };
+
+  constructor(apiFactory: WebDavApiFactory) {
+    this.apiFactory = apiFactory;
+    this.hydrateSession();
+  }
+
+  // --- Connection Management ---
+
+  public getState = (): WebDavState => this.state;
+
+  public onStateChanged = (listener: WebDavStateListener): () => void => {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => this.listeners.delete(listener);
+  };
+
+  public connect = async (config: WebDavConfig): Promise<void> => {
+    this.setState({ isConnecting: true, error: null });
+    try {
+      const session: WebDavSession = { serverUrl: config.serverUrl, username: config.username, authorization: toBasicAuthorization(config.username, config.password) };
+      const api = this.apiFactory(session);
+      // Verifies the URL and credentials; the root folder must already exist.
+      const root = await api.stat('/');
+      if (!root) throw new Error('The folder does not exist on the server.');
+
+      localStorage.setItem(LOCAL_STORAGE_CONFIG_KEY, JSON.stringify(session));
+      this.api = api;
+      this.knownFolders.clear();
+      this.setState({ isConnected: true, isConnecting: false, serverUrl: config.serverUrl, username: config.username });
+      logger.info(`Connected to WebDAV server at ${config.serverUrl}.`);
+    } catch (e: any) {
+      const message = e instanceof WebDavApiError && (e.status === 401 || e.status === 403)
+        ? 'Invalid username or password.'
+        : e.message;
+      logger.error('Failed to connect to WebDAV server.', e);
+      this.setState({ isConnecting: false, error: message });
+      throw new Error(message);
+    }
+  };
+
+  public disconnect = (): void => {
+    localStorage.removeItem(LOCAL_STORAGE_CONFIG_KEY);
+    this.api = null;
+    this.knownFolders.clear();
+    this.setState({ isConnected: false, serverUrl: null, username: null, error: null });
+    logger.info('Disconnected from WebDAV server.');
+  };
+
+  // --- RemoteStorageProvider ---
+
+  public isAvailable = (): boolean => this.state.isConnected && this.api !== null;
+
+  public onAvailabilityChanged = (listener: RemoteAvailabilityListener): () => void => {
+    let lastValue: boolean | null = null;
+    return this.onStateChanged(() => {
+      const isAvailable = this.isAvailable();
+      if (isAvailable !== lastValue) {
+        lastValue = isAvailable;
+        listener(isAvailable);
+      }
+    });
+  };
+
+  public async listFiles(folderPath: string): Promise<RemoteFile[]> {
+    const resources = await this.getApi().list(folderPath);
+    return resources.map(this.toRemoteFile);
+  }
+
+  public async getFile(filePath: string): Promise<RemoteFile | null> {
+    const resource = await this.getApi().stat(filePath);
+    return resource && !resource.isCollection ? this.toRemoteFile(resource) : null;
+  }
+
+  public async readJsonFile<T>(filePath: string): Promise<T | null> {
+    return this.getApi().downloadJson<T>(filePath);
+  }
+
+  public async readJsonFileWithMetadata<T>(filePath: string): Promise<{ content: T; metadata: RemoteFile; } | null> {
+    const metadata = await this.getFile(filePath);
+    if (!metadata) return null;
+    const content = await this.getApi().downloadJson<T>(filePath);
+    if (content === null) return null;
+    return { content, metadata };
+  }
+
+  // File ids are the file paths, so the id-based methods share the path-based implementation.
+  public readJsonFileWithMetadataById = <T>(fileId: string) => this.readJsonFileWithMetadata<T>(fileId);
+  public readJsonFileById = <T>(fileId: string) => this.readJsonFile<T>(fileId);
+  public readBinaryFileById = (fileId: string, options?: TransferOptions) => this.readBinaryFile(fileId, options);
+  public deleteFileById = (fileId: string) => this.deleteFile(fileId);
+
+  public async readBinaryFile(filePath: string, options?: TransferOptions): Promise<Blob | null> {
+    return this.getApi().downloadBlob(filePath, options);
+  }
+
+  public async writeFile(filePath: string, content: string | Blob, mimeType: string, options?: TransferOptions): Promise<RemoteFile> {
+    const api = this.getApi();
+    await this.ensureFolder(filePath.substring(0, filePath.lastIndexOf('/')));
+    const resource = await api.upload(filePath, content, mimeType, options?.signal);
+    const size = typeof content === 'string' ? content.length : content.size;
+    options?.onProgress?.(size, size);
+    return this.toRemoteFile(resource);
+  }
+
+  public async deleteFile(filePath: string): Promise<void> {
+    await this.getApi().deleteResource(filePath);
+  }
+
+  // --- Private Methods ---
+
+  private getApi(): WebDavApi {
+    if (!this.api) throw new Error("Not connected to a WebDAV server.");
+    return this.api;
+  }
+
+  private setState(updates: Partial<WebDavState>): void {
+    this.state = { ...this.state, ...updates };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+
+  private toRemoteFile = (resource: WebDavResource): RemoteFile => ({
+    id: resource.path,
+    name: resource.name,
+    modifiedTime: resource.lastModified,
+    version: resource.etag ?? undefined,
+    size: resource.size ?? undefined,
+  });
+
+  private async ensureFolder(folderPath: string): Promise<void> {
+    const segments = folderPath.split('/').filter(s => s);
+    let currentPath = '';
+    for (const segment of segments) {
+      currentPath += `/${segment}`;
+      if (this.knownFolders.has(currentPath)) continue;
+      await this.getApi().createFolder(currentPath);
+      this.knownFolders.add(currentPath);
+    }
+  }
+
+  private hydrateSession = (): void => {
+    const storedConfigJSON = localStorage.getItem(LOCAL_STORAGE_CONFIG_KEY);
+    if (!storedConfigJSON) return;
+    try {
+      const stored: WebDavSession | WebDavConfig = JSON.parse(storedConfigJSON);
+      // Earlier versions stored the password itself; it is replaced by the header derived from it.
+      const session: WebDavSession = 'password' in stored
+        ? { serverUrl: stored.serverUrl, username: stored.username, authorization: toBasicAuthorization(stored.username, stored.password) }
+        : stored;
+      if ('password' in stored) localStorage.setItem(LOCAL_STORAGE_CONFIG_KEY, JSON.stringify(session));
+      this.api = this.apiFactory(session);
+      this.setState({ isConnected: true, serverUrl: session.serverUrl, username: session.username });
+    } catch (e) {
+      logger.warn('Stored WebDAV configuration is invalid. Ignoring it.', e);
+      localStorage.removeItem(LOCAL_STORAGE_CONFIG_KEY);
+    }
+  };
+}
+
+// --- Singleton Instance ---
+const webDavApiFactory: WebDavApiFactory = (session) => new WebDavApiImpl(session.serverUrl, session.authorization);
+export const webDavStorageService: WebDavStorageService = new WebDavStorageServiceImpl(webDavApiFactory);
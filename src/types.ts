@@ -30,11 +30,26 @@ declare global {
     createWritable: (options?: FileSystemCreateWritableOptions) => Promise<FileSystemWritableFileStream>;
   }
 
+  interface FileSystemDirectoryHandle {
+    keys: () => AsyncIterableIterator<string>;
+  }
+
   interface FileSystemWritableFileStream extends WritableStream {
     // FIX: Updated method signature to match standard TypeScript library definitions.
     write: (data: FileSystemWriteChunkType) => Promise<void>;
     close: () => Promise<void>;
   }
+
+  // --- Network Information API ---
+  // Only implemented by Chromium-based browsers, so it is not part of the standard DOM library.
+  interface NetworkInformation extends EventTarget {
+    type?: 'bluetooth' | 'cellular' | 'ethernet' | 'mixed' | 'none' | 'other' | 'unknown' | 'wifi' | 'wimax';
+    saveData?: boolean;
+  }
+
+  interface Navigator {
+    connection?: NetworkInformation;
+  }
 }
 
 
@@ -9,3 +9,22 @@ export const secondsStringToMs = (s: string): number => {
     if (isNaN(parsed)) return 0;
     return Math.round(parsed * 1000);
 };
+
+export const formatBytes = (bytes: number): string => {
+    if (isNaN(bytes) || bytes <= 0) return '0 B';
+    const units = ['B', 'KB', 'MB', 'GB'];
+    const exponent = Math.min(units.length - 1, Math.floor(Math.log(bytes) / Math.log(1024)));
+    const value = bytes / 1024 ** exponent;
+    return `${value.toFixed(exponent === 0 ? 0 : 1)} ${units[exponent]}`;
+};
+
+// Formats a remaining time for display, e.g. "45s", "3m 20s" or "1h 5m".
+export const formatDuration = (ms: number): string => {
+    const totalSeconds = isNaN(ms) || ms <= 0 ? 0 : Math.ceil(ms / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    if (hours > 0) return `${hours}h ${minutes}m`;
+    if (minutes > 0) return `${minutes}m ${seconds}s`;
+    return `${seconds}s`;
+};
@@ -0,0 +1,33 @@
+/**
+ * Reads a response body into a Blob, reporting progress as chunks arrive.
+ * `totalBytes` comes from Content-Length and is 0 when the server does not send it.
+ * Aborting the signal stops the read and rejects with the signal's reason.
+ */
+export const readBlobWithProgress = async (
+    response: Response,
+    onProgress?: (transferredBytes: number, totalBytes: number) => void,
+    signal?: AbortSignal,
+): Promise<Blob> => {
+    if ((!onProgress && !signal) || !response.body) return response.blob();
+    signal?.throwIfAborted();
+    const totalBytes = Number(response.headers.get('Content-Length')) || 0;
+    const reader = response.body.getReader();
+    const cancelRead = () => { reader.cancel(signal?.reason).catch(() => {}); };
+    signal?.addEventListener('abort', cancelRead, { once: true });
+    const chunks: Uint8Array[] = [];
+    let transferredBytes = 0;
+    try {
+        onProgress?.(0, totalBytes);
+        while (true) {
+            const { done, value } = await reader.read();
+            signal?.throwIfAborted();
+            if (done) break;
+            chunks.push(value);
+            transferredBytes += value.length;
+            onProgress?.(transferredBytes, Math.max(totalBytes, transferredBytes));
+        }
+    } finally {
+        signal?.removeEventListener('abort', cancelRead);
+    }
+    return new Blob(chunks, { type: response.headers.get('Content-Type') || '' });
+};
@@ -1,4 +1,4 @@
 // This file contains the official version string for the application.
 // Please follow the versioning rules in CONTRACT.md when updating.
 
-export const APP_VERSION = '1.16.1';
+export const APP_VERSION = '1.41.0';
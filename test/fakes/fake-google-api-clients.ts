@@ -0,0 +1,55 @@
+import type { GoogleIdentityAPI, TokenCallback, UserProfile } from '../../src/api/GoogleIdentityAPI';
+import { GoogleDriveApiImpl, type DriveAccessTokenProvider, type GoogleDriveApi } from '../../src/api/GoogleDriveApi';
+import { createLogger } from '../../src/utils/logger';
+import { FAKE_GOOGLE_APIS_PATH } from './fake-google-drive-server';
+
+/**
+ * Stands in for `src/services/GoogleApiClients.ts` in E2E runs; `vite.e2e.config.ts` swaps the
+ * module, so the app signs in and syncs against the fake Google APIs server without a Google account.
+ */
+
+const logger = createLogger('FakeGoogleIdentity');
+
+class FakeGoogleIdentityApi implements GoogleIdentityAPI {
+    private readonly apiOrigin: string;
+    private callback: TokenCallback | null = null;
+
+    constructor(apiOrigin: string) {
+        this.apiOrigin = apiOrigin;
+    }
+
+    async initialize(_clientId: string, _scopes: string, callback: TokenCallback): Promise<void> {
+        this.callback = callback;
+        logger.info('Fake token client initialized.');
+    }
+
+    requestToken(): void {
+        if (!this.callback) {
+            throw new Error("Google Identity API is not initialized. Cannot request token.");
+        }
+        const callback = this.callback;
+        // The real client answers asynchronously, after its popup closes.
+        setTimeout(() => callback({ access_token: `fake-token-${Date.now()}`, expires_in: 3600 }), 0);
+    }
+
+    revokeToken(_token: string): void {
+        logger.info('Fake access token revoked.');
+    }
+
+    async getUserProfile(token: string): Promise<UserProfile> {
+        const response = await fetch(`${this.apiOrigin}/oauth2/v3/userinfo`, {
+            headers: { 'Authorization': `Bearer ${token}` }
+        });
+        if (!response.ok) {
+            throw new Error('Failed to fetch user profile');
+        }
+        const profile = await response.json();
+        return { email: profile.email, name: profile.name, imageUrl: profile.picture };
+    }
+}
+
+const fakeApiOrigin = `${window.location.origin}${FAKE_GOOGLE_APIS_PATH}`;
+
+export const googleIdentityApi: GoogleIdentityAPI = new FakeGoogleIdentityApi(fakeApiOrigin);
+
+export const createGoogleDriveApi = (tokens: DriveAccessTokenProvider): GoogleDriveApi => new GoogleDriveApiImpl(tokens, fakeApiOrigin);
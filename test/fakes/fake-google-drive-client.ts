@@ -0,0 +1,70 @@
+import { expect, type APIRequestContext, type Browser, type Page } from '@playwright/test';
+import { FAKE_GOOGLE_APIS_PATH, type FakeDriveFault, type FakeDriveFileSummary } from './fake-google-drive-server';
+import { SettingsPageSelectors } from '../selectors/settings';
+
+/**
+ * Talks to the test endpoints of the fake Google Drive served by the E2E dev server.
+ * Every browser context of a run shares that Drive, so tests reset it before they start.
+ */
+export class FakeGoogleDriveClient {
+  private readonly request: APIRequestContext;
+  private readonly baseURL: string;
+
+  constructor(request: APIRequestContext, baseURL: string) {
+    this.request = request;
+    this.baseURL = baseURL;
+  }
+
+  /**
+   * Empties the fake Drive.
+   */
+  async reset(): Promise<void> {
+    const response = await this.request.post(this.url('/reset'));
+    expect(response.ok()).toBeTruthy();
+  }
+
+  /**
+   * Reports how the app used the API so far, e.g. how many batch requests it sent
+   * and how many of its requests failed because of injected faults.
+   */
+  async getStats(): Promise<{ batchRequestCount: number; injectedFailureCount: number }> {
+    return (await this.request.get(this.url('/stats'))).json();
+  }
+
+  /**
+   * Makes the next matching requests fail until the fault's count is used up.
+   * @param fault The requests to fail and the error to answer them with.
+   */
+  async injectFault(fault: FakeDriveFault): Promise<void> {
+    const response = await this.request.post(this.url('/faults'), { data: fault });
+    expect(response.ok()).toBeTruthy();
+  }
+
+  /**
+   * Lists the files in one folder of the fake Drive, with JSON files parsed.
+   * @param folder The folder name, e.g. "lessons" or "videos".
+   */
+  async listFiles(folder: string): Promise<FakeDriveFileSummary[]> {
+    const { files } = await (await this.request.get(this.url('/files'))).json() as { files: FakeDriveFileSummary[] };
+    return files.filter(file => file.folder === folder);
+  }
+
+  private url(path: string): string {
+    return new URL(`${FAKE_GOOGLE_APIS_PATH}${path}`, this.baseURL).toString();
+  }
+}
+
+/**
+ * Opens the app in a fresh browser context, which has its own local database, and signs in to
+ * the fake Google Drive served by the dev server. Each context plays the part of one device.
+ * @param browser The browser to open the context in.
+ */
+export const openSignedInDevice = async (browser: Browser): Promise<Page> => {
+  const context = await browser.newContext();
+  const page = await context.newPage();
+  const settings = new SettingsPageSelectors(page);
+  await page.goto('/#settings');
+  await settings.googleDriveSection.signInButton.click();
+  await expect(settings.googleDriveSection.signOutButton).toBeVisible();
+  return page;
+};
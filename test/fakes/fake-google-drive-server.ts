@@ -0,0 +1,491 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin } from 'vite';
+
+/**
+ * An in-memory stand-in for the subset of the Drive v3 REST API used by `GoogleDriveApiImpl`.
+ *
+ * It is mounted on the dev server started with `vite.e2e.config.ts`, so every browser context
+ * of a test run talks to the same "account". This makes two-device sync scenarios possible
+ * without network access. State lives only as long as the dev server; tests should call
+ * `POST {FAKE_GOOGLE_APIS_PATH}/reset` before they start. `GET {FAKE_GOOGLE_APIS_PATH}/stats`
+ * reports how the app used the API, e.g. whether it batched its requests, and
+ * `GET {FAKE_GOOGLE_APIS_PATH}/files` what the "account" holds. `POST {FAKE_GOOGLE_APIS_PATH}/faults`
+ * makes the next matching requests fail, so tests can exercise retries.
+ */
+
+// Path on the dev server where the fake Google APIs are mounted.
+export const FAKE_GOOGLE_APIS_PATH = '/__fake-google-apis';
+
+// --- Types ---
+
+interface FakeDriveFile {
+  id: string;
+  name: string;
+  mimeType: string;
+  parents: string[];
+  modifiedTime: string;
+  trashed: boolean;
+  content: Buffer;
+}
+
+interface FakeUploadSession {
+  fileId: string | null; // Set when the session replaces the content of an existing file
+  metadata: { name: string; mimeType?: string; parents?: string[] };
+  totalBytes: number;
+  received: Buffer;
+}
+
+interface FakeBatchPart {
+  contentId: string;
+  method: string;
+  target: string; // The request path and query
+}
+
+interface FakeDriveChange {
+  fileId: string;
+  removed: boolean;
+}
+
+// A file as tests see it: its folder by name, and the parsed content of JSON files.
+export interface FakeDriveFileSummary {
+  id: string;
+  name: string;
+  folder: string;
+  modifiedTime: string;
+  json?: any;
+}
+
+// Makes the next `count` requests that match `method` and start with `path` fail with `status`.
+export interface FakeDriveFault {
+  method: string;
+  path: string; // e.g. "/upload/drive/v3/files"
+  inBatch: boolean; // Whether the fault hits parts of batch requests rather than plain requests
+  status: number;
+  reason?: string; // Drive's error reason, e.g. "rateLimitExceeded"
+  count: number;
+}
+
+type QueryPredicate = (file: FakeDriveFile) => boolean;
+
+export const FAKE_USER_PROFILE = {
+  email: 'e2e.user@example.com',
+  name: 'E2E User',
+  picture: '',
+};
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+// --- In-Memory Drive ---
+
+export class FakeGoogleDrive {
+  private files = new Map<string, FakeDriveFile>();
+  private changes: FakeDriveChange[] = [];
+  private uploadSessions = new Map<string, FakeUploadSession>();
+  private faults: FakeDriveFault[] = [];
+  private nextId = 1;
+  private lastModified = 0;
+  batchRequestCount = 0;
+  injectedFailureCount = 0;
+
+  reset(): void {
+    this.files.clear();
+    this.changes = [];
+    this.uploadSessions.clear();
+    this.faults = [];
+    this.nextId = 1;
+    this.lastModified = 0;
+    this.batchRequestCount = 0;
+    this.injectedFailureCount = 0;
+  }
+
+  addFault(fault: FakeDriveFault): void {
+    this.faults.push({ ...fault });
+  }
+
+  // Returns the fault a request should fail with, if any, and uses up one of its failures.
+  takeFault(method: string, path: string, inBatch: boolean): FakeDriveFault | null {
+    const fault = this.faults.find(f => f.method === method && path.startsWith(f.path) && f.inBatch === inBatch);
+    if (!fault) return null;
+    if (--fault.count === 0) this.faults = this.faults.filter(f => f !== fault);
+    this.injectedFailureCount++;
+    return fault;
+  }
+
+  list(query: string): FakeDriveFile[] {
+    const predicates = parseQuery(query);
+    return [...this.files.values()].filter(file => predicates.every(matches => matches(file)));
+  }
+
+  get(fileId: string): FakeDriveFile | null {
+    return this.files.get(fileId) ?? null;
+  }
+
+  summarize(): FakeDriveFileSummary[] {
+    return [...this.files.values()]
+      .filter(file => file.mimeType !== FOLDER_MIME_TYPE)
+      .map(file => ({
+        id: file.id,
+        name: file.name,
+        folder: this.files.get(file.parents[0])?.name ?? file.parents[0],
+        modifiedTime: file.modifiedTime,
+        json: file.name.endsWith('.json') ? JSON.parse(file.content.toString('utf8')) : undefined,
+      }));
+  }
+
+  create(metadata: { name: string; mimeType?: string; parents?: string[] }, content: Buffer): FakeDriveFile {
+    const file: FakeDriveFile = {
+      id: `fake-${this.nextId++}`,
+      name: metadata.name,
+      mimeType: metadata.mimeType || 'application/octet-stream',
+      parents: metadata.parents?.length ? metadata.parents : ['appDataFolder'],
+      modifiedTime: this.nextModifiedTime(),
+      trashed: false,
+      content,
+    };
+    this.files.set(file.id, file);
+    this.changes.push({ fileId: file.id, removed: false });
+    return file;
+  }
+
+  update(fileId: string, metadata: { name?: string; mimeType?: string }, content: Buffer): FakeDriveFile | null {
+    const file = this.files.get(fileId);
+    if (!file) return null;
+    file.name = metadata.name || file.name;
+    file.mimeType = metadata.mimeType || file.mimeType;
+    file.content = content;
+    file.modifiedTime = this.nextModifiedTime();
+    this.changes.push({ fileId, removed: false });
+    return file;
+  }
+
+  delete(fileId: string): boolean {
+    if (!this.files.delete(fileId)) return false;
+    this.changes.push({ fileId, removed: true });
+    return true;
+  }
+
+  startUploadSession(session: Omit<FakeUploadSession, 'received'>): string {
+    const uploadId = `upload-${this.nextId++}`;
+    this.uploadSessions.set(uploadId, { ...session, received: Buffer.alloc(0) });
+    return uploadId;
+  }
+
+  getUploadSession(uploadId: string): FakeUploadSession | null {
+    return this.uploadSessions.get(uploadId) ?? null;
+  }
+
+  // Appends a chunk and, once every byte has arrived, stores the file and ends the session.
+  appendToUploadSession(uploadId: string, offset: number, chunk: Buffer): FakeDriveFile | null {
+    const session = this.uploadSessions.get(uploadId);
+    if (!session) throw new Error(`Unknown upload session: ${uploadId}`);
+    // Like Drive, bytes the server already has are acknowledged again rather than stored twice.
+    if (offset === session.received.length) {
+      session.received = Buffer.concat([session.received, chunk]);
+    }
+    if (session.received.length < session.totalBytes) return null;
+    this.uploadSessions.delete(uploadId);
+    return session.fileId
+      ? this.update(session.fileId, session.metadata, session.received)
+      : this.create(session.metadata, session.received);
+  }
+
+  get startPageToken(): string {
+    return String(this.changes.length);
+  }
+
+  changesSince(pageToken: string): FakeDriveChange[] {
+    return this.changes.slice(Number(pageToken) || 0);
+  }
+
+  // Two writes in the same millisecond would look like "no change" to the sync planner.
+  private nextModifiedTime(): string {
+    this.lastModified = Math.max(Date.now(), this.lastModified + 1);
+    return new Date(this.lastModified).toISOString();
+  }
+}
+
+// Supports the clauses the app sends: name='x', mimeType='x', 'id' in parents, trashed=false, joined with "and".
+const parseQuery = (query: string): QueryPredicate[] => {
+  if (!query.trim()) return [];
+  return query.split(/\s+and\s+/i).map((clause): QueryPredicate => {
+    const trimmed = clause.trim();
+    let match = trimmed.match(/^name\s*=\s*'(.*)'$/);
+    if (match) return file => file.name === unescapeQueryValue(match![1]);
+    match = trimmed.match(/^mimeType\s*=\s*'(.*)'$/);
+    if (match) return file => file.mimeType === unescapeQueryValue(match![1]);
+    match = trimmed.match(/^'(.*)'\s+in\s+parents$/);
+    if (match) return file => file.parents.includes(unescapeQueryValue(match![1]));
+    match = trimmed.match(/^trashed\s*=\s*(true|false)$/);
+    if (match) return file => file.trashed === (match![1] === 'true');
+    throw new Error(`Unsupported query clause: ${trimmed}`);
+  });
+};
+
+const unescapeQueryValue = (value: string): string => value.replace(/\\'/g, "'");
+
+// --- HTTP Handling ---
+
+const toDriveFile = (file: FakeDriveFile) => ({
+  id: file.id,
+  name: file.name,
+  mimeType: file.mimeType,
+  modifiedTime: file.modifiedTime,
+  parents: file.parents,
+  trashed: file.trashed,
+  size: String(file.content.length),
+});
+
+const readBody = (req: IncomingMessage): Promise<Buffer> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  req.on('data', chunk => chunks.push(chunk));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown): void => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, message: string): void => {
+  sendJson(res, status, { error: { code: status, message } });
+};
+
+const toFaultBody = (fault: FakeDriveFault) => ({
+  error: { code: fault.status, message: 'Injected by the test.', errors: fault.reason ? [{ reason: fault.reason }] : [] },
+});
+
+/**
+ * Splits a multipart/related body into its metadata and media parts.
+ * The media part is kept as raw bytes so video uploads survive the round trip.
+ */
+const parseMultipart = (body: Buffer, contentType: string): { metadata: any; content: Buffer } => {
+  const boundary = contentType.match(/boundary="?([^";]+)"?/)?.[1];
+  if (!boundary) throw new Error('Missing multipart boundary.');
+  const delimiter = Buffer.from(`--${boundary}`);
+  const parts: Buffer[] = [];
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const next = body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+    parts.push(body.subarray(start + delimiter.length, next));
+    start = next;
+  }
+  const [metadataPart, mediaPart] = parts.map(part => {
+    const headerEnd = part.indexOf('\r\n\r\n');
+    // Each part ends with the CRLF that precedes the next delimiter.
+    return part.subarray(headerEnd + 4, part.length - 2);
+  });
+  if (!metadataPart || !mediaPart) throw new Error('Expected a metadata part and a media part.');
+  return { metadata: JSON.parse(metadataPart.toString('utf8')), content: mediaPart };
+};
+
+const isAuthorized = (req: IncomingMessage): boolean =>
+  typeof req.headers.authorization === 'string' && req.headers.authorization.startsWith('Bearer ');
+
+export const handleFakeGoogleApiRequest = async (drive: FakeGoogleDrive, req: IncomingMessage, res: ServerResponse): Promise<void> => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  const path = url.pathname.slice(FAKE_GOOGLE_APIS_PATH.length);
+  const method = req.method || 'GET';
+
+  if (path === '/reset' && method === 'POST') {
+    drive.reset();
+    res.statusCode = 204;
+    res.end();
+    return;
+  }
+
+  if (path === '/stats' && method === 'GET') {
+    sendJson(res, 200, { batchRequestCount: drive.batchRequestCount, injectedFailureCount: drive.injectedFailureCount });
+    return;
+  }
+
+  if (path === '/faults' && method === 'POST') {
+    drive.addFault(JSON.parse((await readBody(req)).toString('utf8')));
+    res.statusCode = 204;
+    res.end();
+    return;
+  }
+
+  if (path === '/files' && method === 'GET') {
+    sendJson(res, 200, { files: drive.summarize() });
+    return;
+  }
+
+  if (!isAuthorized(req)) {
+    sendError(res, 401, 'Request is missing a bearer token.');
+    return;
+  }
+
+  const fault = drive.takeFault(method, path, false);
+  if (fault) return sendJson(res, fault.status, toFaultBody(fault));
+
+  if (path === '/oauth2/v3/userinfo' && method === 'GET') {
+    sendJson(res, 200, FAKE_USER_PROFILE);
+    return;
+  }
+
+  if (path === '/drive/v3/files' && method === 'GET') {
+    sendJson(res, 200, { files: drive.list(url.searchParams.get('q') || '').map(toDriveFile) });
+    return;
+  }
+
+  if (path === '/drive/v3/files' && method === 'POST') {
+    const metadata = JSON.parse((await readBody(req)).toString('utf8') || '{}');
+    sendJson(res, 200, toDriveFile(drive.create(metadata, Buffer.alloc(0))));
+    return;
+  }
+
+  if (path === '/batch/drive/v3' && method === 'POST') {
+    const contentType = req.headers['content-type'] || '';
+    const boundary = contentType.match(/boundary="?([^";]+)"?/)?.[1];
+    if (!boundary) return sendError(res, 400, 'Missing multipart boundary.');
+    drive.batchRequestCount++;
+    const responseBoundary = `batch_response_${drive.startPageToken}_${Date.now()}`;
+    const responseParts = parseBatchRequest((await readBody(req)).toString('utf8'), boundary).map(part => {
+      const { status, body } = handleBatchPart(drive, part);
+      const lines = [`--${responseBoundary}`, 'Content-Type: application/http', `Content-ID: <response-${part.contentId}>`, '', `HTTP/1.1 ${status}`];
+      if (body !== undefined) lines.push('Content-Type: application/json; charset=UTF-8', '', JSON.stringify(body));
+      return lines.join('\r\n') + '\r\n';
+    });
+    res.statusCode = 200;
+    res.setHeader('Content-Type', `multipart/mixed; boundary=${responseBoundary}`);
+    res.end(`${responseParts.join('\r\n')}\r\n--${responseBoundary}--`);
+    return;
+  }
+
+  if (path === '/drive/v3/changes/startPageToken' && method === 'GET') {
+    sendJson(res, 200, { startPageToken: drive.startPageToken });
+    return;
+  }
+
+  if (path === '/drive/v3/changes' && method === 'GET') {
+    const changes = drive.changesSince(url.searchParams.get('pageToken') || '0').map(change => {
+      const file = drive.get(change.fileId);
+      return { fileId: change.fileId, removed: change.removed || !file, file: file ? toDriveFile(file) : undefined };
+    });
+    sendJson(res, 200, { changes, newStartPageToken: drive.startPageToken });
+    return;
+  }
+
+  const fileMatch = path.match(/^\/drive\/v3\/files\/([^/]+)$/);
+  if (fileMatch) {
+    const fileId = decodeURIComponent(fileMatch[1]);
+    const file = drive.get(fileId);
+    if (method === 'DELETE') {
+      if (!drive.delete(fileId)) return sendError(res, 404, `File not found: ${fileId}`);
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+    if (method === 'GET') {
+      if (!file) return sendError(res, 404, `File not found: ${fileId}`);
+      if (url.searchParams.get('alt') === 'media') {
+        res.statusCode = 200;
+        res.setHeader('Content-Type', file.mimeType);
+        res.end(file.content);
+        return;
+      }
+      sendJson(res, 200, toDriveFile(file));
+      return;
+    }
+  }
+
+  const uploadMatch = path.match(/^\/upload\/drive\/v3\/files(?:\/([^/]+))?$/);
+  if (uploadMatch && url.searchParams.get('uploadType') === 'resumable') {
+    return handleResumableUpload(drive, req, res, url, uploadMatch[1] ? decodeURIComponent(uploadMatch[1]) : null);
+  }
+  if (uploadMatch && (method === 'POST' || method === 'PATCH')) {
+    const { metadata, content } = parseMultipart(await readBody(req), req.headers['content-type'] || '');
+    if (method === 'POST') {
+      sendJson(res, 200, toDriveFile(drive.create(metadata, content)));
+      return;
+    }
+    const fileId = decodeURIComponent(uploadMatch[1] || '');
+    const updated = drive.update(fileId, metadata, content);
+    if (!updated) return sendError(res, 404, `File not found: ${fileId}`);
+    sendJson(res, 200, toDriveFile(updated));
+    return;
+  }
+
+  sendError(res, 501, `The fake Google APIs server does not implement ${method} ${path}.`);
+};
+
+// Each part of a batch holds one HTTP request: part headers, a blank line, then the request line and its own headers.
+const parseBatchRequest = (body: string, boundary: string): FakeBatchPart[] =>
+  body.split(`--${boundary}`).flatMap(part => {
+    const contentId = part.match(/Content-ID:\s*<?([^>\r\n]+)>?/i)?.[1];
+    const requestLine = part.match(/^(GET|POST|PATCH|DELETE) (\S+)/m);
+    return contentId && requestLine ? [{ contentId, method: requestLine[1], target: requestLine[2] }] : [];
+  });
+
+// Drive batches only metadata requests, so the parts never carry media.
+const handleBatchPart = (drive: FakeGoogleDrive, part: FakeBatchPart): { status: number; body?: unknown } => {
+  const url = new URL(part.target, 'http://localhost');
+  const path = url.pathname.startsWith(FAKE_GOOGLE_APIS_PATH) ? url.pathname.slice(FAKE_GOOGLE_APIS_PATH.length) : url.pathname;
+  const fault = drive.takeFault(part.method, path, true);
+  if (fault) return { status: fault.status, body: toFaultBody(fault) };
+  if (path === '/drive/v3/files' && part.method === 'GET') {
+    return { status: 200, body: { files: drive.list(url.searchParams.get('q') || '').map(toDriveFile) } };
+  }
+  const fileMatch = path.match(/^\/drive\/v3\/files\/([^/]+)$/);
+  if (fileMatch) {
+    const fileId = decodeURIComponent(fileMatch[1]);
+    const notFound = { status: 404, body: { error: { code: 404, message: `File not found: ${fileId}` } } };
+    if (part.method === 'DELETE') return drive.delete(fileId) ? { status: 204 } : notFound;
+    if (part.method === 'GET') {
+      const file = drive.get(fileId);
+      return file ? { status: 200, body: toDriveFile(file) } : notFound;
+    }
+  }
+  return { status: 501, body: { error: { code: 501, message: `The fake Google APIs server does not batch ${part.method} ${path}.` } } };
+};
+
+// Implements Drive's resumable upload protocol: a POST or PATCH starts a session, then PUTs send byte ranges.
+const handleResumableUpload = async (drive: FakeGoogleDrive, req: IncomingMessage, res: ServerResponse, url: URL, fileId: string | null): Promise<void> => {
+  const method = req.method || 'GET';
+  if (method === 'POST' || method === 'PATCH') {
+    if (fileId && !drive.get(fileId)) return sendError(res, 404, `File not found: ${fileId}`);
+    const metadata = JSON.parse((await readBody(req)).toString('utf8') || '{}');
+    const totalBytes = Number(req.headers['x-upload-content-length']);
+    const uploadId = drive.startUploadSession({ fileId, metadata, totalBytes });
+    res.statusCode = 200;
+    res.setHeader('Location', `${FAKE_GOOGLE_APIS_PATH}/upload/drive/v3/files?uploadType=resumable&upload_id=${uploadId}`);
+    res.end();
+    return;
+  }
+
+  const uploadId = url.searchParams.get('upload_id') || '';
+  const session = drive.getUploadSession(uploadId);
+  if (method !== 'PUT' || !session) return sendError(res, 404, `Upload session not found: ${uploadId}`);
+
+  const contentRange = String(req.headers['content-range'] || '');
+  const rangeMatch = contentRange.match(/^bytes (\d+)-(\d+)\/(\d+)$/);
+  const body = await readBody(req);
+  const file = rangeMatch ? drive.appendToUploadSession(uploadId, Number(rangeMatch[1]), body) : null;
+  if (file) return sendJson(res, 200, toDriveFile(file));
+
+  // Status queries ("bytes */total") and partial chunks both report how much has arrived.
+  const receivedBytes = drive.getUploadSession(uploadId)?.received.length ?? 0;
+  res.statusCode = 308;
+  if (receivedBytes > 0) res.setHeader('Range', `bytes=0-${receivedBytes - 1}`);
+  res.end();
+};
+
+// --- Vite Plugin ---
+
+export const fakeGoogleDriveServer = (): Plugin => {
+  const drive = new FakeGoogleDrive();
+  return {
+    name: 'fake-google-drive-server',
+    apply: 'serve',
+    configureServer(server) {
+      server.middlewares.use(FAKE_GOOGLE_APIS_PATH, (req, res) => {
+        // Connect strips the mount path; restore it so the handler sees the full URL.
+        req.url = FAKE_GOOGLE_APIS_PATH + (req.url || '');
+        handleFakeGoogleApiRequest(drive, req, res).catch((e: Error) => sendError(res, 400, e.message));
+      });
+    },
+  };
+};
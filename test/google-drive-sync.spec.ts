@@ -0,0 +1,204 @@
+import { test, expect } from '@playwright/test';
+import { FakeGoogleDriveClient, openSignedInDevice } from './fakes/fake-google-drive-client';
+import { LessonsPageSelectors } from './selectors/lessons';
+import { SyncScreensSelectors } from './selectors/sync';
+
+test.describe('Google Drive Sync', () => {
+  let fakeDrive: FakeGoogleDriveClient;
+
+  test.beforeEach(async ({ request, baseURL }) => {
+    fakeDrive = new FakeGoogleDriveClient(request, baseURL!);
+    await fakeDrive.reset();
+  });
+
+  test('should sync a new lesson and an edit to it between two devices', async ({ browser }) => {
+    const deviceA = await openSignedInDevice(browser);
+    const deviceB = await openSignedInDevice(browser);
+    const lessonsA = new LessonsPageSelectors(deviceA);
+    const lessonsB = new LessonsPageSelectors(deviceB);
+
+    await deviceA.goto('/#lessons');
+    await lessonsA.options.addNewButton.click();
+    await lessonsA.addLessonModal.dateInput.fill('2025-09-08');
+    await lessonsA.addLessonModal.fileInput.setInputFiles('video/clip.mp4');
+    await lessonsA.addLessonModal.saveButton.click();
+    await expect(lessonsA.getAllCards().first().getByText('September 8, 2025')).toBeVisible();
+
+    // Device B only learns about remote changes when it syncs, which it does on start.
+    await deviceB.goto('/#lessons');
+    await expect(async () => {
+      await deviceB.reload();
+      await expect(lessonsB.getAllCards().first().getByText('September 8, 2025')).toBeVisible({ timeout: 5000 });
+    }).toPass({ timeout: 60000 });
+
+    const cardA = lessonsA.getAllCards().first();
+    await cardA.click({ button: 'right' });
+    await lessonsA.contextMenu.getItem('Edit').click();
+    await expect(lessonsA.editLessonModal.modal).toBeVisible();
+    await lessonsA.editLessonModal.dateInput.fill('2025-09-15');
+    await lessonsA.editLessonModal.saveButton.click();
+    await expect(lessonsA.editLessonModal.modal).not.toBeVisible();
+    await expect(cardA.getByText('September 15, 2025')).toBeVisible();
+
+    await expect(async () => {
+      await deviceB.reload();
+      await expect(lessonsB.getAllCards().first().getByText('September 15, 2025')).toBeVisible({ timeout: 5000 });
+    }).toPass({ timeout: 60000 });
+    await expect(lessonsB.getAllCards()).toHaveCount(1);
+
+    // Uploading the edit looks up the lesson's remote files in one batch rather than one request per file.
+    const stats = await fakeDrive.getStats();
+    expect(stats.batchRequestCount).toBeGreaterThan(0);
+
+    await deviceA.context().close();
+    await deviceB.context().close();
+  });
+
+  test('should delete a lesson from the remote storage and the other device', async ({ browser }) => {
+    test.setTimeout(180000);
+    const deviceA = await openSignedInDevice(browser);
+    const deviceB = await openSignedInDevice(browser);
+    const lessonsA = new LessonsPageSelectors(deviceA);
+    const lessonsB = new LessonsPageSelectors(deviceB);
+
+    await deviceA.goto('/#lessons');
+    await lessonsA.options.addNewButton.click();
+    await lessonsA.addLessonModal.dateInput.fill('2025-09-08');
+    await lessonsA.addLessonModal.fileInput.setInputFiles('video/clip.mp4');
+    await lessonsA.addLessonModal.saveButton.click();
+    await expect(lessonsA.getAllCards()).toHaveCount(1);
+
+    await deviceB.goto('/#lessons');
+    await expect(async () => {
+      await deviceB.reload();
+      await expect(lessonsB.getAllCards().first().getByText('September 8, 2025')).toBeVisible({ timeout: 5000 });
+    }).toPass({ timeout: 60000 });
+
+    await lessonsA.getAllCards().first().click({ button: 'right' });
+    await lessonsA.contextMenu.getItem('Remove').click();
+    await lessonsA.confirmDeleteModal.confirmButton.click();
+    await expect(lessonsA.getAllCards()).toHaveCount(0);
+
+    // The tombstone makes device A delete the lesson's video and thumbnail as well as its JSON file.
+    await expect.poll(async () => (await Promise.all(['lessons', 'videos', 'thumbnails'].map(folder => fakeDrive.listFiles(folder)))).flat(), { timeout: 60000 })
+      .toHaveLength(0);
+
+    // Device B had synced the lesson before, so its absence remotely means another device deleted it,
+    // and device B removes its own copy instead of uploading it again.
+    await expect(async () => {
+      await deviceB.reload();
+      await expect(lessonsB.getAllCards()).toHaveCount(0, { timeout: 5000 });
+    }).toPass({ timeout: 60000 });
+    expect(await fakeDrive.listFiles('lessons')).toHaveLength(0);
+
+    const syncB = new SyncScreensSelectors(deviceB);
+    await deviceB.goto('/#settings/sync-history');
+    await expect(syncB.historyScreen.entries.filter({ hasText: 'Deleted on another device' })).toHaveCount(1);
+
+    await deviceA.context().close();
+    await deviceB.context().close();
+  });
+
+  test('should preview a deletion from another device before applying it', async ({ browser }) => {
+    test.setTimeout(180000);
+    const deviceA = await openSignedInDevice(browser);
+    const deviceB = await openSignedInDevice(browser);
+    const lessonsA = new LessonsPageSelectors(deviceA);
+    const lessonsB = new LessonsPageSelectors(deviceB);
+    const syncB = new SyncScreensSelectors(deviceB);
+
+    await deviceA.goto('/#lessons');
+    await lessonsA.options.addNewButton.click();
+    await lessonsA.addLessonModal.dateInput.fill('2025-09-08');
+    await lessonsA.addLessonModal.fileInput.setInputFiles('video/clip.mp4');
+    await lessonsA.addLessonModal.saveButton.click();
+    await expect(lessonsA.getAllCards()).toHaveCount(1);
+
+    await deviceB.goto('/#lessons');
+    await expect(async () => {
+      await deviceB.reload();
+      await expect(lessonsB.getAllCards().first().getByText('September 8, 2025')).toBeVisible({ timeout: 5000 });
+    }).toPass({ timeout: 60000 });
+
+    await lessonsA.getAllCards().first().click({ button: 'right' });
+    await lessonsA.contextMenu.getItem('Remove').click();
+    await lessonsA.confirmDeleteModal.confirmButton.click();
+    await expect.poll(async () => (await fakeDrive.listFiles('lessons')).length, { timeout: 60000 }).toBe(0);
+
+    // Changing the hash does not reload the page, so device B has not synced the deletion by itself.
+    await deviceB.goto('/#settings/sync-preview');
+    await expect(syncB.getPreviewItems('delete-local')).toHaveCount(1, { timeout: 30000 });
+    await expect(syncB.previewScreen.items).toHaveCount(1);
+
+    await syncB.previewScreen.syncButton.click();
+    await deviceB.goto('/#lessons');
+    await expect(lessonsB.getAllCards()).toHaveCount(0, { timeout: 60000 });
+
+    await deviceA.context().close();
+    await deviceB.context().close();
+  });
+
+  test('should retry an upload after Drive keeps failing with a server error', async ({ browser }) => {
+    test.setTimeout(180000);
+    const device = await openSignedInDevice(browser);
+    const lessons = new LessonsPageSelectors(device);
+    // The first sync uploads the grouping configs, which must not use up the injected failures.
+    await expect.poll(async () => (await fakeDrive.listFiles('appDataFolder')).length, { timeout: 60000 }).toBe(2);
+    // One more failure than the API client retries inline, so the sync queue has to retry the task itself.
+    await fakeDrive.injectFault({ method: 'POST', path: '/upload/drive/v3/files', inBatch: false, status: 503, count: 5 });
+
+    await device.goto('/#lessons');
+    await lessons.options.addNewButton.click();
+    await lessons.addLessonModal.dateInput.fill('2025-09-08');
+    await lessons.addLessonModal.fileInput.setInputFiles('video/clip.mp4');
+    await lessons.addLessonModal.saveButton.click();
+    await expect(lessons.getAllCards()).toHaveCount(1);
+
+    await expect.poll(async () => (await fakeDrive.listFiles('lessons')).length, { timeout: 120000 }).toBe(1);
+    expect(await fakeDrive.listFiles('videos')).toHaveLength(1);
+    expect((await fakeDrive.getStats()).injectedFailureCount).toBe(5);
+
+    const sync = new SyncScreensSelectors(device);
+    await device.goto('/#settings/sync-history');
+    await expect(sync.historyScreen.entries.filter({ hasText: 'An error occurred' })).toHaveCount(1);
+    await expect(sync.historyScreen.entries.filter({ hasText: 'Changed on this device' })).toHaveCount(1);
+
+    await device.context().close();
+  });
+
+  test('should resend the parts of a batch that Drive rate limited', async ({ browser }) => {
+    test.setTimeout(180000);
+    const device = await openSignedInDevice(browser);
+    const lessons = new LessonsPageSelectors(device);
+
+    await device.goto('/#lessons');
+    await lessons.options.addNewButton.click();
+    await lessons.addLessonModal.dateInput.fill('2025-09-08');
+    await lessons.addLessonModal.fileInput.setInputFiles('video/clip.mp4');
+    await lessons.addLessonModal.saveButton.click();
+    await expect(lessons.getAllCards()).toHaveCount(1);
+    await expect.poll(async () => (await fakeDrive.listFiles('lessons')).length, { timeout: 60000 }).toBe(1);
+
+    // Deleting the lesson removes its video and thumbnail in batches; the first attempt of each part is refused.
+    await fakeDrive.injectFault({ method: 'DELETE', path: '/drive/v3/files/', inBatch: true, status: 403, reason: 'rateLimitExceeded', count: 2 });
+    const batchCountBefore = (await fakeDrive.getStats()).batchRequestCount;
+    await lessons.getAllCards().first().click({ button: 'right' });
+    await lessons.contextMenu.getItem('Remove').click();
+    await lessons.confirmDeleteModal.confirmButton.click();
+    await expect(lessons.getAllCards()).toHaveCount(0);
+
+    await expect.poll(async () => (await Promise.all(['lessons', 'videos', 'thumbnails'].map(folder => fakeDrive.listFiles(folder)))).flat(), { timeout: 60000 })
+      .toHaveLength(0);
+    const stats = await fakeDrive.getStats();
+    expect(stats.injectedFailureCount).toBe(2);
+    expect(stats.batchRequestCount - batchCountBefore).toBeGreaterThanOrEqual(3);
+
+    // The resent parts succeeded, so the task never failed.
+    const sync = new SyncScreensSelectors(device);
+    await device.goto('/#settings/sync-history');
+    await expect(sync.historyScreen.entries.filter({ hasText: 'Deleted remotely' })).toHaveCount(1);
+    await expect(sync.historyScreen.entries.filter({ hasText: 'Failed' })).toHaveCount(0);
+
+    await device.context().close();
+  });
+});
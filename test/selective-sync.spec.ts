@@ -0,0 +1,60 @@
+import { test, expect } from '@playwright/test';
+import { FakeGoogleDriveClient, openSignedInDevice } from './fakes/fake-google-drive-client';
+import { LessonsPageSelectors } from './selectors/lessons';
+import { SettingsPageSelectors } from './selectors/settings';
+import { SyncScreensSelectors } from './selectors/sync';
+
+test.describe('Selective Video Sync', () => {
+  let fakeDrive: FakeGoogleDriveClient;
+
+  test.beforeEach(async ({ request, baseURL }) => {
+    fakeDrive = new FakeGoogleDriveClient(request, baseURL!);
+    await fakeDrive.reset();
+  });
+
+  test('should leave videos in the cloud until the rules include them', async ({ browser }) => {
+    test.setTimeout(180000);
+    const deviceA = await openSignedInDevice(browser);
+    const deviceB = await openSignedInDevice(browser);
+    const lessonsA = new LessonsPageSelectors(deviceA);
+    const lessonsB = new LessonsPageSelectors(deviceB);
+    const settingsB = new SettingsPageSelectors(deviceB);
+
+    await settingsB.selectiveSyncSection.modeSelect.selectOption('on-demand');
+
+    await deviceA.goto('/#lessons');
+    await lessonsA.options.addNewButton.click();
+    await lessonsA.addLessonModal.dateInput.fill('2025-09-08');
+    await lessonsA.addLessonModal.fileInput.setInputFiles('video/clip.mp4');
+    await lessonsA.addLessonModal.saveButton.click();
+    await expect(lessonsA.getAllCards()).toHaveCount(1);
+    await expect(lessonsA.getCloudOnlyBadges()).toHaveCount(0);
+
+    // The lesson's metadata syncs regardless of the rules; only its video stays in the cloud.
+    await deviceB.goto('/#lessons');
+    await expect(async () => {
+      await deviceB.reload();
+      await expect(lessonsB.getAllCards().first().getByText('September 8, 2025')).toBeVisible({ timeout: 5000 });
+    }).toPass({ timeout: 60000 });
+    await expect(lessonsB.getCloudOnlyBadges()).toHaveCount(1);
+
+    await deviceB.goto('/#settings');
+    await settingsB.selectiveSyncSection.modeSelect.selectOption('rules');
+
+    // Widening the rules does not change the lesson, so the video is fetched by the backfill of the next full sync.
+    await deviceB.goto('/#lessons');
+    await expect(async () => {
+      await deviceB.reload();
+      await expect(lessonsB.getAllCards()).toHaveCount(1, { timeout: 5000 });
+      await expect(lessonsB.getCloudOnlyBadges()).toHaveCount(0, { timeout: 5000 });
+    }).toPass({ timeout: 60000 });
+
+    const syncB = new SyncScreensSelectors(deviceB);
+    await deviceB.goto('/#settings/sync-history');
+    await expect(syncB.historyScreen.entries.filter({ hasText: 'Video left in the cloud by the selective sync rules' })).toHaveCount(1);
+    await expect(syncB.historyScreen.entries.filter({ hasText: 'Video now matches the selective sync rules' })).toHaveCount(1);
+
+    await deviceA.context().close();
+    await deviceB.context().close();
+  });
+});
@@ -39,6 +39,7 @@ export class LessonsPageSelectors {
       title: Locator;
       editor: Locator;
       dateInput: Locator;
+      startTimeInput: Locator;
       saveButton: Locator;
   };
   readonly confirmDeleteModal: {
@@ -85,6 +86,7 @@ export class LessonsPageSelectors {
         title: editModalLocator.getByRole('heading', { name: /Edit:/ }),
         editor: editModalLocator.locator('[data-component="editor-screen"]'),
         dateInput: editModalLocator.locator('#uploadDate'),
+        startTimeInput: editModalLocator.locator('#startTime'),
         saveButton: editModalLocator.locator('[data-action="modal-primary-action"]')
     };
 
@@ -113,4 +115,11 @@ export class LessonsPageSelectors {
   getAllCards(): Locator {
     return this.page.locator(`[data-component="lesson-card"]`);
   }
+
+  /**
+   * Gets the "cloud only" badges of lesson cards whose video is not on this device.
+   */
+  getCloudOnlyBadges(): Locator {
+    return this.getAllCards().locator('[data-component="cloud-only-badge"]');
+  }
 }
@@ -28,6 +28,11 @@ export class SettingsPageSelectors {
     signInButton: Locator;
     signOutButton: Locator;
   };
+
+  readonly selectiveSyncSection: {
+    heading: Locator;
+    modeSelect: Locator;
+  };
   
   readonly dataManagementSection: {
     heading: Locator;
@@ -68,6 +73,11 @@ export class SettingsPageSelectors {
         signInButton: this.view.locator('[data-action="google-signin"]'),
         signOutButton: this.view.locator('[data-action="google-signout"]')
     };
+
+    this.selectiveSyncSection = {
+        heading: this.view.getByRole('heading', { name: 'Selective Sync' }),
+        modeSelect: this.view.locator('[data-component="selective-sync"] #video-sync-mode')
+    };
     
     this.dataManagementSection = {
         heading: this.view.getByRole('heading', { name: 'Data Management' }),
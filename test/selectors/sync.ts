@@ -0,0 +1,77 @@
+import { type Page, type Locator } from '@playwright/test';
+
+/**
+ * Selectors for the sync screens opened from the Settings page.
+ */
+export class SyncScreensSelectors {
+  readonly page: Page;
+
+  // --- Sync Conflicts ---
+  readonly conflictsScreen: {
+    modal: Locator;
+    conflicts: Locator;
+    noConflictsMessage: Locator;
+    keepLocalButton: Locator;
+    keepRemoteButton: Locator;
+    mergeButton: Locator;
+  };
+
+  // --- Sync History ---
+  readonly historyScreen: {
+    modal: Locator;
+    entries: Locator;
+  };
+
+  // --- Sync Preview ---
+  readonly previewScreen: {
+    modal: Locator;
+    items: Locator;
+    syncButton: Locator;
+  };
+
+  constructor(page: Page) {
+    this.page = page;
+
+    // --- Sync Conflicts ---
+    const conflictsLocator = page.locator('[data-modal-name="sync-conflicts"]');
+    this.conflictsScreen = {
+        modal: conflictsLocator,
+        conflicts: conflictsLocator.locator('[data-component="sync-conflict"]'),
+        noConflictsMessage: conflictsLocator.getByText('There are no conflicts to resolve.'),
+        keepLocalButton: conflictsLocator.locator('[data-action="keep-local"]'),
+        keepRemoteButton: conflictsLocator.locator('[data-action="keep-remote"]'),
+        mergeButton: conflictsLocator.locator('[data-action="merge"]')
+    };
+
+    // --- Sync History ---
+    const historyLocator = page.locator('[data-modal-name="sync-history"]');
+    this.historyScreen = {
+        modal: historyLocator,
+        entries: historyLocator.locator('[data-component="sync-history-entry"]')
+    };
+
+    // --- Sync Preview ---
+    const previewLocator = page.locator('[data-modal-name="sync-preview"]');
+    this.previewScreen = {
+        modal: previewLocator,
+        items: previewLocator.locator('[data-component="sync-preview-item"]'),
+        syncButton: previewLocator.locator('[data-action="modal-primary-action"]')
+    };
+  }
+
+  /**
+   * Gets the row of one differing field in the open conflicts screen.
+   * @param fieldKey The field's key, e.g. "uploadDate" or "startTime".
+   */
+  getConflictField(fieldKey: string): Locator {
+    return this.conflictsScreen.modal.locator(`[data-component="sync-conflict-field"][data-item-id="${fieldKey}"]`);
+  }
+
+  /**
+   * Gets the items the open sync preview plans one action for.
+   * @param action The planned action, e.g. "download" or "delete-local".
+   */
+  getPreviewItems(action: string): Locator {
+    return this.previewScreen.modal.locator(`[data-component="sync-preview-group"][data-item-id="${action}"] [data-component="sync-preview-item"]`);
+  }
+}
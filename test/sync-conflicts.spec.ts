@@ -0,0 +1,102 @@
+import { test, expect, type Page } from '@playwright/test';
+import { FakeGoogleDriveClient, openSignedInDevice } from './fakes/fake-google-drive-client';
+import { LessonsPageSelectors } from './selectors/lessons';
+import { SyncScreensSelectors } from './selectors/sync';
+
+const addLesson = async (page: Page, date: string): Promise<void> => {
+  const lessons = new LessonsPageSelectors(page);
+  await page.goto('/#lessons');
+  await lessons.options.addNewButton.click();
+  await lessons.addLessonModal.dateInput.fill(date);
+  await lessons.addLessonModal.fileInput.setInputFiles('video/clip.mp4');
+  await lessons.addLessonModal.saveButton.click();
+  await expect(lessons.getAllCards()).toHaveCount(1);
+};
+
+const editLesson = async (page: Page, changes: { date?: string; startTimeSeconds?: string }): Promise<void> => {
+  const lessons = new LessonsPageSelectors(page);
+  await lessons.getAllCards().first().click({ button: 'right' });
+  await lessons.contextMenu.getItem('Edit').click();
+  await expect(lessons.editLessonModal.modal).toBeVisible();
+  if (changes.date) await lessons.editLessonModal.dateInput.fill(changes.date);
+  if (changes.startTimeSeconds) await lessons.editLessonModal.startTimeInput.fill(changes.startTimeSeconds);
+  await lessons.editLessonModal.saveButton.click();
+  await expect(lessons.editLessonModal.modal).not.toBeVisible();
+};
+
+// A device only learns about remote changes when it syncs, which it does on start.
+const waitForLessonCard = async (page: Page, text: string): Promise<void> => {
+  const lessons = new LessonsPageSelectors(page);
+  await expect(async () => {
+    await page.reload();
+    await expect(lessons.getAllCards().first().getByText(text)).toBeVisible({ timeout: 5000 });
+  }).toPass({ timeout: 60000 });
+};
+
+test.describe('Sync Conflicts', () => {
+  let fakeDrive: FakeGoogleDriveClient;
+
+  test.beforeEach(async ({ request, baseURL }) => {
+    fakeDrive = new FakeGoogleDriveClient(request, baseURL!);
+    await fakeDrive.reset();
+  });
+
+  test('should let the user resolve a field both devices changed', async ({ browser }) => {
+    test.setTimeout(180000);
+    const deviceA = await openSignedInDevice(browser);
+    const deviceB = await openSignedInDevice(browser);
+    await addLesson(deviceA, '2025-09-08');
+    await deviceB.goto('/#lessons');
+    await waitForLessonCard(deviceB, 'September 8, 2025');
+
+    // Device B is offline while both edit, so neither sees the other's edit before making its own.
+    await deviceB.context().setOffline(true);
+    await editLesson(deviceB, { date: '2025-09-22' });
+    await editLesson(deviceA, { date: '2025-09-15' });
+    await expect.poll(async () => (await fakeDrive.listFiles('lessons'))[0]?.json?.uploadDate, { timeout: 60000 }).toContain('2025-09-15');
+    await deviceB.context().setOffline(false);
+
+    // Device B's upload is retried once it is back online, and finds the lesson changed remotely too.
+    const syncB = new SyncScreensSelectors(deviceB);
+    await deviceB.goto('/#settings/sync-conflicts');
+    await expect(syncB.conflictsScreen.conflicts).toHaveCount(1, { timeout: 90000 });
+    await expect(syncB.getConflictField('uploadDate')).toContainText('Both changed');
+    await syncB.conflictsScreen.keepLocalButton.click();
+    await expect(syncB.conflictsScreen.noConflictsMessage).toBeVisible();
+
+    await waitForLessonCard(deviceA, 'September 22, 2025');
+    await expect.poll(async () => (await fakeDrive.listFiles('lessons'))[0]?.json?.uploadDate).toContain('2025-09-22');
+
+    await deviceA.context().close();
+    await deviceB.context().close();
+  });
+
+  test('should merge edits of different fields from two devices without asking', async ({ browser }) => {
+    test.setTimeout(180000);
+    const deviceA = await openSignedInDevice(browser);
+    const deviceB = await openSignedInDevice(browser);
+    await addLesson(deviceA, '2025-09-08');
+    await deviceB.goto('/#lessons');
+    await waitForLessonCard(deviceB, 'September 8, 2025');
+
+    await deviceB.context().setOffline(true);
+    await editLesson(deviceB, { startTimeSeconds: '1' });
+    await editLesson(deviceA, { date: '2025-09-15' });
+    await expect.poll(async () => (await fakeDrive.listFiles('lessons'))[0]?.json?.uploadDate, { timeout: 60000 }).toContain('2025-09-15');
+    await deviceB.context().setOffline(false);
+
+    // The last synced version is the common base, so each device's edit is kept and the merge is uploaded.
+    await expect.poll(async () => (await fakeDrive.listFiles('lessons'))[0]?.json, { timeout: 90000 })
+      .toMatchObject({ uploadDate: expect.stringContaining('2025-09-15'), startTime: 1000 });
+    await waitForLessonCard(deviceB, 'September 15, 2025');
+
+    const syncB = new SyncScreensSelectors(deviceB);
+    await deviceB.goto('/#settings/sync-conflicts');
+    await expect(syncB.conflictsScreen.noConflictsMessage).toBeVisible();
+    await deviceB.goto('/#settings/sync-history');
+    await expect(syncB.historyScreen.entries.filter({ hasText: 'Edits from both devices were merged' })).toHaveCount(1);
+
+    await deviceA.context().close();
+    await deviceB.context().close();
+  });
+});
@@ -0,0 +1,14 @@
+import path from 'path';
+import { defineConfig, mergeConfig, type ConfigEnv } from 'vite';
+import baseConfig from './vite.config';
+import { fakeGoogleDriveServer } from './test/fakes/fake-google-drive-server';
+
+// Dev server for the Playwright tests: the app talks to the in-memory fake Google APIs instead of Google.
+export default defineConfig((env: ConfigEnv) => mergeConfig(baseConfig(env), {
+    plugins: [fakeGoogleDriveServer()],
+    resolve: {
+      alias: [
+        { find: /^.*\/GoogleApiClients$/, replacement: path.resolve(__dirname, 'test/fakes/fake-google-api-clients.ts') },
+      ],
+    },
+}));